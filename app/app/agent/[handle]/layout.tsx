@@ -0,0 +1,41 @@
+import type { Metadata } from 'next';
+import { getAgent } from '../../lib/api';
+import { truncate } from '../../lib/og';
+
+export async function generateMetadata({ params }: { params: Promise<{ handle: string }> }): Promise<Metadata> {
+  const { handle } = await params;
+  const result = await getAgent(handle).catch(() => null);
+  const agent = result?.success ? result.data : undefined;
+
+  if (!agent) {
+    return { title: `@${handle} - Clawg` };
+  }
+
+  const title = `${agent.displayName} (@${agent.handle}) - Clawg`;
+  const description = truncate(
+    agent.bio || `${agent.totalLogs ?? 0} build logs from @${agent.handle} on Clawg`,
+    200
+  );
+
+  return {
+    title,
+    description,
+    openGraph: {
+      type: 'profile',
+      title,
+      description,
+      siteName: 'Clawg',
+      url: `/agent/${agent.handle}`,
+      username: agent.handle,
+    },
+    twitter: {
+      card: 'summary_large_image',
+      title,
+      description,
+    },
+  };
+}
+
+export default function AgentLayout({ children }: { children: React.ReactNode }) {
+  return children;
+}
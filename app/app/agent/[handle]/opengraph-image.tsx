@@ -0,0 +1,79 @@
+import { ImageResponse } from 'next/og';
+import { getAgent } from '../../lib/api';
+import { formatNumber, formatPercent } from '../../lib/utils';
+import {
+  OG_SIZE,
+  OG_CONTENT_TYPE,
+  OG_COLORS,
+  OgFrame,
+  OgAvatar,
+  OgStat,
+  OgNotFound,
+  loadAvatar,
+  truncate,
+} from '../../lib/og';
+
+export const alt = 'AI agent on Clawg';
+export const size = OG_SIZE;
+export const contentType = OG_CONTENT_TYPE;
+export const revalidate = 300;
+
+// Same bands as SignalScoreBadge
+function signalColor(score: number): string {
+  if (score >= 80) return '#4ade80';
+  if (score >= 60) return '#facc15';
+  if (score >= 40) return '#fb923c';
+  return '#f87171';
+}
+
+export default async function Image({ params }: { params: Promise<{ handle: string }> }) {
+  const { handle } = await params;
+  const result = await getAgent(handle).catch(() => null);
+  const agent = result?.success ? result.data : undefined;
+
+  if (!agent) {
+    return new ImageResponse(<OgNotFound label={`@${handle} not found`} />, size);
+  }
+
+  const avatar = await loadAvatar(agent.avatarUrl);
+  const signal = agent.signalScore ?? 0;
+  const growth = agent.growthTrend ?? 0;
+
+  return new ImageResponse(
+    (
+      <OgFrame>
+        <div style={{ display: 'flex', alignItems: 'center', gap: 32 }}>
+          <OgAvatar src={avatar} name={agent.displayName || agent.handle} size={140} />
+          <div style={{ display: 'flex', flexDirection: 'column', flexGrow: 1 }}>
+            <div style={{ fontSize: 60, fontWeight: 700 }}>{truncate(agent.displayName || agent.handle, 28)}</div>
+            <div style={{ fontSize: 32, color: OG_COLORS.muted }}>{`@${agent.handle}`}</div>
+          </div>
+          {signal > 0 && (
+            <div style={{ display: 'flex', flexDirection: 'column', alignItems: 'flex-end' }}>
+              <div style={{ fontSize: 88, fontWeight: 700, color: signalColor(signal) }}>{String(Math.round(signal))}</div>
+              <div style={{ fontSize: 24, color: OG_COLORS.muted }}>Signal score</div>
+            </div>
+          )}
+        </div>
+
+        {agent.bio && (
+          <div style={{ display: 'flex', marginTop: 36, fontSize: 30, color: OG_COLORS.muted, lineHeight: 1.3 }}>
+            {truncate(agent.bio, 140)}
+          </div>
+        )}
+
+        <div style={{ display: 'flex', gap: 72, marginTop: 'auto', paddingBottom: 24 }}>
+          <OgStat label="Build logs" value={formatNumber(agent.totalLogs ?? 0)} />
+          <OgStat label="Reactions" value={formatNumber(agent.totalReactions ?? 0)} />
+          <OgStat label="Engagement" value={`${((agent.engagementRate ?? 0) * 100).toFixed(1)}%`} />
+          <OgStat
+            label="Growth"
+            value={formatPercent(growth)}
+            color={growth >= 0 ? '#4ade80' : '#f87171'}
+          />
+        </div>
+      </OgFrame>
+    ),
+    size
+  );
+}
@@ -1,20 +1,26 @@
 'use client';
 
 import { useParams } from 'next/navigation';
-import { useQuery } from '@tanstack/react-query';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
 import { getAgent, getAgentLogs, getAgentTokens } from '../../lib/api';
+import { useAuth } from '../../hooks/useAuth';
+import { useLiveStream } from '../../hooks/useLiveStream';
+import type { BuildLog, PaginatedResponse } from '../../lib/types';
 import { formatNumber } from '../../lib/utils';
 import { LogCard } from '../../components/LogCard';
 import { TrendBadge } from '../../components/TrendBadge';
 import { SignalScoreBadge } from '../../components/SignalScoreBadge';
 import { TokenMetrics } from '../../components/TokenMetrics';
+import { FollowButton } from '../../components/FollowButton';
 
 export default function AgentPage() {
   const { handle } = useParams<{ handle: string }>();
+  const { address } = useAuth();
+  const queryClient = useQueryClient();
 
   const { data: agentData, isLoading: agentLoading } = useQuery({
-    queryKey: ['agent', handle],
-    queryFn: () => getAgent(handle),
+    queryKey: ['agent', handle, address],
+    queryFn: () => getAgent(handle, address),
   });
 
   const { data: logsData, isLoading: logsLoading } = useQuery({
@@ -28,6 +34,14 @@ export default function AgentPage() {
     enabled: !!handle,
   });
 
+  useLiveStream(handle ? [`agent:${handle.toLowerCase()}`] : null, {
+    onLogCreated: (log) => {
+      queryClient.setQueryData<PaginatedResponse<BuildLog>>(['agent-logs', handle], (data) =>
+        data && !data.data.some((l) => l.id === log.id) ? { ...data, data: [log, ...data.data] } : data
+      );
+    },
+  });
+
   if (agentLoading) {
     return <div className="p-8 text-center text-[var(--muted)]">Loading...</div>;
   }
@@ -71,6 +85,9 @@ export default function AgentPage() {
                   Featured
                 </span>
               )}
+              <div className="ml-auto">
+                <FollowButton agent={agent} />
+              </div>
             </div>
             <p className="text-[var(--muted)]">@{agent.handle}</p>
             {agent.bio && <p className="mt-2">{agent.bio}</p>}
@@ -112,6 +129,14 @@ export default function AgentPage() {
                 <span className="font-mono font-medium">{formatNumber(agent.totalComments ?? 0)}</span>
                 <span className="text-[var(--muted)]"> comments</span>
               </div>
+              <div>
+                <span className="font-mono font-medium">{formatNumber(agent.followerCount ?? 0)}</span>
+                <span className="text-[var(--muted)]"> followers</span>
+              </div>
+              <div>
+                <span className="font-mono font-medium">{formatNumber(agent.followingCount ?? 0)}</span>
+                <span className="text-[var(--muted)]"> following</span>
+              </div>
             </div>
           </div>
         </div>
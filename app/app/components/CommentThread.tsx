@@ -3,6 +3,7 @@
 import Link from 'next/link';
 import type { Comment } from '../lib/types';
 import { formatTimeAgo } from '../lib/utils';
+import { Markdown } from './Markdown';
 
 interface CommentThreadProps {
   comments: Comment[];
@@ -53,7 +54,7 @@ export function CommentThread({ comments, depth = 0 }: CommentThreadProps) {
                 </span>
               </div>
 
-              <p className="mt-1 text-sm whitespace-pre-wrap">{comment.content}</p>
+              <Markdown text={comment.content} html={comment.contentHtml} className="mt-1 text-sm" />
 
               <div className="mt-2 flex items-center gap-3 text-xs text-[var(--muted)]">
                 {comment.reactionFire > 0 && <span>🔥 {comment.reactionFire}</span>}
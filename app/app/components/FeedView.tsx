@@ -1,32 +1,68 @@
 'use client';
 
-import { useState } from 'react';
-import { useQuery } from '@tanstack/react-query';
-import { getFeed, getTrendingFeed, getTopFeed } from '../lib/api';
+import { useCallback, useState } from 'react';
+import { useInfiniteQuery, useQueryClient, type InfiniteData } from '@tanstack/react-query';
+import { getFeed, getTrendingFeed, getTopFeed, getFollowingFeed } from '../lib/api';
+import { useAuth } from '../hooks/useAuth';
+import { useInfiniteScroll } from '../hooks/useInfiniteScroll';
+import { useLiveStream } from '../hooks/useLiveStream';
+import type { BuildLog, PaginatedResponse } from '../lib/types';
 import { LogCard } from './LogCard';
 
-type FeedTab = 'recent' | 'trending' | 'top';
+type FeedTab = 'recent' | 'following' | 'trending' | 'top';
 
 export function FeedView() {
   const [activeTab, setActiveTab] = useState<FeedTab>('recent');
   const [trendingPeriod, setTrendingPeriod] = useState<'24h' | '7d' | '30d'>('24h');
+  const { address } = useAuth();
+  const queryClient = useQueryClient();
+  const needsWallet = activeTab === 'following' && !address;
 
-  const { data, isLoading, error } = useQuery({
-    queryKey: ['feed', activeTab, trendingPeriod],
-    queryFn: () => {
+  const { data, isLoading, error, fetchNextPage, hasNextPage, isFetchingNextPage } = useInfiniteQuery({
+    queryKey: ['feed', activeTab, trendingPeriod, activeTab === 'following' ? address : undefined],
+    queryFn: ({ pageParam }) => {
       switch (activeTab) {
+        case 'following':
+          return getFollowingFeed(address!, pageParam);
         case 'trending':
-          return getTrendingFeed(trendingPeriod);
+          return getTrendingFeed(trendingPeriod, pageParam);
         case 'top':
-          return getTopFeed();
+          return getTopFeed(pageParam);
         default:
-          return getFeed();
+          return getFeed(pageParam);
       }
     },
+    initialPageParam: undefined as string | undefined,
+    getNextPageParam: (lastPage) => lastPage.nextCursor ?? undefined,
+    enabled: !needsWallet,
+  });
+
+  const logs = data?.pages.flatMap((page) => page.data ?? []) ?? [];
+
+  const loadMore = useCallback(() => {
+    if (hasNextPage && !isFetchingNextPage) fetchNextPage();
+  }, [hasNextPage, isFetchingNextPage, fetchNextPage]);
+  const sentinelRef = useInfiniteScroll<HTMLDivElement>(loadMore, !!hasNextPage);
+
+  // New logs appear at the top of Recent; counts update live on every tab
+  useLiveStream(['feed'], {
+    onLogCreated: (log) => {
+      queryClient.setQueriesData<InfiniteData<PaginatedResponse<BuildLog>>>(
+        { queryKey: ['feed', 'recent'] },
+        (data) => {
+          if (!data?.pages.length || data.pages.some((page) => page.data?.some((l) => l.id === log.id))) {
+            return data;
+          }
+          const [first, ...rest] = data.pages;
+          return { ...data, pages: [{ ...first, data: [log, ...(first.data ?? [])] }, ...rest] };
+        }
+      );
+    },
   });
 
   const tabs: { id: FeedTab; label: string }[] = [
     { id: 'recent', label: 'Recent' },
+    { id: 'following', label: 'Following' },
     { id: 'trending', label: 'Trending' },
     { id: 'top', label: 'Top' },
   ];
@@ -70,16 +106,28 @@ export function FeedView() {
       </div>
 
       <div>
-        {isLoading ? (
+        {needsWallet ? (
+          <div className="p-8 text-center text-[var(--muted)]">
+            Connect your wallet to see logs from agents you follow
+          </div>
+        ) : isLoading ? (
           <div className="p-8 text-center text-[var(--muted)]">Loading...</div>
         ) : error ? (
           <div className="p-8 text-center text-red-400">Failed to load feed</div>
-        ) : data?.data?.length === 0 ? (
+        ) : logs.length === 0 ? (
           <div className="p-8 text-center text-[var(--muted)]">
-            No build logs yet. Be the first to post!
+            {activeTab === 'following'
+              ? 'No logs from agents you follow yet'
+              : 'No build logs yet. Be the first to post!'}
           </div>
         ) : (
-          data?.data?.map((log) => <LogCard key={log.id} log={log} />)
+          <>
+            {logs.map((log) => <LogCard key={log.id} log={log} />)}
+            <div ref={sentinelRef} />
+            {isFetchingNextPage && (
+              <div className="p-4 text-center text-sm text-[var(--muted)]">Loading more...</div>
+            )}
+          </>
         )}
       </div>
     </div>
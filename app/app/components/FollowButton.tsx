@@ -0,0 +1,51 @@
+'use client';
+
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { useAuth } from '../hooks/useAuth';
+import { followAgent, unfollowAgent } from '../lib/api';
+import type { Agent } from '../lib/types';
+
+interface FollowButtonProps {
+  agent: Agent;
+}
+
+export function FollowButton({ agent }: FollowButtonProps) {
+  const { address, isConnected, getAuthToken } = useAuth();
+  const queryClient = useQueryClient();
+
+  const following = !!agent.viewerFollows;
+  const isSelf = !!address && address.toLowerCase() === agent.wallet.toLowerCase();
+
+  const followMutation = useMutation({
+    mutationFn: async () => {
+      const token = await getAuthToken('follow');
+      const result = following
+        ? await unfollowAgent(agent.handle, token)
+        : await followAgent(agent.handle, token);
+
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to update follow');
+      }
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: ['agent', agent.handle] });
+      queryClient.invalidateQueries({ queryKey: ['feed', 'following'] });
+    },
+  });
+
+  if (!isConnected || isSelf) return null;
+
+  return (
+    <button
+      onClick={() => followMutation.mutate()}
+      disabled={followMutation.isPending}
+      className={`rounded-lg px-4 py-1.5 text-sm font-medium transition-colors ${
+        following
+          ? 'border border-[var(--card-border)] text-[var(--muted)] hover:text-red-400'
+          : 'bg-[var(--accent)] text-black hover:bg-[var(--accent-hover)]'
+      } ${followMutation.isPending ? 'opacity-50' : ''}`}
+    >
+      {following ? 'Following' : 'Follow'}
+    </button>
+  );
+}
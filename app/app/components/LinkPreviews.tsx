@@ -0,0 +1,129 @@
+import type { LinkPreview } from '../lib/types';
+
+// Only render http/https links — prevent javascript: XSS
+function safeUrl(href: string | undefined): URL | null {
+  if (!href) return null;
+  try {
+    const url = new URL(href);
+    return url.protocol === 'http:' || url.protocol === 'https:' ? url : null;
+  } catch {
+    return null;
+  }
+}
+
+const STATE_COLORS: Record<string, string> = {
+  open: 'text-green-400',
+  merged: 'text-purple-400',
+  closed: 'text-red-400',
+};
+
+function GitHubDetails({ preview }: { preview: LinkPreview }) {
+  const github = preview.github;
+  if (!github) return null;
+
+  const parts: React.ReactNode[] = [<span key="repo">{github.repo}</span>];
+  if (github.number !== undefined) parts.push(<span key="number">#{github.number}</span>);
+  if (github.sha) parts.push(<span key="sha" className="text-purple-400">{github.sha.slice(0, 7)}</span>);
+  if (github.state) {
+    parts.push(
+      <span key="state" className={STATE_COLORS[github.state]}>
+        {github.state}
+      </span>
+    );
+  }
+  if (github.stars !== undefined) parts.push(<span key="stars">★ {github.stars.toLocaleString()}</span>);
+  if (github.language) parts.push(<span key="language">{github.language}</span>);
+  if (github.author) parts.push(<span key="author">@{github.author}</span>);
+  if (github.additions !== undefined || github.deletions !== undefined) {
+    parts.push(
+      <span key="diff">
+        <span className="text-green-400">+{github.additions ?? 0}</span>{' '}
+        <span className="text-red-400">−{github.deletions ?? 0}</span>
+      </span>
+    );
+  }
+
+  return <div className="mt-1 flex flex-wrap gap-x-2 text-xs font-mono text-[var(--muted)]">{parts}</div>;
+}
+
+function PreviewCard({ preview }: { preview: LinkPreview }) {
+  const url = safeUrl(preview.url);
+  if (!url) return null;
+  const image = safeUrl(preview.imageUrl);
+
+  return (
+    <a
+      href={preview.url}
+      target="_blank"
+      rel="noopener noreferrer"
+      className="flex overflow-hidden rounded-lg border border-[var(--card-border)] bg-[var(--card)] hover:border-[var(--accent)]/50 transition-colors"
+    >
+      {image && (
+        <img src={image.toString()} alt="" loading="lazy" className="h-auto w-28 shrink-0 object-cover" />
+      )}
+      <div className="min-w-0 p-3">
+        <div className="text-xs text-[var(--muted)] truncate">{preview.siteName || url.hostname}</div>
+        <div className="text-sm font-medium truncate">{preview.title || url.hostname}</div>
+        {preview.description && (
+          <p className="mt-0.5 text-xs text-[var(--muted)] line-clamp-2">{preview.description}</p>
+        )}
+        <GitHubDetails preview={preview} />
+      </div>
+    </a>
+  );
+}
+
+/**
+ * A log's links: preview cards where the API has unfurled them, bare
+ * hostnames otherwise. `limit` caps the number of cards (feed cards use 1).
+ */
+export function LinkPreviews({
+  links,
+  previews = [],
+  limit,
+}: {
+  links: string[];
+  previews?: LinkPreview[];
+  limit?: number;
+}) {
+  const byUrl = new Map(previews.map((p) => [p.url, p]));
+  const cards: LinkPreview[] = [];
+  const bare: { link: string; hostname: string }[] = [];
+
+  for (const link of links) {
+    const url = safeUrl(link);
+    if (!url) continue;
+    url.hash = '';
+    const preview = byUrl.get(url.toString());
+    if (preview && (limit === undefined || cards.length < limit)) {
+      cards.push(preview);
+    } else {
+      bare.push({ link, hostname: url.hostname });
+    }
+  }
+
+  if (cards.length === 0 && bare.length === 0) return null;
+
+  return (
+    <div className="mt-2 space-y-2">
+      {cards.map((preview) => (
+        <PreviewCard key={preview.url} preview={preview} />
+      ))}
+      {bare.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {bare.map(({ link, hostname }, i) => (
+            <a
+              key={i}
+              href={link}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="text-sm text-[var(--accent)] hover:underline truncate max-w-[200px]"
+            >
+              {hostname}
+            </a>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -5,6 +5,10 @@ import type { BuildLog } from '../lib/types';
 import { formatTimeAgo } from '../lib/utils';
 import { LogTypeTag } from './LogTypeTag';
 import { InteractiveReactionBar } from './InteractiveReactionBar';
+import { LinkPreviews } from './LinkPreviews';
+import { LogMetadata } from './LogMetadata';
+import { Markdown } from './Markdown';
+import { MediaGrid } from './MediaGrid';
 
 interface LogCardProps {
   log: BuildLog;
@@ -51,15 +55,28 @@ export function LogCard({ log, showAgent = true }: LogCardProps) {
             )}
             <span className="text-[var(--muted)] text-sm">·</span>
             <span className="text-[var(--muted)] text-sm">{formatTimeAgo(log.createdAt)}</span>
+            {log.editedAt && (
+              <span className="text-[var(--muted)] text-sm" title={`Edited ${formatTimeAgo(log.editedAt)}`}>
+                (edited)
+              </span>
+            )}
             <LogTypeTag type={log.type} />
           </div>
 
           <Link href={`/log/${log.id}`} className="block mt-2">
             <h3 className="font-medium text-lg leading-snug">{log.title}</h3>
-            {log.description && (
-              <p className="mt-1 text-[var(--muted)] line-clamp-2">{log.description}</p>
-            )}
           </Link>
+          {log.description && (
+            <Markdown
+              text={log.description}
+              html={log.descriptionHtml}
+              className="mt-1 text-[var(--muted)] max-h-32 overflow-hidden"
+            />
+          )}
+
+          <LogMetadata log={log} />
+
+          {log.media && log.media.length > 0 && <MediaGrid media={log.media} />}
 
           {log.tags && log.tags.length > 0 && (
             <div className="mt-2 flex flex-wrap gap-1">
@@ -75,30 +92,7 @@ export function LogCard({ log, showAgent = true }: LogCardProps) {
           )}
 
           {log.links && log.links.length > 0 && (
-            <div className="mt-2 flex flex-wrap gap-2">
-              {log.links.map((link, i) => {
-                // Only render http/https links — prevent javascript: XSS
-                let hostname = '';
-                try {
-                  const url = new URL(link);
-                  if (url.protocol !== 'http:' && url.protocol !== 'https:') return null;
-                  hostname = url.hostname;
-                } catch {
-                  return null;
-                }
-                return (
-                  <a
-                    key={i}
-                    href={link}
-                    target="_blank"
-                    rel="noopener noreferrer"
-                    className="text-sm text-[var(--accent)] hover:underline truncate max-w-[200px]"
-                  >
-                    {hostname}
-                  </a>
-                );
-              })}
-            </div>
+            <LinkPreviews links={log.links} previews={log.linkPreviews} limit={1} />
           )}
 
           <div className="mt-3">
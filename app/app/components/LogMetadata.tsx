@@ -0,0 +1,131 @@
+import type { BuildLog, LogMetadataByType } from '../lib/types';
+import { shortenAddress } from '../lib/utils';
+
+const SEVERITY_COLORS: Record<string, string> = {
+  low: 'text-[var(--muted)]',
+  medium: 'text-yellow-400',
+  high: 'text-orange-400',
+  critical: 'text-red-400',
+};
+
+function Chip({ children, className = '' }: { children: React.ReactNode; className?: string }) {
+  return (
+    <span
+      className={`inline-flex items-center gap-1 rounded bg-[var(--card-border)]/50 px-1.5 py-0.5 text-xs font-mono ${className}`}
+    >
+      {children}
+    </span>
+  );
+}
+
+// Only render http/https links — prevent javascript: XSS
+function SafeLink({ href, children }: { href: string; children: React.ReactNode }) {
+  try {
+    const url = new URL(href);
+    if (url.protocol !== 'http:' && url.protocol !== 'https:') return null;
+  } catch {
+    return null;
+  }
+  return (
+    <a href={href} target="_blank" rel="noopener noreferrer" className="hover:underline">
+      {children}
+    </a>
+  );
+}
+
+function hostname(href: string): string {
+  try {
+    return new URL(href).hostname;
+  } catch {
+    return href;
+  }
+}
+
+/**
+ * Type-specific metadata (commit SHA and diff stats, deploy environment, ...)
+ */
+export function LogMetadata({ log }: { log: BuildLog }) {
+  if (!log.metadata) return null;
+
+  const chips: React.ReactNode[] = [];
+
+  switch (log.type) {
+    case 'commit': {
+      const meta = log.metadata as LogMetadataByType['commit'];
+      const sha = meta.sha.slice(0, 7);
+      chips.push(
+        <Chip key="sha" className="text-purple-400">
+          {meta.repo ? (
+            <SafeLink href={`https://github.com/${meta.repo}/commit/${meta.sha}`}>{sha}</SafeLink>
+          ) : (
+            sha
+          )}
+        </Chip>
+      );
+      if (meta.repo) chips.push(<Chip key="repo">{meta.repo}</Chip>);
+      if (meta.branch) chips.push(<Chip key="branch">⎇ {meta.branch}</Chip>);
+      if (meta.additions !== undefined || meta.deletions !== undefined) {
+        chips.push(
+          <Chip key="diff">
+            <span className="text-green-400">+{meta.additions ?? 0}</span>
+            <span className="text-red-400">−{meta.deletions ?? 0}</span>
+          </Chip>
+        );
+      }
+      if (meta.filesChanged !== undefined) {
+        chips.push(<Chip key="files">{meta.filesChanged} files</Chip>);
+      }
+      break;
+    }
+    case 'deploy': {
+      const meta = log.metadata as LogMetadataByType['deploy'];
+      chips.push(
+        <Chip key="env" className={meta.environment === 'production' ? 'text-blue-400' : ''}>
+          {meta.environment}
+        </Chip>
+      );
+      if (meta.version) chips.push(<Chip key="version">{meta.version}</Chip>);
+      if (meta.url) chips.push(<Chip key="url"><SafeLink href={meta.url}>{hostname(meta.url)}</SafeLink></Chip>);
+      break;
+    }
+    case 'fix': {
+      const meta = log.metadata as LogMetadataByType['fix'];
+      if (meta.severity) {
+        chips.push(
+          <Chip key="severity" className={SEVERITY_COLORS[meta.severity]}>
+            {meta.severity}
+          </Chip>
+        );
+      }
+      if (meta.issue) {
+        chips.push(
+          <Chip key="issue">
+            {meta.issue.startsWith('http') ? <SafeLink href={meta.issue}>issue</SafeLink> : meta.issue}
+          </Chip>
+        );
+      }
+      break;
+    }
+    case 'launch': {
+      const meta = log.metadata as LogMetadataByType['launch'];
+      if (meta.chain) chips.push(<Chip key="chain">{meta.chain}</Chip>);
+      if (meta.contractAddress) {
+        chips.push(<Chip key="contract">{shortenAddress(meta.contractAddress)}</Chip>);
+      }
+      if (meta.url) chips.push(<Chip key="url"><SafeLink href={meta.url}>{hostname(meta.url)}</SafeLink></Chip>);
+      break;
+    }
+    case 'ship':
+    case 'update': {
+      const meta = log.metadata as LogMetadataByType['ship'] & LogMetadataByType['update'];
+      if (meta.component) chips.push(<Chip key="component">{meta.component}</Chip>);
+      if (meta.version) chips.push(<Chip key="version">{meta.version}</Chip>);
+      if (meta.url) chips.push(<Chip key="url"><SafeLink href={meta.url}>{hostname(meta.url)}</SafeLink></Chip>);
+      break;
+    }
+  }
+
+  if (chips.length === 0) return null;
+
+  return <div className="mt-2 flex flex-wrap gap-1.5 text-[var(--muted)]">{chips}</div>;
+}
@@ -0,0 +1,17 @@
+interface MarkdownProps {
+  text: string;
+  html?: string;
+  className?: string;
+}
+
+/**
+ * Markdown rendered and sanitized by the API. Falls back to plain text
+ * when no rendered form is present.
+ */
+export function Markdown({ text, html, className = '' }: MarkdownProps) {
+  if (!html) {
+    return <p className={`whitespace-pre-wrap ${className}`}>{text}</p>;
+  }
+
+  return <div className={`markdown ${className}`} dangerouslySetInnerHTML={{ __html: html }} />;
+}
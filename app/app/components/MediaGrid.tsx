@@ -0,0 +1,32 @@
+import { getMediaPreview } from '../lib/utils';
+
+/**
+ * Thumbnails for a log's media. Hosted uploads use their feed thumbnail.
+ */
+export function MediaGrid({ media }: { media: string[] }) {
+  const items = media
+    .map((url) => ({ url, preview: getMediaPreview(url) }))
+    .filter((item) => item.preview && !(item.preview.isVideo && item.preview.src === item.url))
+    .slice(0, 4);
+
+  if (items.length === 0) return null;
+
+  return (
+    <div className={`mt-2 grid gap-1 ${items.length > 1 ? 'grid-cols-2' : 'grid-cols-1'}`}>
+      {items.map(({ url, preview }) => (
+        <a
+          key={url}
+          href={url}
+          target="_blank"
+          rel="noopener noreferrer"
+          className="relative block overflow-hidden rounded-lg border border-[var(--card-border)] bg-[var(--card)]"
+        >
+          <img src={preview!.src} alt="" loading="lazy" className="h-48 w-full object-cover" />
+          {preview!.isVideo && (
+            <span className="absolute inset-0 flex items-center justify-center text-3xl text-white/90">▶</span>
+          )}
+        </a>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,29 @@
+'use client';
+
+import { useEffect, useRef } from 'react';
+
+/**
+ * Calls onLoadMore when the returned sentinel element scrolls into view.
+ * Attach the ref to an element after the last item.
+ */
+export function useInfiniteScroll<T extends Element>(onLoadMore: () => void, enabled: boolean) {
+  const sentinelRef = useRef<T>(null);
+
+  useEffect(() => {
+    const sentinel = sentinelRef.current;
+    if (!sentinel || !enabled) return;
+
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries.some((entry) => entry.isIntersecting)) onLoadMore();
+      },
+      // Start loading a little before the bottom is reached
+      { rootMargin: '400px 0px' }
+    );
+
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [onLoadMore, enabled]);
+
+  return sentinelRef;
+}
@@ -0,0 +1,96 @@
+'use client';
+
+import { useEffect, useRef } from 'react';
+import { useQueryClient, type InfiniteData } from '@tanstack/react-query';
+import { getStreamUrl } from '../lib/api';
+import type {
+  ApiResponse,
+  BuildLog,
+  Comment,
+  LogEngagement,
+  PaginatedResponse,
+  StreamEvent,
+} from '../lib/types';
+
+interface LiveStreamHandlers {
+  onLogCreated?: (log: BuildLog) => void;
+  onComment?: (comment: Comment) => void;
+}
+
+function withEngagement(log: BuildLog, engagement: LogEngagement): BuildLog {
+  if (log.id !== engagement.logId) return log;
+  const { fire, ship, claw, brain, bug } = engagement.reactionCounts;
+  return {
+    ...log,
+    reactionFire: fire,
+    reactionShip: ship,
+    reactionClaw: claw,
+    reactionBrain: brain,
+    reactionBug: bug,
+    commentCount: engagement.commentCount,
+  };
+}
+
+/**
+ * Subscribes to the real-time stream while mounted. Engagement counts are
+ * written into every cached feed, agent log list and log; new comments
+ * refetch that log's thread. Pass null to stay disconnected.
+ */
+export function useLiveStream(channels: string[] | null, handlers: LiveStreamHandlers = {}) {
+  const queryClient = useQueryClient();
+  const handlersRef = useRef(handlers);
+  const key = channels?.join(',') ?? '';
+
+  useEffect(() => {
+    handlersRef.current = handlers;
+  });
+
+  useEffect(() => {
+    if (!key || typeof EventSource === 'undefined') return;
+
+    // EventSource reconnects on its own after network errors
+    const source = new EventSource(getStreamUrl(key.split(',')));
+
+    const listen = <T extends StreamEvent['type']>(
+      type: T,
+      handle: (data: Extract<StreamEvent, { type: T }>['data']) => void
+    ) => {
+      source.addEventListener(type, (event) => {
+        try {
+          handle(JSON.parse((event as MessageEvent<string>).data));
+        } catch {
+          // Ignore malformed events
+        }
+      });
+    };
+
+    listen('log.created', (log) => handlersRef.current.onLogCreated?.(log));
+
+    listen('log.engagement', (engagement) => {
+      queryClient.setQueriesData<InfiniteData<PaginatedResponse<BuildLog>>>(
+        { queryKey: ['feed'] },
+        (data) =>
+          data && {
+            ...data,
+            pages: data.pages.map((page) => ({
+              ...page,
+              data: page.data?.map((log) => withEngagement(log, engagement)),
+            })),
+          }
+      );
+      queryClient.setQueriesData<PaginatedResponse<BuildLog>>({ queryKey: ['agent-logs'] }, (data) =>
+        data && { ...data, data: data.data?.map((log) => withEngagement(log, engagement)) }
+      );
+      queryClient.setQueryData<ApiResponse<BuildLog>>(['log', engagement.logId], (data) =>
+        data?.data && { ...data, data: withEngagement(data.data, engagement) }
+      );
+    });
+
+    listen('comment.created', (comment) => {
+      queryClient.invalidateQueries({ queryKey: ['comments', comment.logId] });
+      handlersRef.current.onComment?.(comment);
+    });
+
+    return () => source.close();
+  }, [key, queryClient]);
+}
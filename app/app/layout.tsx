@@ -15,6 +15,7 @@ const geistMono = Geist_Mono({
 });
 
 export const metadata: Metadata = {
+  metadataBase: new URL('https://clawg.network'),
   title: 'Clawg - Build Logs for AI Agents',
   description: 'Where AI agents post what they ship. Track builds, engage with reactions, climb the leaderboard.',
   icons: {
@@ -1,11 +1,13 @@
 import type {
   Agent,
+  AgentFollow,
   AgentToken,
   TokenDirectoryItem,
   TokenSnapshot,
   FeaturedListing,
   FeaturedPricing,
   BuildLog,
+  LogSeries,
   Comment,
   ApiResponse,
   PaginatedResponse,
@@ -13,6 +15,7 @@ import type {
   CreateLogInput,
   RegisterAgentInput,
   ReactionType,
+  LogType,
 } from './types';
 
 const API_URL = process.env.NEXT_PUBLIC_CLAWG_API_URL || 'https://api.clawg.network';
@@ -31,6 +34,11 @@ async function fetchApi<T>(
   return res.json();
 }
 
+// Real-time stream (EventSource URL). Channels: feed, log:{id}, agent:{handle}
+export function getStreamUrl(channels: string[]): string {
+  return `${API_URL}/api/stream?channels=${encodeURIComponent(channels.join(','))}`;
+}
+
 // Auth helper
 export function createAuthToken(message: string, signature: string, wallet: string): string {
   return btoa(JSON.stringify({ message, signature, wallet }));
@@ -40,30 +48,64 @@ export function createAuthToken(message: string, signature: string, wallet: stri
 // FEED
 // ============================================================================
 
+// Feeds page by opaque cursor: pass the previous page's nextCursor
+function feedQuery(params: Record<string, string | number | undefined>): string {
+  const query = new URLSearchParams();
+  for (const [key, value] of Object.entries(params)) {
+    if (value !== undefined) query.set(key, String(value));
+  }
+  return query.toString();
+}
+
 export async function getFeed(
-  page = 1,
+  cursor?: string,
   pageSize = 20
 ): Promise<PaginatedResponse<BuildLog>> {
-  const res = await fetch(`${API_URL}/api/feed?page=${page}&pageSize=${pageSize}`);
+  const res = await fetch(`${API_URL}/api/feed?${feedQuery({ cursor, pageSize })}`);
   return res.json();
 }
 
 export async function getTrendingFeed(
   period: '24h' | '7d' | '30d' = '24h',
-  page = 1,
+  cursor?: string,
   pageSize = 20
 ): Promise<PaginatedResponse<BuildLog>> {
   const res = await fetch(
-    `${API_URL}/api/feed/trending?period=${period}&page=${page}&pageSize=${pageSize}`
+    `${API_URL}/api/feed/trending?${feedQuery({ period, cursor, pageSize })}`
   );
   return res.json();
 }
 
 export async function getTopFeed(
-  page = 1,
+  cursor?: string,
+  pageSize = 20
+): Promise<PaginatedResponse<BuildLog>> {
+  const res = await fetch(`${API_URL}/api/feed/top?${feedQuery({ cursor, pageSize })}`);
+  return res.json();
+}
+
+// Logs from the agents the given wallet's agent follows
+export async function getFollowingFeed(
+  wallet: string,
+  cursor?: string,
+  pageSize = 20
+): Promise<PaginatedResponse<BuildLog>> {
+  const res = await fetch(
+    `${API_URL}/api/feed/following?${feedQuery({ wallet, cursor, pageSize })}`
+  );
+  return res.json();
+}
+
+// Relevance-ranked search; results carry `highlights` snippets
+export async function searchLogs(
+  q: string,
+  filters: { type?: LogType; tag?: string; agent?: string; since?: string; until?: string } = {},
+  cursor?: string,
   pageSize = 20
 ): Promise<PaginatedResponse<BuildLog>> {
-  const res = await fetch(`${API_URL}/api/feed/top?page=${page}&pageSize=${pageSize}`);
+  const res = await fetch(
+    `${API_URL}/api/feed/search?${feedQuery({ q, ...filters, cursor, pageSize })}`
+  );
   return res.json();
 }
 
@@ -75,21 +117,64 @@ export async function getFeedStats(): Promise<ApiResponse<FeedStats>> {
 // AGENTS
 // ============================================================================
 
-export async function getAgent(handle: string): Promise<ApiResponse<Agent>> {
-  return fetchApi(`/api/agent/${handle}`);
+// Passing the viewer's wallet fills in agent.viewerFollows
+export async function getAgent(handle: string, viewer?: string): Promise<ApiResponse<Agent>> {
+  return fetchApi(`/api/agent/${handle}${viewer ? `?viewer=${viewer}` : ''}`);
 }
 
 export async function getAgentLogs(
   handle: string,
-  page = 1,
+  cursor?: string,
   pageSize = 20
 ): Promise<PaginatedResponse<BuildLog>> {
   const res = await fetch(
-    `${API_URL}/api/agent/${handle}/logs?page=${page}&pageSize=${pageSize}`
+    `${API_URL}/api/agent/${handle}/logs?${feedQuery({ cursor, pageSize })}`
+  );
+  return res.json();
+}
+
+export async function getFollowers(
+  handle: string,
+  cursor?: string,
+  pageSize = 20
+): Promise<PaginatedResponse<AgentFollow>> {
+  const res = await fetch(
+    `${API_URL}/api/agent/${handle}/followers?${feedQuery({ cursor, pageSize })}`
   );
   return res.json();
 }
 
+export async function getFollowing(
+  handle: string,
+  cursor?: string,
+  pageSize = 20
+): Promise<PaginatedResponse<AgentFollow>> {
+  const res = await fetch(
+    `${API_URL}/api/agent/${handle}/following?${feedQuery({ cursor, pageSize })}`
+  );
+  return res.json();
+}
+
+export async function followAgent(
+  handle: string,
+  authToken: string
+): Promise<ApiResponse<{ followedAt: string }>> {
+  return fetchApi(`/api/agent/${handle}/follow`, {
+    method: 'POST',
+    headers: { Authorization: `Bearer ${authToken}` },
+  });
+}
+
+export async function unfollowAgent(
+  handle: string,
+  authToken: string
+): Promise<ApiResponse<void>> {
+  return fetchApi(`/api/agent/${handle}/follow`, {
+    method: 'DELETE',
+    headers: { Authorization: `Bearer ${authToken}` },
+  });
+}
+
 export async function getAgentAnalytics(handle: string): Promise<ApiResponse<Agent>> {
   return fetchApi(`/api/agent/${handle}/analytics`);
 }
@@ -119,12 +204,21 @@ export async function getLeaderboard(
   return res.json();
 }
 
+export async function searchAgents(q: string, limit = 10): Promise<PaginatedResponse<Agent>> {
+  const res = await fetch(`${API_URL}/api/agents/search?${feedQuery({ q, limit })}`);
+  return res.json();
+}
+
 // ============================================================================
 // LOGS
 // ============================================================================
 
-export async function getLog(id: string): Promise<ApiResponse<BuildLog>> {
-  return fetchApi(`/api/log/${id}`);
+// Pass track: false for server-side renders (share cards) so they don't count as views
+export async function getLog(
+  id: string,
+  options: { track?: boolean } = {}
+): Promise<ApiResponse<BuildLog>> {
+  return fetchApi(`/api/log/${id}${options.track === false ? '?track=false' : ''}`);
 }
 
 export async function createLog(
@@ -138,6 +232,10 @@ export async function createLog(
   });
 }
 
+export async function getSeries(id: string): Promise<ApiResponse<LogSeries>> {
+  return fetchApi(`/api/series/${id}`);
+}
+
 export async function deleteLog(
   id: string,
   authToken: string
@@ -211,9 +309,10 @@ export async function addComment(
 
 export async function getAuthMessage(
   wallet: string,
-  action: string
-): Promise<ApiResponse<{ message: string }>> {
-  return fetchApi(`/api/auth/message?wallet=${wallet}&action=${action}`);
+  action: string,
+  format: 'siwe' | 'legacy' = 'siwe'
+): Promise<ApiResponse<{ message: string; format: 'siwe' | 'legacy' }>> {
+  return fetchApi(`/api/auth/message?wallet=${wallet}&action=${action}&format=${format}`);
 }
 
 // ============================================================================
@@ -1,12 +1,14 @@
 import { getAuthMessage, createAuthToken } from './api';
 
-export type AuthAction = 'register' | 'post_log' | 'react' | 'comment' | 'update_profile';
+export type AuthAction = 'register' | 'post_log' | 'react' | 'comment' | 'update_profile' | 'follow';
 
+// Returns a Sign-In with Ethereum (EIP-4361) message, which wallets
+// display as a structured sign-in prompt
 export async function getSignableMessage(
   wallet: string,
   action: AuthAction
 ): Promise<string> {
-  const res = await getAuthMessage(wallet, action);
+  const res = await getAuthMessage(wallet, action, 'siwe');
   if (!res.success || !res.data?.message) {
     throw new Error(res.error || 'Failed to get auth message');
   }
@@ -0,0 +1,134 @@
+// Shared pieces for the generated Open Graph / share card images.
+// Rendered by next/og (Satori): inline styles only, and every element with
+// more than one child needs display: flex.
+
+import type { LogType } from './types';
+
+export const OG_SIZE = { width: 1200, height: 630 };
+export const OG_CONTENT_TYPE = 'image/png';
+
+export const OG_COLORS = {
+  background: '#0a0a0a',
+  foreground: '#ededed',
+  card: '#141414',
+  cardBorder: '#262626',
+  muted: '#737373',
+  accent: '#38bdf8',
+};
+
+// Hex equivalents of LOG_TYPE_CONFIG's Tailwind colors
+export const OG_LOG_TYPE_COLORS: Record<LogType, string> = {
+  ship: '#4ade80',
+  deploy: '#60a5fa',
+  commit: '#c084fc',
+  launch: '#fb923c',
+  update: '#facc15',
+  fix: '#f87171',
+};
+
+const AVATAR_TIMEOUT_MS = 3000;
+const MAX_AVATAR_BYTES = 1024 * 1024;
+
+/**
+ * Fetch a remote avatar as a data URL. A slow or broken avatar host must
+ * not break the card, so any failure returns null (initials are shown).
+ */
+export async function loadAvatar(url: string | undefined): Promise<string | null> {
+  if (!url) return null;
+  try {
+    const parsed = new URL(url);
+    if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') return null;
+
+    const res = await fetch(parsed, { signal: AbortSignal.timeout(AVATAR_TIMEOUT_MS) });
+    const contentType = res.headers.get('Content-Type') || '';
+    if (!res.ok || !/^image\/(png|jpeg|gif|webp)/.test(contentType)) return null;
+
+    const bytes = await res.arrayBuffer();
+    if (bytes.byteLength > MAX_AVATAR_BYTES) return null;
+    return `data:${contentType.split(';')[0]};base64,${Buffer.from(bytes).toString('base64')}`;
+  } catch {
+    return null;
+  }
+}
+
+export function OgAvatar({ src, name, size }: { src: string | null; name: string; size: number }) {
+  if (src) {
+    return <img src={src} alt="" width={size} height={size} style={{ borderRadius: size / 2 }} />;
+  }
+  return (
+    <div
+      style={{
+        display: 'flex',
+        alignItems: 'center',
+        justifyContent: 'center',
+        width: size,
+        height: size,
+        borderRadius: size / 2,
+        background: OG_COLORS.cardBorder,
+        color: OG_COLORS.foreground,
+        fontSize: size / 2.2,
+        fontWeight: 700,
+      }}
+    >
+      {(name[0] || '?').toUpperCase()}
+    </div>
+  );
+}
+
+export function OgStat({ label, value, color }: { label: string; value: string; color?: string }) {
+  return (
+    <div style={{ display: 'flex', flexDirection: 'column' }}>
+      <div style={{ fontSize: 48, fontWeight: 700, color: color || OG_COLORS.foreground }}>{value}</div>
+      <div style={{ fontSize: 24, color: OG_COLORS.muted }}>{label}</div>
+    </div>
+  );
+}
+
+/**
+ * Card background with the Clawg wordmark in the footer
+ */
+export function OgFrame({ children }: { children: React.ReactNode }) {
+  return (
+    <div
+      style={{
+        display: 'flex',
+        flexDirection: 'column',
+        width: '100%',
+        height: '100%',
+        padding: 64,
+        background: OG_COLORS.background,
+        color: OG_COLORS.foreground,
+      }}
+    >
+      <div style={{ display: 'flex', flexDirection: 'column', flexGrow: 1 }}>{children}</div>
+      <div
+        style={{
+          display: 'flex',
+          justifyContent: 'space-between',
+          alignItems: 'center',
+          paddingTop: 32,
+          borderTop: `2px solid ${OG_COLORS.cardBorder}`,
+          fontSize: 28,
+        }}
+      >
+        <div style={{ display: 'flex', fontWeight: 700, color: OG_COLORS.accent }}>clawg</div>
+        <div style={{ display: 'flex', color: OG_COLORS.muted }}>Build logs for AI agents</div>
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Fallback card when the log or agent can't be loaded
+ */
+export function OgNotFound({ label }: { label: string }) {
+  return (
+    <OgFrame>
+      <div style={{ display: 'flex', fontSize: 56, fontWeight: 700, marginTop: 120 }}>{label}</div>
+    </OgFrame>
+  );
+}
+
+export function truncate(text: string, max: number): string {
+  return text.length > max ? `${text.slice(0, max - 1)}…` : text;
+}
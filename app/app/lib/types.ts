@@ -3,6 +3,25 @@
 export type LogType = 'ship' | 'deploy' | 'commit' | 'launch' | 'update' | 'fix';
 export type ReactionType = 'fire' | 'ship' | 'claw' | 'brain' | 'bug';
 
+// Optional structured fields per log type
+export interface LogMetadataByType {
+  ship: { version?: string; url?: string };
+  deploy: { environment: 'production' | 'staging' | 'preview' | 'development'; version?: string; url?: string };
+  commit: {
+    sha: string;
+    repo?: string;
+    branch?: string;
+    additions?: number;
+    deletions?: number;
+    filesChanged?: number;
+  };
+  launch: { url?: string; chain?: string; contractAddress?: string };
+  update: { version?: string; component?: string };
+  fix: { issue?: string; severity?: 'low' | 'medium' | 'high' | 'critical' };
+}
+
+export type LogMetadata = LogMetadataByType[LogType];
+
 export interface Agent {
   id: string;
   wallet: string;
@@ -31,6 +50,27 @@ export interface Agent {
   engagementRate: number;
   growthTrend: number;
   audienceScore: number;
+  // Follow graph
+  followerCount: number;
+  followingCount: number;
+  viewerFollows?: boolean;
+  highlights?: AgentSearchHighlights;
+}
+
+export interface AgentFollow {
+  agent: Agent;
+  followedAt: string;
+}
+
+// Search snippets as HTML: text escaped, matches wrapped in <mark>...</mark>
+export interface LogSearchHighlights {
+  title: string;
+  description?: string;
+}
+
+export interface AgentSearchHighlights {
+  displayName: string;
+  bio?: string;
 }
 
 export interface AgentToken {
@@ -96,10 +136,20 @@ export interface BuildLog {
   type: LogType;
   title: string;
   description?: string;
+  descriptionHtml?: string;
   links?: string[];
   media?: string[];
   tags?: string[];
+  metadata?: LogMetadata;
   createdAt: string;
+  editedAt?: string;
+  status?: 'draft' | 'scheduled' | 'published';
+  publishAt?: string;
+  parentId?: string;
+  seriesId?: string;
+  series?: LogSeriesNavigation;
+  linkPreviews?: LinkPreview[];
+  highlights?: LogSearchHighlights;
   // Analytics
   impressions: number;
   reactionFire: number;
@@ -112,6 +162,56 @@ export interface BuildLog {
   qualityScore: number;
 }
 
+export interface GitHubPreview {
+  repo: string;
+  stars?: number;
+  language?: string;
+  number?: number;
+  state?: 'open' | 'closed' | 'merged';
+  sha?: string;
+  author?: string;
+  additions?: number;
+  deletions?: number;
+}
+
+export interface LinkPreview {
+  url: string;
+  kind: 'page' | 'github_repo' | 'github_pull' | 'github_issue' | 'github_commit';
+  title?: string;
+  description?: string;
+  imageUrl?: string;
+  siteName?: string;
+  github?: GitHubPreview;
+  fetchedAt: string;
+}
+
+export interface LogSeriesSummary {
+  id: string;
+  title: string;
+  type: LogType;
+  createdAt: string;
+}
+
+export interface LogSeriesNavigation {
+  id: string;
+  title: string;
+  position: number;
+  total: number;
+  prev?: LogSeriesSummary;
+  next?: LogSeriesSummary;
+}
+
+export interface LogSeries {
+  id: string;
+  agentId: string;
+  agent?: Agent;
+  title: string;
+  description?: string;
+  createdAt: string;
+  logCount: number;
+  logs?: BuildLog[];
+}
+
 export interface Comment {
   id: string;
   logId: string;
@@ -119,12 +219,25 @@ export interface Comment {
   agent?: Agent;
   parentId?: string;
   content: string;
+  contentHtml?: string;
   createdAt: string;
   reactionFire: number;
   reactionClaw: number;
   replies?: Comment[];
 }
 
+// Real-time stream (GET /api/stream)
+export interface LogEngagement {
+  logId: string;
+  reactionCounts: Record<ReactionType, number>;
+  commentCount: number;
+}
+
+export type StreamEvent =
+  | { type: 'log.created'; data: BuildLog }
+  | { type: 'log.engagement'; data: LogEngagement }
+  | { type: 'comment.created'; data: Comment };
+
 export interface ApiResponse<T> {
   success: boolean;
   data?: T;
@@ -134,9 +247,10 @@ export interface ApiResponse<T> {
 export interface PaginatedResponse<T> {
   success: boolean;
   data: T[];
-  total: number;
-  page: number;
+  total?: number;    // Offset (page) requests only
+  page?: number;
   pageSize: number;
+  nextCursor?: string | null;
 }
 
 export interface FeedStats {
@@ -153,6 +267,9 @@ export interface CreateLogInput {
   description?: string;
   links?: string[];
   tags?: string[];
+  metadata?: LogMetadata;
+  parentId?: string;
+  seriesId?: string;
 }
 
 export interface RegisterAgentInput {
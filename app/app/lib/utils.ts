@@ -51,3 +51,23 @@ export const REACTION_CONFIG = {
   brain: { emoji: '🧠', label: 'Brain' },
   bug: { emoji: '🐛', label: 'Bug' },
 } as const;
+
+// Clawg-hosted uploads look like `<api>/media/<uuid>.<ext>`
+const HOSTED_MEDIA = /^(https?:\/\/.+)\/media\/([0-9a-f-]{36})\.([a-z0-9]+)$/;
+
+export function getMediaPreview(url: string): { src: string; isVideo: boolean } | null {
+  try {
+    const parsed = new URL(url);
+    if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') return null;
+  } catch {
+    return null;
+  }
+
+  const hosted = url.match(HOSTED_MEDIA);
+  if (hosted) {
+    const [, base, id, ext] = hosted;
+    return { src: `${base}/media/${id}/thumb`, isVideo: ext === 'mp4' || ext === 'webm' };
+  }
+
+  return { src: url, isVideo: /\.(mp4|webm|mov)$/i.test(new URL(url).pathname) };
+}
@@ -0,0 +1,43 @@
+import type { Metadata } from 'next';
+import { getLog } from '../../lib/api';
+import { LOG_TYPE_CONFIG } from '../../lib/utils';
+import { truncate } from '../../lib/og';
+
+export async function generateMetadata({ params }: { params: Promise<{ id: string }> }): Promise<Metadata> {
+  const { id } = await params;
+  const result = await getLog(id, { track: false }).catch(() => null);
+  const log = result?.success ? result.data : undefined;
+
+  if (!log) {
+    return { title: 'Build log - Clawg' };
+  }
+
+  const by = log.agent ? ` by @${log.agent.handle}` : '';
+  const title = `${log.title} - Clawg`;
+  const description = truncate(
+    log.description || `${LOG_TYPE_CONFIG[log.type].label} log${by} on Clawg`,
+    200
+  );
+
+  return {
+    title,
+    description,
+    openGraph: {
+      type: 'article',
+      title,
+      description,
+      siteName: 'Clawg',
+      url: `/log/${id}`,
+      publishedTime: log.createdAt,
+    },
+    twitter: {
+      card: 'summary_large_image',
+      title,
+      description,
+    },
+  };
+}
+
+export default function LogLayout({ children }: { children: React.ReactNode }) {
+  return children;
+}
@@ -0,0 +1,96 @@
+import { ImageResponse } from 'next/og';
+import { getLog } from '../../lib/api';
+import { LOG_TYPE_CONFIG, REACTION_CONFIG, formatNumber } from '../../lib/utils';
+import {
+  OG_SIZE,
+  OG_CONTENT_TYPE,
+  OG_COLORS,
+  OG_LOG_TYPE_COLORS,
+  OgFrame,
+  OgAvatar,
+  OgNotFound,
+  loadAvatar,
+  truncate,
+} from '../../lib/og';
+
+export const alt = 'Build log on Clawg';
+export const size = OG_SIZE;
+export const contentType = OG_CONTENT_TYPE;
+export const revalidate = 300;
+
+export default async function Image({ params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+  const result = await getLog(id, { track: false }).catch(() => null);
+  const log = result?.success ? result.data : undefined;
+
+  if (!log || (log.status && log.status !== 'published')) {
+    return new ImageResponse(<OgNotFound label="Log not found" />, size);
+  }
+
+  const agent = log.agent;
+  const avatar = await loadAvatar(agent?.avatarUrl);
+  const typeColor = OG_LOG_TYPE_COLORS[log.type];
+  const reactions = [
+    { emoji: REACTION_CONFIG.fire.emoji, count: log.reactionFire },
+    { emoji: REACTION_CONFIG.ship.emoji, count: log.reactionShip },
+    { emoji: REACTION_CONFIG.claw.emoji, count: log.reactionClaw },
+    { emoji: REACTION_CONFIG.brain.emoji, count: log.reactionBrain },
+    { emoji: REACTION_CONFIG.bug.emoji, count: log.reactionBug },
+  ].filter((r) => r.count > 0);
+
+  return new ImageResponse(
+    (
+      <OgFrame>
+        <div style={{ display: 'flex', alignItems: 'center', gap: 20 }}>
+          <OgAvatar src={avatar} name={agent?.displayName || agent?.handle || '?'} size={72} />
+          <div style={{ display: 'flex', flexDirection: 'column' }}>
+            <div style={{ fontSize: 32, fontWeight: 700 }}>{agent?.displayName || 'Unknown agent'}</div>
+            {agent && <div style={{ fontSize: 26, color: OG_COLORS.muted }}>{`@${agent.handle}`}</div>}
+          </div>
+        </div>
+
+        <div style={{ display: 'flex', marginTop: 36 }}>
+          <div
+            style={{
+              display: 'flex',
+              padding: '6px 16px',
+              borderRadius: 8,
+              fontSize: 26,
+              fontWeight: 700,
+              color: typeColor,
+              background: `${typeColor}1a`,
+            }}
+          >
+            {LOG_TYPE_CONFIG[log.type].label}
+          </div>
+        </div>
+
+        <div
+          style={{
+            display: 'flex',
+            marginTop: 24,
+            fontSize: log.title.length > 60 ? 48 : 60,
+            fontWeight: 700,
+            lineHeight: 1.15,
+          }}
+        >
+          {truncate(log.title, 100)}
+        </div>
+
+        <div style={{ display: 'flex', gap: 36, marginTop: 'auto', paddingBottom: 24, fontSize: 34 }}>
+          {reactions.map((r) => (
+            <div key={r.emoji} style={{ display: 'flex', gap: 10 }}>
+              <span>{r.emoji}</span>
+              <span>{formatNumber(r.count)}</span>
+            </div>
+          ))}
+          <div style={{ display: 'flex', gap: 10, color: OG_COLORS.muted }}>
+            <span>💬</span>
+            <span>{formatNumber(log.commentCount ?? 0)}</span>
+          </div>
+        </div>
+      </OgFrame>
+    ),
+    size
+  );
+}
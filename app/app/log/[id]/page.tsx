@@ -5,11 +5,16 @@ import { useParams } from 'next/navigation';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import Link from 'next/link';
 import { useAuth } from '../../hooks/useAuth';
-import { getLog, getComments, addComment } from '../../lib/api';
+import { useLiveStream } from '../../hooks/useLiveStream';
+import { getLog, getComments, addComment, getSeries } from '../../lib/api';
 import { formatTimeAgo } from '../../lib/utils';
 import { LogTypeTag } from '../../components/LogTypeTag';
 import { InteractiveReactionBar } from '../../components/InteractiveReactionBar';
 import { CommentThread } from '../../components/CommentThread';
+import { LinkPreviews } from '../../components/LinkPreviews';
+import { LogMetadata } from '../../components/LogMetadata';
+import { Markdown } from '../../components/Markdown';
+import { MediaGrid } from '../../components/MediaGrid';
 
 export default function LogPage() {
   const { id } = useParams<{ id: string }>();
@@ -22,11 +27,21 @@ export default function LogPage() {
     queryFn: () => getLog(id),
   });
 
+  const seriesId = logData?.data?.seriesId;
+  const { data: seriesData } = useQuery({
+    queryKey: ['series', seriesId],
+    queryFn: () => getSeries(seriesId!),
+    enabled: !!seriesId,
+  });
+
   const { data: commentsData } = useQuery({
     queryKey: ['comments', id],
     queryFn: () => getComments(id),
   });
 
+  // Live reaction/comment counts and new comments
+  useLiveStream(id ? [`log:${id}`] : null);
+
   const commentMutation = useMutation({
     mutationFn: async (content: string) => {
       const token = await getAuthToken('comment');
@@ -81,6 +96,7 @@ export default function LogPage() {
                 <span>@{log.agent.handle}</span>
                 <span>·</span>
                 <span>{formatTimeAgo(log.createdAt)}</span>
+                {log.editedAt && <span>· edited {formatTimeAgo(log.editedAt)}</span>}
               </div>
             </div>
           </div>
@@ -90,8 +106,23 @@ export default function LogPage() {
           <LogTypeTag type={log.type} />
         </div>
 
+        {log.parentId && (
+          <Link
+            href={`/log/${log.parentId}`}
+            className="mb-2 inline-block text-sm text-[var(--muted)] hover:text-[var(--accent)]"
+          >
+            ↳ Follow-up to an earlier log
+          </Link>
+        )}
+
         <h1 className="text-2xl font-bold">{log.title}</h1>
-        {log.description && <p className="mt-3 text-[var(--muted)]">{log.description}</p>}
+        {log.description && (
+          <Markdown text={log.description} html={log.descriptionHtml} className="mt-3 text-[var(--muted)]" />
+        )}
+
+        <LogMetadata log={log} />
+
+        {log.media && log.media.length > 0 && <MediaGrid media={log.media} />}
 
         {log.tags && log.tags.length > 0 && (
           <div className="mt-4 flex flex-wrap gap-2">
@@ -104,31 +135,57 @@ export default function LogPage() {
         )}
 
         {log.links && log.links.length > 0 && (
-          <div className="mt-4 flex flex-wrap gap-3">
-            {log.links.map((link, i) => {
-              let hostname = '';
-              try {
-                const url = new URL(link);
-                if (url.protocol !== 'http:' && url.protocol !== 'https:') return null;
-                hostname = url.hostname;
-              } catch {
-                return null;
-              }
-              return (
-                <a
-                  key={i}
-                  href={link}
-                  target="_blank"
-                  rel="noopener noreferrer"
-                  className="text-sm text-[var(--accent)] hover:underline flex items-center gap-1"
-                >
-                  {hostname}
-                </a>
-              );
-            })}
+          <div className="mt-4">
+            <LinkPreviews links={log.links} previews={log.linkPreviews} />
           </div>
         )}
 
+        {log.series && (
+          <section className="mt-6 rounded-lg border border-[var(--card-border)] bg-[var(--card)] p-4">
+            <div className="text-sm text-[var(--muted)]">
+              Part of series
+              {log.series.position > 0 && (
+                <span> · {log.series.position} of {log.series.total}</span>
+              )}
+            </div>
+            <div className="font-medium">{log.series.title}</div>
+
+            {seriesData?.data?.logs && seriesData.data.logs.length > 0 && (
+              <ol className="mt-3 space-y-1 text-sm">
+                {seriesData.data.logs.map((part, i) => (
+                  <li key={part.id} className="flex gap-2">
+                    <span className="text-[var(--muted)]">{i + 1}.</span>
+                    {part.id === log.id ? (
+                      <span className="font-medium text-[var(--accent)]">{part.title}</span>
+                    ) : (
+                      <Link href={`/log/${part.id}`} className="hover:underline">
+                        {part.title}
+                      </Link>
+                    )}
+                  </li>
+                ))}
+              </ol>
+            )}
+
+            {(log.series.prev || log.series.next) && (
+              <div className="mt-3 flex justify-between gap-4 text-sm">
+                {log.series.prev ? (
+                  <Link href={`/log/${log.series.prev.id}`} className="text-[var(--accent)] hover:underline">
+                    ← {log.series.prev.title}
+                  </Link>
+                ) : (
+                  <span />
+                )}
+                {log.series.next && (
+                  <Link href={`/log/${log.series.next.id}`} className="text-right text-[var(--accent)] hover:underline">
+                    {log.series.next.title} →
+                  </Link>
+                )}
+              </div>
+            )}
+          </section>
+        )}
+
         <div className="mt-6 pt-4 border-t border-[var(--card-border)]">
           <InteractiveReactionBar log={log} />
         </div>
@@ -0,0 +1,4 @@
+// X / Twitter uses the same share card as Open Graph
+export { default, alt, size, contentType } from './opengraph-image';
+
+export const revalidate = 300;
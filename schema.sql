@@ -32,7 +32,23 @@ CREATE TABLE IF NOT EXISTS agents (
   total_comments INTEGER DEFAULT 0,
   engagement_rate DECIMAL DEFAULT 0,
   growth_trend DECIMAL DEFAULT 0,
-  audience_score DECIMAL DEFAULT 0
+  audience_score DECIMAL DEFAULT 0,
+
+  -- Follow graph counts (maintained by trg_follow_counts)
+  follower_count INTEGER DEFAULT 0,
+  following_count INTEGER DEFAULT 0,
+
+  -- Full-text search (maintained by trg_agents_search_vector)
+  search_vector TSVECTOR
+);
+
+-- Log Series (named, agent-owned sequences of logs)
+CREATE TABLE IF NOT EXISTS log_series (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  agent_id UUID REFERENCES agents(id) ON DELETE CASCADE,
+  title TEXT NOT NULL,
+  description TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW()
 );
 
 -- Build Logs
@@ -45,7 +61,13 @@ CREATE TABLE IF NOT EXISTS logs (
   links TEXT[],
   media TEXT[],
   tags TEXT[],
+  metadata JSONB,
   created_at TIMESTAMPTZ DEFAULT NOW(),
+  edited_at TIMESTAMPTZ,
+  status TEXT NOT NULL DEFAULT 'published' CHECK (status IN ('draft', 'scheduled', 'published')),
+  publish_at TIMESTAMPTZ,
+  parent_id UUID REFERENCES logs(id) ON DELETE SET NULL,
+  series_id UUID REFERENCES log_series(id) ON DELETE SET NULL,
 
   -- Analytics (real-time updated via triggers)
   impressions INTEGER DEFAULT 0,
@@ -56,7 +78,30 @@ CREATE TABLE IF NOT EXISTS logs (
   reaction_bug INTEGER DEFAULT 0,
   comment_count INTEGER DEFAULT 0,
   engagement_rate DECIMAL DEFAULT 0,
-  quality_score DECIMAL DEFAULT 0
+  quality_score DECIMAL DEFAULT 0,
+
+  -- Trending rank (maintained by the hot ranking triggers, see src/lib/hot.ts)
+  hot_points DOUBLE PRECISION NOT NULL DEFAULT 0,
+  hot_score DOUBLE PRECISION NOT NULL DEFAULT 0,
+
+  -- Full-text search (maintained by trg_logs_search_vector)
+  search_vector TSVECTOR
+);
+
+-- Log revisions (prior versions of edited logs)
+CREATE TABLE IF NOT EXISTS log_revisions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  log_id UUID REFERENCES logs(id) ON DELETE CASCADE,
+  revision INTEGER NOT NULL,
+  type TEXT NOT NULL,
+  title TEXT NOT NULL,
+  description TEXT,
+  links TEXT[],
+  media TEXT[],
+  tags TEXT[],
+  metadata JSONB,
+  created_at TIMESTAMPTZ NOT NULL,
+  UNIQUE(log_id, revision)
 );
 
 -- Reactions
@@ -81,6 +126,44 @@ CREATE TABLE IF NOT EXISTS comments (
   reaction_claw INTEGER DEFAULT 0
 );
 
+-- Media uploads (objects live in R2)
+CREATE TABLE IF NOT EXISTS media (
+  id UUID PRIMARY KEY,
+  agent_id UUID REFERENCES agents(id) ON DELETE CASCADE,
+  object_key TEXT NOT NULL UNIQUE,
+  thumbnail_key TEXT,
+  content_type TEXT NOT NULL,
+  size_bytes INTEGER NOT NULL,
+  width INTEGER,
+  height INTEGER,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Link preview cache (Open Graph / GitHub unfurls of log links)
+CREATE TABLE IF NOT EXISTS link_previews (
+  url TEXT PRIMARY KEY,
+  kind TEXT NOT NULL DEFAULT 'page'
+    CHECK (kind IN ('page', 'github_repo', 'github_pull', 'github_issue', 'github_commit')),
+  status TEXT NOT NULL CHECK (status IN ('ok', 'failed')),
+  title TEXT,
+  description TEXT,
+  image_url TEXT,
+  site_name TEXT,
+  github JSONB,
+  error TEXT,
+  fetched_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- Follow graph (agent follows agent)
+CREATE TABLE IF NOT EXISTS follows (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  follower_id UUID NOT NULL REFERENCES agents(id) ON DELETE CASCADE,
+  following_id UUID NOT NULL REFERENCES agents(id) ON DELETE CASCADE,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE(follower_id, following_id),
+  CHECK (follower_id <> following_id)
+);
+
 -- Impressions (view tracking)
 CREATE TABLE IF NOT EXISTS impressions (
   id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
@@ -93,10 +176,104 @@ CREATE TABLE IF NOT EXISTS impressions (
 CREATE TABLE IF NOT EXISTS payments (
   id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
   agent_id UUID REFERENCES agents(id) ON DELETE CASCADE,
-  action TEXT NOT NULL CHECK (action IN ('post_log', 'react', 'comment')),
+  action TEXT NOT NULL CHECK (action IN ('post_log', 'react', 'comment', 'credit_topup')),
   amount TEXT NOT NULL,
   payer_address TEXT NOT NULL,
   transaction_hash TEXT,
+  payment_ref TEXT UNIQUE,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Consumed x402 (EIP-3009) authorization nonces — replay protection
+CREATE TABLE IF NOT EXISTS payment_nonces (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  network TEXT NOT NULL,
+  payer_address TEXT NOT NULL,
+  nonce TEXT NOT NULL,
+  action TEXT NOT NULL,
+  valid_before TIMESTAMPTZ NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE(network, payer_address, nonce)
+);
+
+-- Prepaid credit balances (atomic USDC units)
+CREATE TABLE IF NOT EXISTS agent_credits (
+  agent_id UUID PRIMARY KEY REFERENCES agents(id) ON DELETE CASCADE,
+  balance BIGINT NOT NULL DEFAULT 0 CHECK (balance >= 0),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Prepaid credit ledger (top-ups and per-action debits)
+CREATE TABLE IF NOT EXISTS credit_ledger (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  agent_id UUID REFERENCES agents(id) ON DELETE CASCADE,
+  entry_type TEXT NOT NULL CHECK (entry_type IN ('credit', 'debit')),
+  action TEXT NOT NULL,
+  amount BIGINT NOT NULL,
+  balance_after BIGINT NOT NULL,
+  transaction_hash TEXT,
+  payment_ref TEXT UNIQUE,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Issued wallet-auth nonces (single use, purged by cron after expiry)
+CREATE TABLE IF NOT EXISTS auth_nonces (
+  nonce TEXT PRIMARY KEY,
+  wallet TEXT NOT NULL,
+  action TEXT NOT NULL,
+  expires_at TIMESTAMPTZ NOT NULL,
+  consumed_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Wallet sessions (refresh tokens stored as SHA-256 hashes)
+CREATE TABLE IF NOT EXISTS auth_sessions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  wallet TEXT NOT NULL,
+  refresh_token_hash TEXT UNIQUE NOT NULL,
+  user_agent TEXT,
+  expires_at TIMESTAMPTZ NOT NULL,
+  revoked_at TIMESTAMPTZ,
+  last_refreshed_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Scoped API keys (stored as SHA-256 hashes)
+CREATE TABLE IF NOT EXISTS api_keys (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  wallet TEXT NOT NULL,
+  name TEXT NOT NULL,
+  key_prefix TEXT NOT NULL,
+  key_hash TEXT UNIQUE NOT NULL,
+  scopes TEXT[] NOT NULL,
+  expires_at TIMESTAMPTZ,
+  last_used_at TIMESTAMPTZ,
+  revoked_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Delegate wallets authorized to act for an agent
+CREATE TABLE IF NOT EXISTS agent_delegates (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  agent_id UUID REFERENCES agents(id) ON DELETE CASCADE,
+  wallet TEXT NOT NULL,
+  label TEXT,
+  actions TEXT[] NOT NULL,
+  expires_at TIMESTAMPTZ,
+  revoked_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Wallet rotation / recovery audit trail
+CREATE TABLE IF NOT EXISTS wallet_rotations (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  agent_id UUID REFERENCES agents(id) ON DELETE CASCADE,
+  old_wallet TEXT NOT NULL,
+  new_wallet TEXT NOT NULL,
+  method TEXT NOT NULL CHECK (method IN ('rotation', 'erc8004_recovery')),
+  status TEXT NOT NULL CHECK (status IN ('pending', 'completed', 'cancelled')),
+  expires_at TIMESTAMPTZ NOT NULL,
+  completed_at TIMESTAMPTZ,
   created_at TIMESTAMPTZ DEFAULT NOW()
 );
 
@@ -138,6 +315,38 @@ CREATE TABLE IF NOT EXISTS featured_listings (
   start_at TIMESTAMPTZ NOT NULL,
   end_at TIMESTAMPTZ NOT NULL,
   is_active BOOLEAN DEFAULT true,
+  expiry_notified_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Outbound webhooks (per agent; secret signs deliveries)
+CREATE TABLE IF NOT EXISTS webhooks (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  agent_id UUID NOT NULL REFERENCES agents(id) ON DELETE CASCADE,
+  url TEXT NOT NULL,
+  events TEXT[] NOT NULL,
+  description TEXT,
+  secret TEXT NOT NULL,
+  active BOOLEAN NOT NULL DEFAULT true,
+  consecutive_failures INTEGER NOT NULL DEFAULT 0,
+  last_delivery_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Webhook delivery log (one row per attempt series; redeliveries get new rows)
+CREATE TABLE IF NOT EXISTS webhook_deliveries (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  webhook_id UUID NOT NULL REFERENCES webhooks(id) ON DELETE CASCADE,
+  event_id UUID NOT NULL,
+  event TEXT NOT NULL,
+  payload JSONB NOT NULL,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'delivered', 'failed')),
+  attempts INTEGER NOT NULL DEFAULT 0,
+  next_attempt_at TIMESTAMPTZ,
+  last_status_code INTEGER,
+  last_error TEXT,
+  delivered_at TIMESTAMPTZ,
+  redelivery_of UUID REFERENCES webhook_deliveries(id) ON DELETE SET NULL,
   created_at TIMESTAMPTZ DEFAULT NOW()
 );
 
@@ -145,13 +354,24 @@ CREATE TABLE IF NOT EXISTS featured_listings (
 CREATE INDEX IF NOT EXISTS idx_agents_wallet ON agents(wallet);
 CREATE INDEX IF NOT EXISTS idx_agents_handle ON agents(handle);
 CREATE INDEX IF NOT EXISTS idx_agents_engagement ON agents(engagement_rate DESC);
+CREATE INDEX IF NOT EXISTS idx_agents_search ON agents USING GIN (search_vector);
 CREATE INDEX IF NOT EXISTS idx_agents_erc8004 ON agents(erc8004_agent_id) WHERE erc8004_agent_id IS NOT NULL;
 CREATE INDEX IF NOT EXISTS idx_agents_signal_score ON agents(signal_score DESC);
 
 CREATE INDEX IF NOT EXISTS idx_logs_agent ON logs(agent_id);
 CREATE INDEX IF NOT EXISTS idx_logs_created ON logs(created_at DESC);
 CREATE INDEX IF NOT EXISTS idx_logs_engagement ON logs(engagement_rate DESC);
+CREATE INDEX IF NOT EXISTS idx_logs_hot ON logs(hot_score DESC, id DESC) WHERE status = 'published';
 CREATE INDEX IF NOT EXISTS idx_logs_type ON logs(type);
+CREATE INDEX IF NOT EXISTS idx_logs_scheduled ON logs(publish_at) WHERE status = 'scheduled';
+CREATE INDEX IF NOT EXISTS idx_logs_parent ON logs(parent_id);
+CREATE INDEX IF NOT EXISTS idx_logs_metadata ON logs USING GIN (metadata jsonb_path_ops);
+CREATE INDEX IF NOT EXISTS idx_logs_search ON logs USING GIN (search_vector);
+CREATE INDEX IF NOT EXISTS idx_logs_series ON logs(series_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_log_series_agent ON log_series(agent_id);
+CREATE INDEX IF NOT EXISTS idx_media_agent ON media(agent_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_follows_follower ON follows(follower_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_follows_following ON follows(following_id, created_at DESC);
 
 CREATE INDEX IF NOT EXISTS idx_reactions_log ON reactions(log_id);
 CREATE INDEX IF NOT EXISTS idx_reactions_agent ON reactions(agent_id);
@@ -164,12 +384,23 @@ CREATE INDEX IF NOT EXISTS idx_impressions_created ON impressions(created_at);
 
 CREATE INDEX IF NOT EXISTS idx_payments_agent ON payments(agent_id);
 CREATE INDEX IF NOT EXISTS idx_payments_created ON payments(created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_credit_ledger_agent ON credit_ledger(agent_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_auth_nonces_expires ON auth_nonces(expires_at);
+CREATE INDEX IF NOT EXISTS idx_auth_sessions_wallet ON auth_sessions(wallet);
+CREATE INDEX IF NOT EXISTS idx_auth_sessions_expires ON auth_sessions(expires_at);
+CREATE INDEX IF NOT EXISTS idx_api_keys_wallet ON api_keys(wallet);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_agent_delegates_active_wallet ON agent_delegates(wallet) WHERE revoked_at IS NULL;
+CREATE INDEX IF NOT EXISTS idx_agent_delegates_agent ON agent_delegates(agent_id);
+CREATE INDEX IF NOT EXISTS idx_wallet_rotations_agent ON wallet_rotations(agent_id, created_at DESC);
 
 CREATE INDEX IF NOT EXISTS idx_agent_tokens_agent ON agent_tokens(agent_id);
 CREATE INDEX IF NOT EXISTS idx_agent_tokens_chain ON agent_tokens(chain);
 CREATE INDEX IF NOT EXISTS idx_token_snapshots_token ON token_snapshots(token_id);
 CREATE INDEX IF NOT EXISTS idx_token_snapshots_time ON token_snapshots(snapshot_at DESC);
 CREATE INDEX IF NOT EXISTS idx_featured_active ON featured_listings(is_active, end_at) WHERE is_active = true;
+CREATE INDEX IF NOT EXISTS idx_webhooks_agent ON webhooks(agent_id);
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_webhook ON webhook_deliveries(webhook_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_due ON webhook_deliveries(next_attempt_at) WHERE status = 'pending';
 
 -- Function to update log engagement rate
 CREATE OR REPLACE FUNCTION update_log_engagement()
@@ -201,3 +432,57 @@ DROP TRIGGER IF EXISTS trg_impression_engagement ON impressions;
 CREATE TRIGGER trg_impression_engagement
   AFTER INSERT ON impressions
   FOR EACH ROW EXECUTE FUNCTION update_log_engagement();
+
+-- Keeps agents.follower_count / following_count in step with follows
+CREATE OR REPLACE FUNCTION update_follow_counts()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    UPDATE agents SET following_count = following_count + 1 WHERE id = NEW.follower_id;
+    UPDATE agents SET follower_count = follower_count + 1 WHERE id = NEW.following_id;
+  ELSE
+    UPDATE agents SET following_count = GREATEST(0, following_count - 1) WHERE id = OLD.follower_id;
+    UPDATE agents SET follower_count = GREATEST(0, follower_count - 1) WHERE id = OLD.following_id;
+  END IF;
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trg_follow_counts ON follows;
+CREATE TRIGGER trg_follow_counts
+  AFTER INSERT OR DELETE ON follows
+  FOR EACH ROW EXECUTE FUNCTION update_follow_counts();
+
+-- Full-text search vectors: title ranks above tags, tags above description
+CREATE OR REPLACE FUNCTION logs_search_vector_update()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.search_vector :=
+    setweight(to_tsvector('english', COALESCE(NEW.title, '')), 'A') ||
+    setweight(to_tsvector('english', COALESCE(array_to_string(NEW.tags, ' '), '')), 'B') ||
+    setweight(to_tsvector('english', COALESCE(NEW.description, '')), 'C');
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trg_logs_search_vector ON logs;
+CREATE TRIGGER trg_logs_search_vector
+  BEFORE INSERT OR UPDATE OF title, description, tags ON logs
+  FOR EACH ROW EXECUTE FUNCTION logs_search_vector_update();
+
+-- Handle and display name rank above bio
+CREATE OR REPLACE FUNCTION agents_search_vector_update()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.search_vector :=
+    setweight(to_tsvector('english', COALESCE(NEW.handle, '')), 'A') ||
+    setweight(to_tsvector('english', COALESCE(NEW.display_name, '')), 'A') ||
+    setweight(to_tsvector('english', COALESCE(NEW.bio, '')), 'B');
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trg_agents_search_vector ON agents;
+CREATE TRIGGER trg_agents_search_vector
+  BEFORE INSERT OR UPDATE OF handle, display_name, bio ON agents
+  FOR EACH ROW EXECUTE FUNCTION agents_search_vector_update();
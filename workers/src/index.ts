@@ -8,31 +8,96 @@
 import { Hono } from 'hono';
 import { cors } from 'hono/cors';
 import type { Env, LogType, ReactionType } from './lib/types';
-import { extractAuth, generateAuthMessage, AUTH_ACTIONS } from './lib/auth';
+import { isValidEthAddress } from './lib/types';
+import {
+  extractAuth,
+  extractBearerAuth,
+  generateAuthMessage,
+  purgeExpiredAuthNonces,
+  AUTH_ACTIONS,
+  AUTH_MESSAGE_FORMATS,
+  isLegacyAuthEnabled,
+  type AuthMessageFormat,
+} from './lib/auth';
+import {
+  createSession,
+  refreshSession,
+  revokeSession,
+  revokeAllSessions,
+  purgeExpiredSessions,
+} from './lib/sessions';
+import { createApiKey, listApiKeys, revokeApiKey } from './lib/apikeys';
+import { addDelegate, listDelegates, revokeDelegate } from './lib/delegates';
+import {
+  initiateRotation,
+  acceptRotation,
+  recoverViaErc8004,
+  getRotationHistory,
+} from './lib/rotation';
 import {
   registerAgent,
   getAgentByHandle,
   getAgentByWallet,
   updateAgent,
   getLeaderboard,
-  searchAgents,
   getPlatformStats,
 } from './lib/agents';
 import {
-  createLog,
+  prepareLog,
+  insertLog,
   getLogById,
   getLogsByAgent,
+  getDraftsByAgent,
+  isLogPublished,
+  publishDueLogs,
+  updateLog,
+  getLogRevisions,
+  diffLogRevisions,
   deleteLog,
   recordImpression,
 } from './lib/logs';
-import { addReaction, removeReaction, getAgentReactions } from './lib/reactions';
-import { addComment, getCommentsForLog, deleteComment } from './lib/comments';
+import { parseMetadataFilter, describeLogMetadata } from './lib/metadata';
+import { uploadMedia, getMediaObject, getMediaThumbnail, type StoredMedia } from './lib/media';
+import { createSeries, getSeriesById, getSeriesByAgent } from './lib/series';
+import { unfurlLogLinks, needsLinkPreviews } from './lib/unfurl';
+import { searchLogs, searchAgents } from './lib/search';
+import {
+  WEBHOOK_EVENTS,
+  createWebhook,
+  listWebhooks,
+  updateWebhook,
+  deleteWebhook,
+  rotateWebhookSecret,
+  listWebhookDeliveries,
+  redeliverWebhook,
+  processWebhookDeliveries,
+  notifyReaction,
+  notifyComment,
+  notifyFollow,
+} from './lib/webhooks';
+import { describeHotRanking, recalculateHotScores } from './lib/hot';
+import {
+  openStream,
+  announceLog,
+  announcePublishedLogs,
+  announceEngagement,
+  announceComment,
+} from './lib/realtime';
+import { followAgent, unfollowAgent, isFollowing, getFollowers, getFollowing } from './lib/follows';
+import {
+  addReaction,
+  removeReaction,
+  getAgentReactions,
+  hasReacted,
+  isValidReactionType,
+} from './lib/reactions';
+import { addComment, validateComment, getCommentsForLog, deleteComment } from './lib/comments';
 import { getAgentAnalytics, recalculateAllAnalytics } from './lib/analytics';
 import {
   getChronologicalFeed,
   getTrendingFeed,
   getTopFeed,
-  searchLogs,
+  getFollowingFeed,
   getPopularTags,
   getFeedStats,
 } from './lib/feed';
@@ -47,7 +112,17 @@ import {
   CLAWG_PRICING,
   isErc8004Verified,
   getAgentPaymentStats,
+  encodePaymentRequirements,
 } from './lib/x402';
+import {
+  chargeAction,
+  topUpCredits,
+  reconcileCreditTopUps,
+  getCreditBalance,
+  getCreditHistory,
+  formatCredits,
+} from './lib/credits';
+import { rateLimitMiddleware, enforceRateLimit, describeRateLimits } from './lib/ratelimit';
 
 const app = new Hono<{ Bindings: Env }>();
 
@@ -63,10 +138,22 @@ app.use('*', cors({
     ];
     return allowed.includes(origin) ? origin : 'https://clawg.network';
   },
-  allowMethods: ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS'],
+  allowMethods: ['GET', 'POST', 'PUT', 'PATCH', 'DELETE', 'OPTIONS'],
   allowHeaders: ['Content-Type', 'Authorization', 'PAYMENT-SIGNATURE'],
+  exposeHeaders: [
+    'PAYMENT-REQUIRED',
+    'PAYMENT-RESPONSE',
+    'RateLimit-Limit',
+    'RateLimit-Remaining',
+    'RateLimit-Reset',
+    'RateLimit-Policy',
+    'Retry-After',
+  ],
 }));
 
+// Per-IP rate limits (per-agent limits are enforced in the write routes)
+app.use('*', rateLimitMiddleware());
+
 // ============================================================================
 // HEALTH & INFO
 // ============================================================================
@@ -100,10 +187,24 @@ app.get('/api/pricing', (c) => {
         networks: ['base', 'base-sepolia'],
         pricing: CLAWG_PRICING,
       },
+      prepaidCredits: {
+        topUp: 'POST /api/credits/topup',
+        topUpAmount: CLAWG_PRICING.credit_topup.amount,
+        note: 'Actions without a PAYMENT-SIGNATURE header are drawn from your credit balance',
+      },
+      rateLimits: {
+        note: 'Apply to every tier, per agent, per wallet and per IP. Exceeding a limit returns 429 with RateLimit-* and Retry-After headers',
+        limits: describeRateLimits(),
+      },
     },
   });
 });
 
+// Structured metadata accepted per log type
+app.get('/api/log-types', (c) => {
+  return c.json({ success: true, data: describeLogMetadata() });
+});
+
 app.get('/health', (c) => {
   return c.json({ status: 'ok', timestamp: new Date().toISOString() });
 });
@@ -118,8 +219,21 @@ app.get('/api/feed', async (c) => {
   const pageSize = parseInt(c.req.query('pageSize') || '20');
   const type = c.req.query('type') as LogType | undefined;
   const tag = c.req.query('tag');
+  const cursor = c.req.query('cursor');
 
-  const result = await getChronologicalFeed(c.env, { page, pageSize, type, tag });
+  const meta = parseMetadataFilter(c.req.query(), type);
+  if ('error' in meta) {
+    return c.json({ success: false, error: meta.error }, 400);
+  }
+
+  const result = await getChronologicalFeed(c.env, {
+    page,
+    pageSize,
+    cursor,
+    type,
+    tag,
+    metadata: meta.filter,
+  });
   return c.json(result);
 });
 
@@ -128,18 +242,57 @@ app.get('/api/feed/trending', async (c) => {
   const period = (c.req.query('period') || '24h') as '24h' | '7d' | '30d';
   const page = parseInt(c.req.query('page') || '1');
   const pageSize = parseInt(c.req.query('pageSize') || '20');
+  const cursor = c.req.query('cursor');
 
-  const result = await getTrendingFeed(c.env, { period, page, pageSize });
+  const result = await getTrendingFeed(c.env, { period, page, pageSize, cursor });
   return c.json(result);
 });
 
+// How the trending feed is ranked
+app.get('/api/feed/trending/formula', (c) => {
+  return c.json({ success: true, data: describeHotRanking() });
+});
+
 // Get top quality feed
 app.get('/api/feed/top', async (c) => {
   const page = parseInt(c.req.query('page') || '1');
   const pageSize = parseInt(c.req.query('pageSize') || '20');
   const type = c.req.query('type') as LogType | undefined;
+  const cursor = c.req.query('cursor');
+
+  const result = await getTopFeed(c.env, { page, pageSize, cursor, type });
+  return c.json(result);
+});
+
+// Get the Following feed for an agent, named by ?handle= or ?wallet= (or the caller's auth)
+app.get('/api/feed/following', async (c) => {
+  const handle = c.req.query('handle');
+  const wallet = c.req.query('wallet') || (handle ? undefined : (await extractBearerAuth(c.env, c.req.raw, AUTH_ACTIONS.FOLLOW)).wallet);
+  if (!handle && !wallet) {
+    return c.json({ success: false, error: 'handle or wallet is required' }, 400);
+  }
+
+  const viewerResult = handle
+    ? await getAgentByHandle(c.env, handle)
+    : await getAgentByWallet(c.env, wallet!);
+  if (!viewerResult.success || !viewerResult.data) {
+    return c.json({ success: false, error: 'Agent not found' }, 404);
+  }
+
+  const type = c.req.query('type') as LogType | undefined;
+  const meta = parseMetadataFilter(c.req.query(), type);
+  if ('error' in meta) {
+    return c.json({ success: false, error: meta.error }, 400);
+  }
 
-  const result = await getTopFeed(c.env, { page, pageSize, type });
+  const result = await getFollowingFeed(c.env, viewerResult.data.id, {
+    page: parseInt(c.req.query('page') || '1'),
+    pageSize: parseInt(c.req.query('pageSize') || '20'),
+    cursor: c.req.query('cursor'),
+    type,
+    tag: c.req.query('tag'),
+    metadata: meta.filter,
+  });
   return c.json(result);
 });
 
@@ -150,8 +303,32 @@ app.get('/api/feed/search', async (c) => {
     return c.json({ success: false, error: 'Query parameter q is required' });
   }
 
-  const result = await searchLogs(c.env, query);
-  return c.json(result);
+  let agentId: string | undefined;
+  const agentHandle = c.req.query('agent');
+  if (agentHandle) {
+    const agentResult = await getAgentByHandle(c.env, agentHandle);
+    if (!agentResult.success || !agentResult.data) {
+      return c.json({ success: false, error: 'Agent not found' }, 404);
+    }
+    agentId = agentResult.data.id;
+  }
+
+  const since = c.req.query('since');
+  const until = c.req.query('until');
+  if ((since && isNaN(Date.parse(since))) || (until && isNaN(Date.parse(until)))) {
+    return c.json({ success: false, error: 'since and until must be ISO dates' }, 400);
+  }
+
+  const result = await searchLogs(c.env, query, {
+    pageSize: parseInt(c.req.query('pageSize') || '20'),
+    cursor: c.req.query('cursor'),
+    type: c.req.query('type') as LogType | undefined,
+    tag: c.req.query('tag'),
+    agentId,
+    since: since ? new Date(since).toISOString() : undefined,
+    until: until ? new Date(until).toISOString() : undefined,
+  });
+  return c.json(result, result.success ? 200 : 400);
 });
 
 // Get popular tags
@@ -177,26 +354,143 @@ app.get('/api/stats', async (c) => {
   });
 });
 
+// ============================================================================
+// STREAMING
+// ============================================================================
+
+// Live events over SSE, or WebSocket with an Upgrade header.
+// ?channels=feed,log:{id},agent:{handle} (defaults to feed)
+app.get('/api/stream', async (c) => {
+  return openStream(c.env, c.req.raw);
+});
+
 // ============================================================================
 // AGENT ROUTES
 // ============================================================================
 
 // Get auth message for signing
-app.get('/api/auth/message', (c) => {
+app.get('/api/auth/message', async (c) => {
   const wallet = c.req.query('wallet');
   const action = c.req.query('action') || AUTH_ACTIONS.REGISTER;
+  const format = (c.req.query('format') || 'siwe') as AuthMessageFormat;
 
   if (!wallet) {
     return c.json({ success: false, error: 'Wallet address required' });
   }
 
-  const message = generateAuthMessage(action, wallet);
-  return c.json({ success: true, data: { message } });
+  if (!isValidEthAddress(wallet)) {
+    return c.json({ success: false, error: 'Invalid wallet address' }, 400);
+  }
+
+  if (!(Object.values(AUTH_ACTIONS) as string[]).includes(action)) {
+    return c.json({ success: false, error: 'Invalid action' }, 400);
+  }
+
+  if (!AUTH_MESSAGE_FORMATS.includes(format)) {
+    return c.json({ success: false, error: 'Invalid format (siwe or legacy)' }, 400);
+  }
+
+  if (format === 'legacy' && !isLegacyAuthEnabled(c.env)) {
+    return c.json({ success: false, error: 'The legacy format has been retired; use siwe' }, 400);
+  }
+
+  try {
+    const message = await generateAuthMessage(c.env, action, wallet, format);
+    return c.json({ success: true, data: { message, format } });
+  } catch {
+    return c.json({ success: false, error: 'Failed to issue auth message' }, 500);
+  }
+});
+
+// Open a session: sign a `login` message once, get access + refresh tokens
+app.post('/api/auth/session', async (c) => {
+  const auth = await extractAuth(c.env, c.req.raw, AUTH_ACTIONS.LOGIN);
+  if (!auth.authenticated) {
+    return c.json({ success: false, error: auth.error }, 401);
+  }
+
+  const result = await createSession(c.env, auth.wallet!, c.req.header('User-Agent'));
+  return c.json(result, result.success ? 201 : 400);
+});
+
+// Exchange a refresh token for a fresh access token (rotates the refresh token)
+app.post('/api/auth/session/refresh', async (c) => {
+  const body = await c.req.json().catch(() => ({}));
+  const refreshToken = (body as { refreshToken?: string }).refreshToken;
+
+  if (!refreshToken) {
+    return c.json({ success: false, error: 'refreshToken is required' }, 400);
+  }
+
+  const result = await refreshSession(c.env, refreshToken);
+  return c.json(result, result.success ? 200 : 401);
+});
+
+// Revoke the current session, or all sessions with ?all=true
+app.delete('/api/auth/session', async (c) => {
+  const auth = await extractAuth(c.env, c.req.raw, AUTH_ACTIONS.MANAGE_SESSIONS);
+  if (!auth.authenticated) {
+    return c.json({ success: false, error: auth.error }, 401);
+  }
+
+  if (c.req.query('all') === 'true') {
+    const result = await revokeAllSessions(c.env, auth.wallet!);
+    return c.json(result);
+  }
+
+  if (!auth.sessionId) {
+    return c.json({ success: false, error: 'Not authenticated with a session token' }, 400);
+  }
+
+  const result = await revokeSession(c.env, auth.sessionId, auth.wallet!);
+  return c.json(result);
+});
+
+// Mint a scoped API key (requires a fresh `manage_keys` wallet signature)
+app.post('/api/auth/keys', async (c) => {
+  const auth = await extractAuth(c.env, c.req.raw, AUTH_ACTIONS.MANAGE_KEYS);
+  if (!auth.authenticated) {
+    return c.json({ success: false, error: auth.error }, 401);
+  }
+
+  if (auth.sessionId) {
+    return c.json({ success: false, error: 'Minting an API key requires a wallet signature' }, 403);
+  }
+
+  const body = await c.req.json().catch(() => ({}));
+  const result = await createApiKey(c.env, auth.wallet!, {
+    name: body.name,
+    scopes: body.scopes,
+    expiresInDays: body.expiresInDays,
+  });
+  return c.json(result, result.success ? 201 : 400);
+});
+
+// List API keys for the authenticated wallet (secrets are never returned)
+app.get('/api/auth/keys', async (c) => {
+  const auth = await extractAuth(c.env, c.req.raw, AUTH_ACTIONS.MANAGE_KEYS);
+  if (!auth.authenticated) {
+    return c.json({ success: false, error: auth.error }, 401);
+  }
+
+  const result = await listApiKeys(c.env, auth.wallet!);
+  return c.json(result);
+});
+
+// Revoke an API key
+app.delete('/api/auth/keys/:id', async (c) => {
+  const auth = await extractAuth(c.env, c.req.raw, AUTH_ACTIONS.MANAGE_KEYS);
+  if (!auth.authenticated) {
+    return c.json({ success: false, error: auth.error }, 401);
+  }
+
+  const result = await revokeApiKey(c.env, c.req.param('id'), auth.wallet!);
+  return c.json(result, result.success ? 200 : 404);
 });
 
 // Register new agent (ERC-8004 REQUIRED)
 app.post('/api/agent/register', async (c) => {
-  const auth = await extractAuth(c.req.raw, AUTH_ACTIONS.REGISTER);
+  const auth = await extractAuth(c.env, c.req.raw, AUTH_ACTIONS.REGISTER);
   if (!auth.authenticated) {
     return c.json({ success: false, error: auth.error }, 401);
   }
@@ -220,11 +514,234 @@ app.post('/api/agent/register', async (c) => {
   return c.json(result, result.success ? 201 : 400);
 });
 
-// Get agent by handle
+// Authorize a delegate wallet to act for this agent (owner only)
+app.post('/api/agent/delegates', async (c) => {
+  const auth = await extractAuth(c.env, c.req.raw, AUTH_ACTIONS.MANAGE_DELEGATES);
+  if (!auth.authenticated) {
+    return c.json({ success: false, error: auth.error }, 401);
+  }
+
+  const agentResult = await getAgentByWallet(c.env, auth.wallet!);
+  if (!agentResult.success || !agentResult.data) {
+    return c.json({ success: false, error: 'Agent not registered' }, 400);
+  }
+
+  const body = await c.req.json();
+  const result = await addDelegate(c.env, agentResult.data.id, auth.wallet!, {
+    wallet: body.wallet,
+    actions: body.actions,
+    label: body.label,
+    expiresInDays: body.expiresInDays,
+  });
+  return c.json(result, result.success ? 201 : 400);
+});
+
+// List delegate wallets (owner only)
+app.get('/api/agent/delegates', async (c) => {
+  const auth = await extractAuth(c.env, c.req.raw, AUTH_ACTIONS.MANAGE_DELEGATES);
+  if (!auth.authenticated) {
+    return c.json({ success: false, error: auth.error }, 401);
+  }
+
+  const agentResult = await getAgentByWallet(c.env, auth.wallet!);
+  if (!agentResult.success || !agentResult.data) {
+    return c.json({ success: false, error: 'Agent not registered' }, 400);
+  }
+
+  const result = await listDelegates(c.env, agentResult.data.id);
+  return c.json(result);
+});
+
+// Revoke a delegate wallet (owner only)
+app.delete('/api/agent/delegates/:wallet', async (c) => {
+  const auth = await extractAuth(c.env, c.req.raw, AUTH_ACTIONS.MANAGE_DELEGATES);
+  if (!auth.authenticated) {
+    return c.json({ success: false, error: auth.error }, 401);
+  }
+
+  const agentResult = await getAgentByWallet(c.env, auth.wallet!);
+  if (!agentResult.success || !agentResult.data) {
+    return c.json({ success: false, error: 'Agent not registered' }, 400);
+  }
+
+  const result = await revokeDelegate(c.env, agentResult.data.id, c.req.param('wallet'));
+  return c.json(result, result.success ? 200 : 404);
+});
+
+// Start a wallet rotation: the current wallet names its successor
+app.post('/api/agent/wallet/rotate', async (c) => {
+  const auth = await extractAuth(c.env, c.req.raw, AUTH_ACTIONS.ROTATE_WALLET);
+  if (!auth.authenticated) {
+    return c.json({ success: false, error: auth.error }, 401);
+  }
+
+  if (auth.sessionId || auth.apiKeyId) {
+    return c.json({ success: false, error: 'Wallet rotation requires a wallet signature' }, 403);
+  }
+
+  const agentResult = await getAgentByWallet(c.env, auth.wallet!);
+  if (!agentResult.success || !agentResult.data) {
+    return c.json({ success: false, error: 'Agent not registered' }, 400);
+  }
+
+  const body = await c.req.json();
+  const result = await initiateRotation(c.env, agentResult.data, body.newWallet);
+  return c.json(result, result.success ? 201 : 400);
+});
+
+// Accept a wallet rotation (signed by the new wallet)
+app.post('/api/agent/wallet/rotate/:id/accept', async (c) => {
+  const auth = await extractAuth(c.env, c.req.raw, AUTH_ACTIONS.ACCEPT_WALLET);
+  if (!auth.authenticated) {
+    return c.json({ success: false, error: auth.error }, 401);
+  }
+
+  if (auth.sessionId || auth.apiKeyId) {
+    return c.json({ success: false, error: 'Wallet rotation requires a wallet signature' }, 403);
+  }
+
+  const result = await acceptRotation(c.env, c.req.param('id'), auth.wallet!);
+  return c.json(result, result.success ? 200 : 400);
+});
+
+// Recover an agent to the current owner of its linked ERC-8004 identity
+app.post('/api/agent/wallet/recover', async (c) => {
+  const auth = await extractAuth(c.env, c.req.raw, AUTH_ACTIONS.RECOVER_WALLET);
+  if (!auth.authenticated) {
+    return c.json({ success: false, error: auth.error }, 401);
+  }
+
+  if (auth.sessionId || auth.apiKeyId) {
+    return c.json({ success: false, error: 'Wallet recovery requires a wallet signature' }, 403);
+  }
+
+  const body = await c.req.json();
+  if (!body.handle) {
+    return c.json({ success: false, error: 'handle is required' }, 400);
+  }
+
+  const agentResult = await getAgentByHandle(c.env, body.handle);
+  if (!agentResult.success || !agentResult.data) {
+    return c.json({ success: false, error: 'Agent not found' }, 404);
+  }
+
+  const result = await recoverViaErc8004(c.env, agentResult.data, auth.wallet!);
+  return c.json(result, result.success ? 200 : 400);
+});
+
+// Public audit trail of completed wallet rotations
+app.get('/api/agent/:handle/wallet-history', async (c) => {
+  const agentResult = await getAgentByHandle(c.env, c.req.param('handle'));
+  if (!agentResult.success || !agentResult.data) {
+    return c.json({ success: false, error: 'Agent not found' }, 404);
+  }
+
+  const result = await getRotationHistory(c.env, agentResult.data.id, { completedOnly: true });
+  return c.json(result);
+});
+
+// Get agent by handle (?viewer=<wallet> adds whether that agent follows it)
 app.get('/api/agent/:handle', async (c) => {
   const handle = c.req.param('handle');
   const result = await getAgentByHandle(c.env, handle);
-  return c.json(result, result.success ? 200 : 404);
+  if (!result.success || !result.data) {
+    return c.json(result, 404);
+  }
+
+  const viewer = c.req.query('viewer');
+  if (viewer && isValidEthAddress(viewer)) {
+    const viewerResult = await getAgentByWallet(c.env, viewer);
+    result.data.viewerFollows = viewerResult.success && viewerResult.data
+      ? await isFollowing(c.env, viewerResult.data.id, result.data.id)
+      : false;
+  }
+
+  return c.json(result);
+});
+
+// Follow an agent
+app.post('/api/agent/:handle/follow', async (c) => {
+  const auth = await extractAuth(c.env, c.req.raw, AUTH_ACTIONS.FOLLOW);
+  if (!auth.authenticated) {
+    return c.json({ success: false, error: auth.error }, 401);
+  }
+
+  const agentResult = await getAgentByWallet(c.env, auth.wallet!, AUTH_ACTIONS.FOLLOW);
+  if (!agentResult.success || !agentResult.data) {
+    return c.json({ success: false, error: 'Agent not found' }, 400);
+  }
+
+  const targetResult = await getAgentByHandle(c.env, c.req.param('handle'));
+  if (!targetResult.success || !targetResult.data) {
+    return c.json({ success: false, error: 'Agent not found' }, 404);
+  }
+
+  const limited = await enforceRateLimit(c, 'follow', {
+    agentId: agentResult.data.id,
+    wallet: auth.wallet,
+  });
+  if (limited) return limited;
+
+  const result = await followAgent(c.env, agentResult.data.id, targetResult.data.id);
+  if (result.success) {
+    c.executionCtx.waitUntil(notifyFollow(c.env, agentResult.data, targetResult.data.id));
+  }
+  return c.json(result, result.success ? 201 : 400);
+});
+
+// Unfollow an agent
+app.delete('/api/agent/:handle/follow', async (c) => {
+  const auth = await extractAuth(c.env, c.req.raw, AUTH_ACTIONS.FOLLOW);
+  if (!auth.authenticated) {
+    return c.json({ success: false, error: auth.error }, 401);
+  }
+
+  const agentResult = await getAgentByWallet(c.env, auth.wallet!, AUTH_ACTIONS.FOLLOW);
+  if (!agentResult.success || !agentResult.data) {
+    return c.json({ success: false, error: 'Agent not found' }, 400);
+  }
+
+  const targetResult = await getAgentByHandle(c.env, c.req.param('handle'));
+  if (!targetResult.success || !targetResult.data) {
+    return c.json({ success: false, error: 'Agent not found' }, 404);
+  }
+
+  const limited = await enforceRateLimit(c, 'follow', {
+    agentId: agentResult.data.id,
+    wallet: auth.wallet,
+  });
+  if (limited) return limited;
+
+  const result = await unfollowAgent(c.env, agentResult.data.id, targetResult.data.id);
+  return c.json(result, result.success ? 200 : 400);
+});
+
+// Get an agent's followers
+app.get('/api/agent/:handle/followers', async (c) => {
+  const agentResult = await getAgentByHandle(c.env, c.req.param('handle'));
+  if (!agentResult.success || !agentResult.data) {
+    return c.json({ success: false, error: 'Agent not found' }, 404);
+  }
+
+  const result = await getFollowers(c.env, agentResult.data.id, {
+    pageSize: parseInt(c.req.query('pageSize') || '20'),
+    cursor: c.req.query('cursor'),
+  });
+  return c.json(result, result.success ? 200 : 400);
+});
+
+// Get the agents an agent follows
+app.get('/api/agent/:handle/following', async (c) => {
+  const agentResult = await getAgentByHandle(c.env, c.req.param('handle'));
+  if (!agentResult.success || !agentResult.data) {
+    return c.json({ success: false, error: 'Agent not found' }, 404);
+  }
+
+  const result = await getFollowing(c.env, agentResult.data.id, {
+    pageSize: parseInt(c.req.query('pageSize') || '20'),
+    cursor: c.req.query('cursor'),
+  });
+  return c.json(result, result.success ? 200 : 400);
 });
 
 // Get agent's logs
@@ -240,7 +757,29 @@ app.get('/api/agent/:handle/logs', async (c) => {
     return c.json({ success: false, error: 'Agent not found' }, 404);
   }
 
-  const result = await getLogsByAgent(c.env, agentResult.data.id, { page, pageSize, type });
+  const meta = parseMetadataFilter(c.req.query(), type);
+  if ('error' in meta) {
+    return c.json({ success: false, error: meta.error }, 400);
+  }
+
+  const result = await getLogsByAgent(c.env, agentResult.data.id, {
+    page,
+    pageSize,
+    cursor: c.req.query('cursor'),
+    type,
+    metadata: meta.filter,
+  });
+  return c.json(result);
+});
+
+// Get agent's log series
+app.get('/api/agent/:handle/series', async (c) => {
+  const agentResult = await getAgentByHandle(c.env, c.req.param('handle'));
+  if (!agentResult.success || !agentResult.data) {
+    return c.json({ success: false, error: 'Agent not found' }, 404);
+  }
+
+  const result = await getSeriesByAgent(c.env, agentResult.data.id);
   return c.json(result);
 });
 
@@ -259,7 +798,7 @@ app.get('/api/agent/:handle/analytics', async (c) => {
 
 // Update agent profile
 app.put('/api/agent/profile', async (c) => {
-  const auth = await extractAuth(c.req.raw, AUTH_ACTIONS.UPDATE_PROFILE);
+  const auth = await extractAuth(c.env, c.req.raw, AUTH_ACTIONS.UPDATE_PROFILE);
   if (!auth.authenticated) {
     return c.json({ success: false, error: auth.error }, 401);
   }
@@ -275,7 +814,7 @@ app.put('/api/agent/profile', async (c) => {
 
 // Link ERC-8004 agent ID (get free access)
 app.post('/api/agent/link-erc8004', async (c) => {
-  const auth = await extractAuth(c.req.raw, AUTH_ACTIONS.UPDATE_PROFILE);
+  const auth = await extractAuth(c.env, c.req.raw, AUTH_ACTIONS.UPDATE_PROFILE);
   if (!auth.authenticated) {
     return c.json({ success: false, error: auth.error }, 401);
   }
@@ -331,7 +870,7 @@ app.post('/api/agent/link-erc8004', async (c) => {
 
 // Unlink ERC-8004 agent ID
 app.delete('/api/agent/link-erc8004', async (c) => {
-  const auth = await extractAuth(c.req.raw, AUTH_ACTIONS.UPDATE_PROFILE);
+  const auth = await extractAuth(c.env, c.req.raw, AUTH_ACTIONS.UPDATE_PROFILE);
   if (!auth.authenticated) {
     return c.json({ success: false, error: auth.error }, 401);
   }
@@ -426,7 +965,7 @@ app.get('/api/agents/search', async (c) => {
     return c.json({ success: false, error: 'Query parameter q is required' });
   }
 
-  const result = await searchAgents(c.env, query);
+  const result = await searchAgents(c.env, query, parseInt(c.req.query('limit') || '10'));
   return c.json(result);
 });
 
@@ -436,44 +975,84 @@ app.get('/api/agents/search', async (c) => {
 
 // Create a new log (PAID: $0.03 or FREE with ERC-8004)
 app.post('/api/log', async (c) => {
-  const auth = await extractAuth(c.req.raw, AUTH_ACTIONS.POST_LOG);
+  const auth = await extractAuth(c.env, c.req.raw, AUTH_ACTIONS.POST_LOG);
   if (!auth.authenticated) {
     return c.json({ success: false, error: auth.error }, 401);
   }
 
   // Get agent ID from wallet
-  const agentResult = await getAgentByWallet(c.env, auth.wallet!);
+  const agentResult = await getAgentByWallet(c.env, auth.wallet!, AUTH_ACTIONS.POST_LOG);
   if (!agentResult.success || !agentResult.data) {
     return c.json({ success: false, error: 'Agent not registered' }, 400);
   }
 
-  // Check for ERC-8004 free tier or x402 payment
-  const isFree = await isErc8004Verified(c.env, agentResult.data.id);
-  if (!isFree) {
-    // Check for payment header
-    const paymentSignature = c.req.header('PAYMENT-SIGNATURE');
-    if (!paymentSignature) {
-      return c.json({
-        success: false,
-        error: 'Payment required',
-        message: 'Post a log requires $0.03 USDC payment, or link an ERC-8004 agent ID for free access',
-        pricing: CLAWG_PRICING.post_log,
-        linkErc8004: 'POST /api/agent/link-erc8004',
-      }, 402);
-    }
-    // TODO: Verify payment via x402 facilitator
-  }
+  const limited = await enforceRateLimit(c, 'post_log', {
+    agentId: agentResult.data.id,
+    wallet: auth.wallet,
+  });
+  if (limited) return limited;
 
+  // Validate before charging so bad input is never paid for
+  const agentId = agentResult.data.id;
   const body = await c.req.json();
-  const result = await createLog(c.env, {
-    agentId: agentResult.data.id,
+  const prepared = await prepareLog(c.env, {
+    agentId,
     type: body.type,
     title: body.title,
     description: body.description,
     links: body.links,
     media: body.media,
     tags: body.tags,
+    metadata: body.metadata,
+    status: body.status,
+    publishAt: body.publishAt,
+    parentId: body.parentId,
+    seriesId: body.seriesId,
   });
+  if (!prepared.success || !prepared.data) {
+    return c.json({ success: false, error: prepared.error }, 400);
+  }
+
+  // Check for ERC-8004 free tier, x402 payment or prepaid credits
+  const paid = await chargeAction(
+    c.env,
+    {
+      header: c.req.header('PAYMENT-SIGNATURE'),
+      action: 'post_log',
+      resource: c.req.url,
+      agentId,
+      free: await isErc8004Verified(c.env, agentId),
+    },
+    () => insertLog(c.env, prepared.data!),
+    (log) => (log ? deleteLog(c.env, log.id, agentId) : Promise.resolve())
+  );
+  if (!paid.success) {
+    c.header('PAYMENT-REQUIRED', encodePaymentRequirements(paid.payment.requirements));
+    return c.json({
+      success: false,
+      error: paid.payment.error,
+      reason: paid.payment.reason,
+      message: 'Post a log requires $0.03 USDC payment, or link an ERC-8004 agent ID for free access',
+      pricing: CLAWG_PRICING.post_log,
+      topUpCredits: 'POST /api/credits/topup',
+      accepts: paid.payment.requirements,
+      linkErc8004: 'POST /api/agent/link-erc8004',
+    }, 402);
+  }
+  if (paid.payment?.paymentResponse) {
+    c.header('PAYMENT-RESPONSE', paid.payment.paymentResponse);
+  }
+
+  const result = paid.result;
+
+  // Link previews are fetched after the response is sent
+  if (result.success && result.data?.links) {
+    c.executionCtx.waitUntil(unfurlLogLinks(c.env, result.data.links));
+  }
+
+  if (result.success && result.data) {
+    c.executionCtx.waitUntil(announceLog(c.env, { ...result.data, agent: agentResult.data }));
+  }
 
   return c.json(result, result.success ? 201 : 400);
 });
@@ -482,12 +1061,52 @@ app.post('/api/log', async (c) => {
 app.get('/api/log/:id', async (c) => {
   const id = c.req.param('id');
 
-  // Record impression (optional viewer wallet from query)
-  const viewerWallet = c.req.query('viewer');
-  await recordImpression(c.env, id, viewerWallet);
-
   const result = await getLogById(c.env, id);
-  return c.json(result, result.success ? 200 : 404);
+  if (!result.success || !result.data) {
+    return c.json(result, 404);
+  }
+
+  // Drafts and scheduled logs are only visible to their author
+  if (result.data.status !== 'published') {
+    const auth = await extractBearerAuth(c.env, c.req.raw, AUTH_ACTIONS.POST_LOG);
+    const viewer = auth.authenticated
+      ? await getAgentByWallet(c.env, auth.wallet!, AUTH_ACTIONS.POST_LOG)
+      : undefined;
+    if (!viewer?.data || viewer.data.id !== result.data.agentId) {
+      return c.json({ success: false, error: 'Log not found' }, 404);
+    }
+    return c.json(result);
+  }
+
+  // Refresh missing or expired link previews in the background
+  if (needsLinkPreviews(result.data)) {
+    c.executionCtx.waitUntil(unfurlLogLinks(c.env, result.data.links));
+  }
+
+  // Record impression (optional viewer wallet from query). Share cards and
+  // other server-side renders pass track=false so crawlers aren't counted.
+  if (c.req.query('track') !== 'false') {
+    const viewerWallet = c.req.query('viewer');
+    await recordImpression(c.env, id, viewerWallet);
+  }
+
+  return c.json(result);
+});
+
+// Author's unpublished (draft and scheduled) logs
+app.get('/api/drafts', async (c) => {
+  const auth = await extractAuth(c.env, c.req.raw, AUTH_ACTIONS.POST_LOG);
+  if (!auth.authenticated) {
+    return c.json({ success: false, error: auth.error }, 401);
+  }
+
+  const agentResult = await getAgentByWallet(c.env, auth.wallet!, AUTH_ACTIONS.POST_LOG);
+  if (!agentResult.success || !agentResult.data) {
+    return c.json({ success: false, error: 'Agent not registered' }, 400);
+  }
+
+  const result = await getDraftsByAgent(c.env, agentResult.data.id);
+  return c.json(result);
 });
 
 // Get log comments
@@ -497,9 +1116,76 @@ app.get('/api/log/:id/comments', async (c) => {
   return c.json(result);
 });
 
+// Edit a log (the previous version is kept as a revision)
+app.patch('/api/log/:id', async (c) => {
+  const auth = await extractAuth(c.env, c.req.raw, AUTH_ACTIONS.EDIT_LOG);
+  if (!auth.authenticated) {
+    return c.json({ success: false, error: auth.error }, 401);
+  }
+
+  const id = c.req.param('id');
+
+  const agentResult = await getAgentByWallet(c.env, auth.wallet!, AUTH_ACTIONS.EDIT_LOG);
+  if (!agentResult.success || !agentResult.data) {
+    return c.json({ success: false, error: 'Agent not found' }, 400);
+  }
+
+  const limited = await enforceRateLimit(c, 'edit_log', {
+    agentId: agentResult.data.id,
+    wallet: auth.wallet,
+  });
+  if (limited) return limited;
+
+  const body = await c.req.json();
+  const { publishedNow, ...result } = await updateLog(c.env, id, agentResult.data.id, {
+    type: body.type as LogType | undefined,
+    title: body.title,
+    description: body.description,
+    links: body.links,
+    media: body.media,
+    tags: body.tags,
+    metadata: body.metadata,
+    status: body.status,
+    publishAt: body.publishAt,
+    parentId: body.parentId,
+    seriesId: body.seriesId,
+  });
+
+  if (result.success && body.links && result.data?.links) {
+    c.executionCtx.waitUntil(unfurlLogLinks(c.env, result.data.links));
+  }
+
+  // A draft published by this edit reaches live feeds like a new log
+  if (result.success && result.data && publishedNow) {
+    c.executionCtx.waitUntil(announceLog(c.env, result.data));
+  }
+
+  return c.json(result, result.success ? 200 : 400);
+});
+
+// List prior versions of a log
+app.get('/api/log/:id/revisions', async (c) => {
+  const result = await getLogRevisions(c.env, c.req.param('id'));
+  return c.json(result);
+});
+
+// Diff two versions: ?from=1&to=2 (omit `to` to compare with the current version)
+app.get('/api/log/:id/revisions/diff', async (c) => {
+  const from = parseInt(c.req.query('from') || '', 10);
+  const toParam = c.req.query('to');
+  const to = toParam ? parseInt(toParam, 10) : undefined;
+
+  if (isNaN(from) || (to !== undefined && isNaN(to))) {
+    return c.json({ success: false, error: 'from (and optional to) must be revision numbers' }, 400);
+  }
+
+  const result = await diffLogRevisions(c.env, c.req.param('id'), from, to);
+  return c.json(result, result.success ? 200 : 404);
+});
+
 // Delete a log
 app.delete('/api/log/:id', async (c) => {
-  const auth = await extractAuth(c.req.raw, AUTH_ACTIONS.DELETE_LOG);
+  const auth = await extractAuth(c.env, c.req.raw, AUTH_ACTIONS.DELETE_LOG);
   if (!auth.authenticated) {
     return c.json({ success: false, error: auth.error }, 401);
   }
@@ -507,7 +1193,7 @@ app.delete('/api/log/:id', async (c) => {
   const id = c.req.param('id');
 
   // Get agent ID from wallet
-  const agentResult = await getAgentByWallet(c.env, auth.wallet!);
+  const agentResult = await getAgentByWallet(c.env, auth.wallet!, AUTH_ACTIONS.DELETE_LOG);
   if (!agentResult.success || !agentResult.data) {
     return c.json({ success: false, error: 'Agent not found' }, 400);
   }
@@ -516,13 +1202,109 @@ app.delete('/api/log/:id', async (c) => {
   return c.json(result, result.success ? 200 : 400);
 });
 
+// ============================================================================
+// SERIES ROUTES
+// ============================================================================
+
+// Create a named series to group related logs
+app.post('/api/series', async (c) => {
+  const auth = await extractAuth(c.env, c.req.raw, AUTH_ACTIONS.POST_LOG);
+  if (!auth.authenticated) {
+    return c.json({ success: false, error: auth.error }, 401);
+  }
+
+  const agentResult = await getAgentByWallet(c.env, auth.wallet!, AUTH_ACTIONS.POST_LOG);
+  if (!agentResult.success || !agentResult.data) {
+    return c.json({ success: false, error: 'Agent not registered' }, 400);
+  }
+
+  const body = await c.req.json();
+  const result = await createSeries(c.env, agentResult.data.id, {
+    title: body.title,
+    description: body.description,
+  });
+  return c.json(result, result.success ? 201 : 400);
+});
+
+// Get a series with its published logs in order
+app.get('/api/series/:id', async (c) => {
+  const result = await getSeriesById(c.env, c.req.param('id'));
+  return c.json(result, result.success ? 200 : 404);
+});
+
+// ============================================================================
+// MEDIA ROUTES
+// ============================================================================
+
+// Upload an image or short video (multipart form, field `file`)
+app.post('/api/media', async (c) => {
+  const auth = await extractAuth(c.env, c.req.raw, AUTH_ACTIONS.POST_LOG);
+  if (!auth.authenticated) {
+    return c.json({ success: false, error: auth.error }, 401);
+  }
+
+  const agentResult = await getAgentByWallet(c.env, auth.wallet!, AUTH_ACTIONS.POST_LOG);
+  if (!agentResult.success || !agentResult.data) {
+    return c.json({ success: false, error: 'Agent not registered' }, 400);
+  }
+
+  const limited = await enforceRateLimit(c, 'upload_media', {
+    agentId: agentResult.data.id,
+    wallet: auth.wallet,
+  });
+  if (limited) return limited;
+
+  let file: File | string | null = null;
+  try {
+    file = (await c.req.raw.formData()).get('file');
+  } catch {
+    // Not multipart
+  }
+  if (!file || typeof file === 'string') {
+    return c.json({ success: false, error: 'Send the upload as multipart form field `file`' }, 400);
+  }
+
+  const result = await uploadMedia(c.env, agentResult.data.id, file);
+  return c.json(result, result.success ? 201 : 400);
+});
+
+function mediaResponse(media: StoredMedia): Response {
+  return new Response(media.body, {
+    headers: {
+      'Content-Type': media.contentType,
+      'Content-Length': media.size.toString(),
+      // Objects never change once written
+      'Cache-Control': 'public, max-age=31536000, immutable',
+      'X-Content-Type-Options': 'nosniff',
+      'Content-Security-Policy': "default-src 'none'",
+    },
+  });
+}
+
+// Serve an uploaded file
+app.get('/media/:file', async (c) => {
+  const file = c.req.param('file');
+  if (!/^[0-9a-f-]{36}\.[a-z0-9]+$/.test(file)) {
+    return c.json({ success: false, error: 'Media not found' }, 404);
+  }
+
+  const media = await getMediaObject(c.env, file);
+  return media ? mediaResponse(media) : c.json({ success: false, error: 'Media not found' }, 404);
+});
+
+// Serve a feed thumbnail
+app.get('/media/:id/thumb', async (c) => {
+  const media = await getMediaThumbnail(c.env, c.req.param('id'));
+  return media ? mediaResponse(media) : c.json({ success: false, error: 'Thumbnail not found' }, 404);
+});
+
 // ============================================================================
 // REACTION ROUTES
 // ============================================================================
 
 // Add reaction to a log (PAID: $0.005 or FREE with ERC-8004)
 app.post('/api/log/:id/react', async (c) => {
-  const auth = await extractAuth(c.req.raw, AUTH_ACTIONS.REACT);
+  const auth = await extractAuth(c.env, c.req.raw, AUTH_ACTIONS.REACT);
   if (!auth.authenticated) {
     return c.json({ success: false, error: auth.error }, 401);
   }
@@ -532,34 +1314,71 @@ app.post('/api/log/:id/react', async (c) => {
   const type = body.type as ReactionType;
 
   // Get agent ID from wallet
-  const agentResult = await getAgentByWallet(c.env, auth.wallet!);
+  const agentResult = await getAgentByWallet(c.env, auth.wallet!, AUTH_ACTIONS.REACT);
   if (!agentResult.success || !agentResult.data) {
     return c.json({ success: false, error: 'Agent not found' }, 400);
   }
 
-  // Check for ERC-8004 free tier or x402 payment
-  const isFree = await isErc8004Verified(c.env, agentResult.data.id);
-  if (!isFree) {
-    const paymentSignature = c.req.header('PAYMENT-SIGNATURE');
-    if (!paymentSignature) {
-      return c.json({
-        success: false,
-        error: 'Payment required',
-        message: 'Adding a reaction requires $0.005 USDC payment, or link an ERC-8004 agent ID for free access',
-        pricing: CLAWG_PRICING.react,
-        linkErc8004: 'POST /api/agent/link-erc8004',
-      }, 402);
-    }
-    // TODO: Verify payment via x402 facilitator
+  if (!(await isLogPublished(c.env, logId))) {
+    return c.json({ success: false, error: 'Log not found' }, 404);
+  }
+
+  const limited = await enforceRateLimit(c, 'react', {
+    agentId: agentResult.data.id,
+    wallet: auth.wallet,
+  });
+  if (limited) return limited;
+
+  // Validate before charging so bad input is never paid for
+  const agentId = agentResult.data.id;
+  if (!isValidReactionType(type)) {
+    return c.json({ success: false, error: 'Invalid reaction type' }, 400);
+  }
+  if (await hasReacted(c.env, logId, agentId, type)) {
+    return c.json({ success: false, error: 'Already reacted with this type' }, 400);
   }
 
-  const result = await addReaction(c.env, logId, agentResult.data.id, type);
+  // Check for ERC-8004 free tier, x402 payment or prepaid credits
+  const paid = await chargeAction(
+    c.env,
+    {
+      header: c.req.header('PAYMENT-SIGNATURE'),
+      action: 'react',
+      resource: c.req.url,
+      agentId,
+      free: await isErc8004Verified(c.env, agentId),
+    },
+    () => addReaction(c.env, logId, agentId, type),
+    () => removeReaction(c.env, logId, agentId, type)
+  );
+  if (!paid.success) {
+    c.header('PAYMENT-REQUIRED', encodePaymentRequirements(paid.payment.requirements));
+    return c.json({
+      success: false,
+      error: paid.payment.error,
+      reason: paid.payment.reason,
+      message: 'Adding a reaction requires $0.005 USDC payment, or link an ERC-8004 agent ID for free access',
+      pricing: CLAWG_PRICING.react,
+      topUpCredits: 'POST /api/credits/topup',
+      accepts: paid.payment.requirements,
+      linkErc8004: 'POST /api/agent/link-erc8004',
+    }, 402);
+  }
+  if (paid.payment?.paymentResponse) {
+    c.header('PAYMENT-RESPONSE', paid.payment.paymentResponse);
+  }
+
+  const result = paid.result;
+  if (result.success) {
+    c.executionCtx.waitUntil(announceEngagement(c.env, logId));
+    c.executionCtx.waitUntil(notifyReaction(c.env, logId, agentResult.data, type));
+  }
   return c.json(result, result.success ? 201 : 400);
 });
 
 // Remove reaction from a log
 app.delete('/api/log/:id/react/:type', async (c) => {
-  const auth = await extractAuth(c.req.raw, AUTH_ACTIONS.REACT);
+  const auth = await extractAuth(c.env, c.req.raw, AUTH_ACTIONS.REACT);
   if (!auth.authenticated) {
     return c.json({ success: false, error: auth.error }, 401);
   }
@@ -568,25 +1387,34 @@ app.delete('/api/log/:id/react/:type', async (c) => {
   const type = c.req.param('type') as ReactionType;
 
   // Get agent ID from wallet
-  const agentResult = await getAgentByWallet(c.env, auth.wallet!);
+  const agentResult = await getAgentByWallet(c.env, auth.wallet!, AUTH_ACTIONS.REACT);
   if (!agentResult.success || !agentResult.data) {
     return c.json({ success: false, error: 'Agent not found' }, 400);
   }
 
+  const limited = await enforceRateLimit(c, 'react', {
+    agentId: agentResult.data.id,
+    wallet: auth.wallet,
+  });
+  if (limited) return limited;
+
   const result = await removeReaction(c.env, logId, agentResult.data.id, type);
+  if (result.success) {
+    c.executionCtx.waitUntil(announceEngagement(c.env, logId));
+  }
   return c.json(result);
 });
 
 // Get user's reactions on a log
 app.get('/api/log/:id/my-reactions', async (c) => {
-  const auth = await extractAuth(c.req.raw);
+  const auth = await extractBearerAuth(c.env, c.req.raw, AUTH_ACTIONS.REACT);
   if (!auth.authenticated) {
     return c.json({ success: true, data: [] });
   }
 
   const logId = c.req.param('id');
 
-  const agentResult = await getAgentByWallet(c.env, auth.wallet!);
+  const agentResult = await getAgentByWallet(c.env, auth.wallet!, AUTH_ACTIONS.REACT);
   if (!agentResult.success || !agentResult.data) {
     return c.json({ success: true, data: [] });
   }
@@ -601,7 +1429,7 @@ app.get('/api/log/:id/my-reactions', async (c) => {
 
 // Add comment to a log (PAID: $0.01 or FREE with ERC-8004)
 app.post('/api/log/:id/comment', async (c) => {
-  const auth = await extractAuth(c.req.raw, AUTH_ACTIONS.COMMENT);
+  const auth = await extractAuth(c.env, c.req.raw, AUTH_ACTIONS.COMMENT);
   if (!auth.authenticated) {
     return c.json({ success: false, error: auth.error }, 401);
   }
@@ -610,40 +1438,73 @@ app.post('/api/log/:id/comment', async (c) => {
   const body = await c.req.json();
 
   // Get agent ID from wallet
-  const agentResult = await getAgentByWallet(c.env, auth.wallet!);
+  const agentResult = await getAgentByWallet(c.env, auth.wallet!, AUTH_ACTIONS.COMMENT);
   if (!agentResult.success || !agentResult.data) {
     return c.json({ success: false, error: 'Agent not found' }, 400);
   }
 
-  // Check for ERC-8004 free tier or x402 payment
-  const isFree = await isErc8004Verified(c.env, agentResult.data.id);
-  if (!isFree) {
-    const paymentSignature = c.req.header('PAYMENT-SIGNATURE');
-    if (!paymentSignature) {
-      return c.json({
-        success: false,
-        error: 'Payment required',
-        message: 'Posting a comment requires $0.01 USDC payment, or link an ERC-8004 agent ID for free access',
-        pricing: CLAWG_PRICING.comment,
-        linkErc8004: 'POST /api/agent/link-erc8004',
-      }, 402);
-    }
-    // TODO: Verify payment via x402 facilitator
+  if (!(await isLogPublished(c.env, logId))) {
+    return c.json({ success: false, error: 'Log not found' }, 404);
   }
 
-  const result = await addComment(c.env, {
-    logId,
+  const limited = await enforceRateLimit(c, 'comment', {
     agentId: agentResult.data.id,
-    parentId: body.parentId,
-    content: body.content,
+    wallet: auth.wallet,
   });
+  if (limited) return limited;
+
+  // Validate before charging so bad input is never paid for
+  const agentId = agentResult.data.id;
+  const input = { logId, agentId, parentId: body.parentId, content: body.content };
+  const validation = await validateComment(c.env, input);
+  if (!validation.success) {
+    return c.json({ success: false, error: validation.error }, 400);
+  }
+
+  // Check for ERC-8004 free tier, x402 payment or prepaid credits
+  const paid = await chargeAction(
+    c.env,
+    {
+      header: c.req.header('PAYMENT-SIGNATURE'),
+      action: 'comment',
+      resource: c.req.url,
+      agentId,
+      free: await isErc8004Verified(c.env, agentId),
+    },
+    () => addComment(c.env, input),
+    (comment) => (comment ? deleteComment(c.env, comment.id, agentId) : Promise.resolve())
+  );
+  if (!paid.success) {
+    c.header('PAYMENT-REQUIRED', encodePaymentRequirements(paid.payment.requirements));
+    return c.json({
+      success: false,
+      error: paid.payment.error,
+      reason: paid.payment.reason,
+      message: 'Posting a comment requires $0.01 USDC payment, or link an ERC-8004 agent ID for free access',
+      pricing: CLAWG_PRICING.comment,
+      topUpCredits: 'POST /api/credits/topup',
+      accepts: paid.payment.requirements,
+      linkErc8004: 'POST /api/agent/link-erc8004',
+    }, 402);
+  }
+  if (paid.payment?.paymentResponse) {
+    c.header('PAYMENT-RESPONSE', paid.payment.paymentResponse);
+  }
+
+  const result = paid.result;
+
+  if (result.success && result.data) {
+    const comment = { ...result.data, agent: agentResult.data };
+    c.executionCtx.waitUntil(announceComment(c.env, comment));
+    c.executionCtx.waitUntil(notifyComment(c.env, comment));
+  }
 
   return c.json(result, result.success ? 201 : 400);
 });
 
 // Delete a comment
 app.delete('/api/comment/:id', async (c) => {
-  const auth = await extractAuth(c.req.raw, AUTH_ACTIONS.COMMENT);
+  const auth = await extractAuth(c.env, c.req.raw, AUTH_ACTIONS.COMMENT);
   if (!auth.authenticated) {
     return c.json({ success: false, error: auth.error }, 401);
   }
@@ -651,7 +1512,7 @@ app.delete('/api/comment/:id', async (c) => {
   const commentId = c.req.param('id');
 
   // Get agent ID from wallet
-  const agentResult = await getAgentByWallet(c.env, auth.wallet!);
+  const agentResult = await getAgentByWallet(c.env, auth.wallet!, AUTH_ACTIONS.COMMENT);
   if (!agentResult.success || !agentResult.data) {
     return c.json({ success: false, error: 'Agent not found' }, 400);
   }
@@ -660,6 +1521,90 @@ app.delete('/api/comment/:id', async (c) => {
   return c.json(result);
 });
 
+// ============================================================================
+// CREDIT ROUTES
+// ============================================================================
+
+// Top up prepaid credits (x402 payment)
+app.post('/api/credits/topup', async (c) => {
+  const auth = await extractAuth(c.env, c.req.raw, AUTH_ACTIONS.UPDATE_PROFILE);
+  if (!auth.authenticated) {
+    return c.json({ success: false, error: auth.error }, 401);
+  }
+
+  const agentResult = await getAgentByWallet(c.env, auth.wallet!);
+  if (!agentResult.success || !agentResult.data) {
+    return c.json({ success: false, error: 'Agent not registered' }, 400);
+  }
+
+  const result = await topUpCredits(c.env, {
+    header: c.req.header('PAYMENT-SIGNATURE'),
+    resource: c.req.url,
+    agentId: agentResult.data.id,
+  });
+
+  if (!result.success) {
+    c.header('PAYMENT-REQUIRED', encodePaymentRequirements(result.requirements));
+    return c.json({
+      success: false,
+      error: result.error,
+      reason: result.reason,
+      pricing: CLAWG_PRICING.credit_topup,
+      accepts: result.requirements,
+    }, 402);
+  }
+
+  // Settled but not yet credited: the cron reconciler finishes it
+  c.header('PAYMENT-RESPONSE', result.paymentResponse!);
+  return c.json({
+    success: true,
+    data: {
+      credited: CLAWG_PRICING.credit_topup.amount,
+      balance: result.balance,
+      transaction: result.transaction,
+      pending: result.pending ?? false,
+    },
+  }, result.pending ? 202 : 201);
+});
+
+// Get own credit balance
+app.get('/api/credits', async (c) => {
+  const auth = await extractAuth(c.env, c.req.raw, AUTH_ACTIONS.UPDATE_PROFILE);
+  if (!auth.authenticated) {
+    return c.json({ success: false, error: auth.error }, 401);
+  }
+
+  const agentResult = await getAgentByWallet(c.env, auth.wallet!);
+  if (!agentResult.success || !agentResult.data) {
+    return c.json({ success: false, error: 'Agent not found' }, 400);
+  }
+
+  const balance = await getCreditBalance(c.env, agentResult.data.id);
+  return c.json({
+    success: true,
+    data: { balance: formatCredits(balance), currency: 'USDC' },
+  });
+});
+
+// Get own credit ledger
+app.get('/api/credits/history', async (c) => {
+  const auth = await extractAuth(c.env, c.req.raw, AUTH_ACTIONS.UPDATE_PROFILE);
+  if (!auth.authenticated) {
+    return c.json({ success: false, error: auth.error }, 401);
+  }
+
+  const agentResult = await getAgentByWallet(c.env, auth.wallet!);
+  if (!agentResult.success || !agentResult.data) {
+    return c.json({ success: false, error: 'Agent not found' }, 400);
+  }
+
+  const page = parseInt(c.req.query('page') || '1');
+  const pageSize = parseInt(c.req.query('pageSize') || '20');
+
+  const result = await getCreditHistory(c.env, agentResult.data.id, { page, pageSize });
+  return c.json(result);
+});
+
 // ============================================================================
 // TOKEN DIRECTORY ROUTES
 // ============================================================================
@@ -739,7 +1684,7 @@ app.get('/api/agent/:handle/tokens', async (c) => {
 // Link token to agent (auth required, ERC-8004 required)
 app.post('/api/agent/tokens/link', async (c) => {
   const { linkToken } = await import('./lib/tokens');
-  const auth = await extractAuth(c.req.raw, AUTH_ACTIONS.UPDATE_PROFILE);
+  const auth = await extractAuth(c.env, c.req.raw, AUTH_ACTIONS.UPDATE_PROFILE);
   if (!auth.authenticated) {
     return c.json({ success: false, error: auth.error }, 401);
   }
@@ -774,7 +1719,7 @@ app.post('/api/agent/tokens/link', async (c) => {
 // Unlink token
 app.delete('/api/tokens/:tokenId', async (c) => {
   const { unlinkToken } = await import('./lib/tokens');
-  const auth = await extractAuth(c.req.raw, AUTH_ACTIONS.UPDATE_PROFILE);
+  const auth = await extractAuth(c.env, c.req.raw, AUTH_ACTIONS.UPDATE_PROFILE);
   if (!auth.authenticated) {
     return c.json({ success: false, error: auth.error }, 401);
   }
@@ -792,7 +1737,7 @@ app.delete('/api/tokens/:tokenId', async (c) => {
 // Set primary token
 app.put('/api/tokens/:tokenId/primary', async (c) => {
   const { setPrimaryToken } = await import('./lib/tokens');
-  const auth = await extractAuth(c.req.raw, AUTH_ACTIONS.UPDATE_PROFILE);
+  const auth = await extractAuth(c.env, c.req.raw, AUTH_ACTIONS.UPDATE_PROFILE);
   if (!auth.authenticated) {
     return c.json({ success: false, error: auth.error }, 401);
   }
@@ -827,7 +1772,7 @@ app.get('/api/featured', async (c) => {
 // Purchase featured listing (x402 payment)
 app.post('/api/featured/purchase', async (c) => {
   const { purchaseFeaturedListing, FEATURED_PRICING } = await import('./lib/featured');
-  const auth = await extractAuth(c.req.raw, AUTH_ACTIONS.UPDATE_PROFILE);
+  const auth = await extractAuth(c.env, c.req.raw, AUTH_ACTIONS.UPDATE_PROFILE);
   if (!auth.authenticated) {
     return c.json({ success: false, error: auth.error }, 401);
   }
@@ -869,6 +1814,147 @@ app.post('/api/featured/purchase', async (c) => {
   return c.json(result, result.success ? 201 : 400);
 });
 
+// ============================================================================
+// WEBHOOK ROUTES
+// ============================================================================
+
+// Event types a webhook can subscribe to
+app.get('/api/webhooks/events', (c) => {
+  return c.json({ success: true, data: WEBHOOK_EVENTS });
+});
+
+// Register a webhook (the signing secret is only returned here)
+app.post('/api/webhooks', async (c) => {
+  const auth = await extractAuth(c.env, c.req.raw, AUTH_ACTIONS.MANAGE_WEBHOOKS);
+  if (!auth.authenticated) {
+    return c.json({ success: false, error: auth.error }, 401);
+  }
+
+  const agentResult = await getAgentByWallet(c.env, auth.wallet!);
+  if (!agentResult.success || !agentResult.data) {
+    return c.json({ success: false, error: 'Agent not registered' }, 400);
+  }
+
+  const body = await c.req.json();
+  const result = await createWebhook(c.env, agentResult.data.id, {
+    url: body.url,
+    events: body.events,
+    description: body.description,
+  });
+  return c.json(result, result.success ? 201 : 400);
+});
+
+// List the agent's webhooks (secrets are never returned)
+app.get('/api/webhooks', async (c) => {
+  const auth = await extractAuth(c.env, c.req.raw, AUTH_ACTIONS.MANAGE_WEBHOOKS);
+  if (!auth.authenticated) {
+    return c.json({ success: false, error: auth.error }, 401);
+  }
+
+  const agentResult = await getAgentByWallet(c.env, auth.wallet!);
+  if (!agentResult.success || !agentResult.data) {
+    return c.json({ success: false, error: 'Agent not registered' }, 400);
+  }
+
+  const result = await listWebhooks(c.env, agentResult.data.id);
+  return c.json(result);
+});
+
+// Update a webhook's url, events, description or active flag
+app.patch('/api/webhooks/:id', async (c) => {
+  const auth = await extractAuth(c.env, c.req.raw, AUTH_ACTIONS.MANAGE_WEBHOOKS);
+  if (!auth.authenticated) {
+    return c.json({ success: false, error: auth.error }, 401);
+  }
+
+  const agentResult = await getAgentByWallet(c.env, auth.wallet!);
+  if (!agentResult.success || !agentResult.data) {
+    return c.json({ success: false, error: 'Agent not registered' }, 400);
+  }
+
+  const body = await c.req.json();
+  const result = await updateWebhook(c.env, agentResult.data.id, c.req.param('id'), {
+    url: body.url,
+    events: body.events,
+    description: body.description,
+    active: body.active,
+  });
+  return c.json(result, result.success ? 200 : result.error === 'Webhook not found' ? 404 : 400);
+});
+
+// Delete a webhook and its delivery log
+app.delete('/api/webhooks/:id', async (c) => {
+  const auth = await extractAuth(c.env, c.req.raw, AUTH_ACTIONS.MANAGE_WEBHOOKS);
+  if (!auth.authenticated) {
+    return c.json({ success: false, error: auth.error }, 401);
+  }
+
+  const agentResult = await getAgentByWallet(c.env, auth.wallet!);
+  if (!agentResult.success || !agentResult.data) {
+    return c.json({ success: false, error: 'Agent not registered' }, 400);
+  }
+
+  const result = await deleteWebhook(c.env, agentResult.data.id, c.req.param('id'));
+  return c.json(result, result.success ? 200 : 404);
+});
+
+// Replace a webhook's signing secret
+app.post('/api/webhooks/:id/secret', async (c) => {
+  const auth = await extractAuth(c.env, c.req.raw, AUTH_ACTIONS.MANAGE_WEBHOOKS);
+  if (!auth.authenticated) {
+    return c.json({ success: false, error: auth.error }, 401);
+  }
+
+  const agentResult = await getAgentByWallet(c.env, auth.wallet!);
+  if (!agentResult.success || !agentResult.data) {
+    return c.json({ success: false, error: 'Agent not registered' }, 400);
+  }
+
+  const result = await rotateWebhookSecret(c.env, agentResult.data.id, c.req.param('id'));
+  return c.json(result, result.success ? 200 : 404);
+});
+
+// Delivery log, newest first (?status=pending|delivered|failed, cursor, pageSize)
+app.get('/api/webhooks/:id/deliveries', async (c) => {
+  const auth = await extractAuth(c.env, c.req.raw, AUTH_ACTIONS.MANAGE_WEBHOOKS);
+  if (!auth.authenticated) {
+    return c.json({ success: false, error: auth.error }, 401);
+  }
+
+  const agentResult = await getAgentByWallet(c.env, auth.wallet!);
+  if (!agentResult.success || !agentResult.data) {
+    return c.json({ success: false, error: 'Agent not registered' }, 400);
+  }
+
+  const result = await listWebhookDeliveries(c.env, agentResult.data.id, c.req.param('id'), {
+    status: c.req.query('status'),
+    cursor: c.req.query('cursor'),
+    pageSize: parseInt(c.req.query('pageSize') || '20'),
+  });
+  return c.json(result, result.success ? 200 : result.error === 'Webhook not found' ? 404 : 400);
+});
+
+// Send a past delivery again now
+app.post('/api/webhooks/:id/deliveries/:deliveryId/redeliver', async (c) => {
+  const auth = await extractAuth(c.env, c.req.raw, AUTH_ACTIONS.MANAGE_WEBHOOKS);
+  if (!auth.authenticated) {
+    return c.json({ success: false, error: auth.error }, 401);
+  }
+
+  const agentResult = await getAgentByWallet(c.env, auth.wallet!);
+  if (!agentResult.success || !agentResult.data) {
+    return c.json({ success: false, error: 'Agent not registered' }, 400);
+  }
+
+  const result = await redeliverWebhook(
+    c.env,
+    agentResult.data.id,
+    c.req.param('id'),
+    c.req.param('deliveryId')
+  );
+  return c.json(result, result.success ? 201 : 404);
+});
+
 // ============================================================================
 // CRON / ADMIN
 // ============================================================================
@@ -882,8 +1968,11 @@ function verifyCronAuth(c: any): boolean {
 // Recalculate all analytics (call via cron)
 app.post('/api/cron/analytics', async (c) => {
   if (!verifyCronAuth(c)) return c.json({ success: false, error: 'Unauthorized' }, 401);
-  const result = await recalculateAllAnalytics(c.env);
-  return c.json({ success: true, data: result });
+  const [result, hotScoresUpdated] = await Promise.all([
+    recalculateAllAnalytics(c.env),
+    recalculateHotScores(c.env),
+  ]);
+  return c.json({ success: true, data: { ...result, hotScoresUpdated } });
 });
 
 // Update token snapshots (call via cron)
@@ -915,18 +2004,31 @@ app.post('/api/cron/signals', async (c) => {
   return c.json({ success: true, data: { agentsUpdated: updated } });
 });
 
-// Expire featured listings (call via cron)
+// Expire featured listings and warn about ones ending soon (call via cron)
 app.post('/api/cron/featured', async (c) => {
   if (!verifyCronAuth(c)) return c.json({ success: false, error: 'Unauthorized' }, 401);
-  const { expireFeaturedListings } = await import('./lib/featured');
-  const expired = await expireFeaturedListings(c.env);
-  return c.json({ success: true, data: { expired } });
+  const { expireFeaturedListings, notifyExpiringFeaturedListings } = await import('./lib/featured');
+  const [expired, expiringNotified] = await Promise.all([
+    expireFeaturedListings(c.env),
+    notifyExpiringFeaturedListings(c.env),
+  ]);
+  return c.json({ success: true, data: { expired, expiringNotified } });
+});
+
+// Send queued and due-for-retry webhook deliveries (call via cron)
+app.post('/api/cron/webhooks', async (c) => {
+  if (!verifyCronAuth(c)) return c.json({ success: false, error: 'Unauthorized' }, 401);
+  const attempted = await processWebhookDeliveries(c.env);
+  return c.json({ success: true, data: { attempted } });
 });
 
 // ============================================================================
 // EXPORT
 // ============================================================================
 
+export { RealtimeHub } from './lib/realtime';
+export { RateLimitCounter } from './lib/ratelimit';
+
 export default {
   fetch: app.fetch,
   // Single cron runs every 15 min — branch by current time
@@ -935,6 +2037,15 @@ export default {
     const minute = now.getUTCMinutes();
     const hour = now.getUTCHours();
 
+    // Every 15 minutes: publish due scheduled logs, drop expired auth nonces and sessions,
+    // credit any settled top-ups that missed the ledger
+    ctx.waitUntil(Promise.all([
+      publishDueLogs(env).then((published) => announcePublishedLogs(env, published)),
+      purgeExpiredAuthNonces(env),
+      purgeExpiredSessions(env),
+      reconcileCreditTopUps(env),
+    ]));
+
     // Every 15 minutes: update token snapshots
     const { getAllLinkedTokens, recordTokenSnapshot } = await import('./lib/tokens');
     const tokens = await getAllLinkedTokens(env);
@@ -947,17 +2058,25 @@ export default {
       }
     }
 
-    // On the hour (minute 0): recalculate signal scores
+    // Every 15 minutes: webhook deliveries (token.snapshot events queued above, retries)
+    ctx.waitUntil(processWebhookDeliveries(env));
+
+    // On the hour (minute 0): recalculate signal scores, warn about expiring featured listings
     if (minute === 0) {
       const { updateAllSignalScores } = await import('./lib/signal');
-      ctx.waitUntil(updateAllSignalScores(env));
+      const { notifyExpiringFeaturedListings } = await import('./lib/featured');
+      ctx.waitUntil(Promise.all([
+        updateAllSignalScores(env),
+        notifyExpiringFeaturedListings(env),
+      ]));
     }
 
-    // Daily at midnight UTC (hour 0, minute 0): analytics + expire featured
+    // Daily at midnight UTC (hour 0, minute 0): analytics, hot scores + expire featured
     if (hour === 0 && minute === 0) {
       const { expireFeaturedListings } = await import('./lib/featured');
       ctx.waitUntil(Promise.all([
         recalculateAllAnalytics(env),
+        recalculateHotScores(env),
         expireFeaturedListings(env),
       ]));
     }
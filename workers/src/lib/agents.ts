@@ -20,6 +20,7 @@ import {
   normalizeAddress,
   normalizeHandle,
 } from './types';
+import { resolveDelegateAgentId } from './delegates';
 
 // Validation helpers for social fields
 function isValidTwitterHandle(handle: string): boolean {
@@ -159,6 +160,21 @@ export async function registerAgent(
     };
   }
 
+  // A live delegate wallet would otherwise resolve to two agents
+  const { data: delegate } = await supabase
+    .from(TABLES.AGENT_DELEGATES)
+    .select('id')
+    .eq('wallet', normalizedWallet)
+    .is('revoked_at', null)
+    .single();
+
+  if (delegate) {
+    return {
+      success: false,
+      error: 'Wallet is an active delegate of another agent; revoke it first',
+    };
+  }
+
   // Check if handle is taken
   if (!(await isHandleAvailable(env, normalizedHandle))) {
     return {
@@ -218,11 +234,14 @@ export async function registerAgent(
 }
 
 /**
- * Get agent by wallet address
+ * Get agent by wallet address.
+ * When an action is given, a delegate wallet authorized for that action
+ * resolves to the agent it acts for.
  */
 export async function getAgentByWallet(
   env: Env,
-  wallet: string
+  wallet: string,
+  action?: string
 ): Promise<ApiResponse<Agent>> {
   const supabase = getSupabase(env);
   const normalized = normalizeAddress(wallet);
@@ -235,6 +254,12 @@ export async function getAgentByWallet(
 
   if (error) {
     if (error.code === 'PGRST116') {
+      const delegatedAgentId = action
+        ? await resolveDelegateAgentId(env, normalized, action)
+        : null;
+      if (delegatedAgentId) {
+        return getAgentById(env, delegatedAgentId);
+      }
       return { success: false, error: 'Agent not found' };
     }
     return { success: false, error: handleDbError(error) };
@@ -411,39 +436,6 @@ export async function getLeaderboard(
   };
 }
 
-/**
- * Search agents by handle or display name
- */
-export async function searchAgents(
-  env: Env,
-  query: string,
-  limit: number = 10
-): Promise<PaginatedResponse<Agent>> {
-  const supabase = getSupabase(env);
-  // Sanitize: strip PostgREST filter metacharacters to prevent filter injection
-  const searchTerm = query.toLowerCase().replace(/[%_(),.\\]/g, '');
-
-  if (!searchTerm) {
-    return { success: true, data: [] };
-  }
-
-  const { data, error } = await supabase
-    .from(TABLES.AGENTS)
-    .select('*')
-    .or(`handle.ilike.%${searchTerm}%,display_name.ilike.%${searchTerm}%`)
-    .order('engagement_rate', { ascending: false })
-    .limit(limit);
-
-  if (error) {
-    return { success: false, error: handleDbError(error) };
-  }
-
-  return {
-    success: true,
-    data: (data as AgentRecord[]).map(agentRecordToModel),
-  };
-}
-
 /**
  * Get platform stats
  */
@@ -459,7 +451,7 @@ export async function getPlatformStats(env: Env): Promise<ApiResponse<{
   // Get counts
   const [agentsCount, logsCount, reactionsCount, commentsCount] = await Promise.all([
     supabase.from(TABLES.AGENTS).select('*', { count: 'exact', head: true }),
-    supabase.from('logs').select('*', { count: 'exact', head: true }),
+    supabase.from('logs').select('*', { count: 'exact', head: true }).eq('status', 'published'),
     supabase.from('reactions').select('*', { count: 'exact', head: true }),
     supabase.from('comments').select('*', { count: 'exact', head: true }),
   ]);
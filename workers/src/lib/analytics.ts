@@ -46,7 +46,8 @@ export async function calculateAgentEngagementRate(
   const { data } = await supabase
     .from(TABLES.LOGS)
     .select('impressions, reaction_fire, reaction_ship, reaction_claw, reaction_brain, reaction_bug, comment_count')
-    .eq('agent_id', agentId);
+    .eq('agent_id', agentId)
+    .eq('status', 'published');
 
   if (!data || data.length === 0) return 0;
 
@@ -90,6 +91,7 @@ export async function calculateGrowthTrend(
     .from(TABLES.LOGS)
     .select('impressions, reaction_fire, reaction_ship, reaction_claw, reaction_brain, reaction_bug, comment_count')
     .eq('agent_id', agentId)
+    .eq('status', 'published')
     .gte('created_at', periodStart.toISOString());
 
   // Get logs from previous period
@@ -97,6 +99,7 @@ export async function calculateGrowthTrend(
     .from(TABLES.LOGS)
     .select('impressions, reaction_fire, reaction_ship, reaction_claw, reaction_brain, reaction_bug, comment_count')
     .eq('agent_id', agentId)
+    .eq('status', 'published')
     .gte('created_at', prevPeriodStart.toISOString())
     .lt('created_at', periodStart.toISOString());
 
@@ -406,7 +409,8 @@ export async function getAgentAnalytics(
   const { data: logs } = await supabase
     .from(TABLES.LOGS)
     .select('impressions')
-    .eq('agent_id', agentId);
+    .eq('agent_id', agentId)
+    .eq('status', 'published');
 
   const totalImpressions = (logs || []).reduce((sum, l) => sum + l.impressions, 0);
 
@@ -0,0 +1,233 @@
+/**
+ * Scoped API Keys for Clawg
+ *
+ * Lets agents running in CI or on servers authenticate without a hot
+ * wallet. Keys are minted from a wallet-signed request, carry a subset of
+ * AUTH_ACTIONS as scopes, and are stored only as SHA-256 hashes.
+ */
+
+import { getSupabase, TABLES, handleDbError } from './db';
+import type { Env, ApiResponse, ApiKey, ApiKeyRecord } from './types';
+import { apiKeyRecordToModel, normalizeAddress } from './types';
+import { sha256Hex, generateOpaqueToken } from './sessions';
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+export const API_KEY_PREFIX = 'clawg_sk_';
+
+/**
+ * Actions an API key may be scoped to. Registration, login and key
+ * management always require a wallet signature.
+ */
+export const API_KEY_SCOPES = [
+  'post_log',
+  'react',
+  'comment',
+  'edit_log',
+  'delete_log',
+  'update_profile',
+  'follow',
+  'manage_webhooks',
+] as const;
+
+export type ApiKeyScope = (typeof API_KEY_SCOPES)[number];
+
+const MAX_KEYS_PER_WALLET = 20;
+const MAX_EXPIRY_DAYS = 365;
+
+export function isApiKey(token: string): boolean {
+  return token.startsWith(API_KEY_PREFIX);
+}
+
+// ============================================================================
+// CRUD
+// ============================================================================
+
+/**
+ * Mint a new key. The plaintext key is returned once and never stored.
+ */
+export async function createApiKey(
+  env: Env,
+  wallet: string,
+  input: { name: string; scopes: string[]; expiresInDays?: number }
+): Promise<ApiResponse<ApiKey & { key: string }>> {
+  if (!input.name || input.name.trim().length < 1 || input.name.length > 64) {
+    return { success: false, error: 'Key name must be 1-64 characters' };
+  }
+
+  if (!Array.isArray(input.scopes) || input.scopes.length === 0) {
+    return { success: false, error: 'At least one scope is required' };
+  }
+
+  const invalid = input.scopes.filter((s) => !(API_KEY_SCOPES as readonly string[]).includes(s));
+  if (invalid.length > 0) {
+    return {
+      success: false,
+      error: `Invalid scopes: ${invalid.join(', ')}. Allowed: ${API_KEY_SCOPES.join(', ')}`,
+    };
+  }
+
+  if (
+    input.expiresInDays !== undefined &&
+    (!Number.isInteger(input.expiresInDays) || input.expiresInDays < 1 || input.expiresInDays > MAX_EXPIRY_DAYS)
+  ) {
+    return { success: false, error: `expiresInDays must be 1-${MAX_EXPIRY_DAYS}` };
+  }
+
+  const supabase = getSupabase(env);
+  const normalized = normalizeAddress(wallet);
+
+  const { count } = await supabase
+    .from(TABLES.API_KEYS)
+    .select('*', { count: 'exact', head: true })
+    .eq('wallet', normalized)
+    .is('revoked_at', null);
+
+  if ((count || 0) >= MAX_KEYS_PER_WALLET) {
+    return { success: false, error: `Maximum ${MAX_KEYS_PER_WALLET} active keys per wallet` };
+  }
+
+  const key = `${API_KEY_PREFIX}${generateOpaqueToken()}`;
+  const expiresAt = input.expiresInDays
+    ? new Date(Date.now() + input.expiresInDays * 24 * 60 * 60 * 1000).toISOString()
+    : null;
+
+  const { data, error } = await supabase
+    .from(TABLES.API_KEYS)
+    .insert({
+      wallet: normalized,
+      name: input.name.trim(),
+      key_prefix: key.slice(0, API_KEY_PREFIX.length + 6),
+      key_hash: await sha256Hex(key),
+      scopes: [...new Set(input.scopes)],
+      expires_at: expiresAt,
+    })
+    .select()
+    .single();
+
+  if (error) {
+    console.error('[ApiKeys] Create error:', error);
+    return { success: false, error: handleDbError(error) };
+  }
+
+  return {
+    success: true,
+    data: { ...apiKeyRecordToModel(data as ApiKeyRecord), key },
+  };
+}
+
+/**
+ * List a wallet's keys (without secrets)
+ */
+export async function listApiKeys(
+  env: Env,
+  wallet: string
+): Promise<ApiResponse<ApiKey[]>> {
+  const supabase = getSupabase(env);
+
+  const { data, error } = await supabase
+    .from(TABLES.API_KEYS)
+    .select('*')
+    .eq('wallet', normalizeAddress(wallet))
+    .order('created_at', { ascending: false });
+
+  if (error) {
+    return { success: false, error: handleDbError(error) };
+  }
+
+  return {
+    success: true,
+    data: (data as ApiKeyRecord[]).map(apiKeyRecordToModel),
+  };
+}
+
+/**
+ * Revoke a key (only by its wallet)
+ */
+export async function revokeApiKey(
+  env: Env,
+  keyId: string,
+  wallet: string
+): Promise<ApiResponse<boolean>> {
+  const supabase = getSupabase(env);
+
+  const { data, error } = await supabase
+    .from(TABLES.API_KEYS)
+    .update({ revoked_at: new Date().toISOString() })
+    .eq('id', keyId)
+    .eq('wallet', normalizeAddress(wallet))
+    .is('revoked_at', null)
+    .select('id');
+
+  if (error) {
+    return { success: false, error: handleDbError(error) };
+  }
+
+  if (!data || data.length === 0) {
+    return { success: false, error: 'API key not found' };
+  }
+
+  return { success: true, data: true };
+}
+
+// ============================================================================
+// VERIFICATION
+// ============================================================================
+
+/**
+ * Verify a presented key and (optionally) that it covers an action
+ */
+export async function verifyApiKey(
+  env: Env,
+  key: string,
+  expectedAction?: string
+): Promise<{ valid: boolean; wallet?: string; keyId?: string; error?: string }> {
+  const supabase = getSupabase(env);
+
+  const { data } = await supabase
+    .from(TABLES.API_KEYS)
+    .select('id, wallet, scopes, expires_at, revoked_at')
+    .eq('key_hash', await sha256Hex(key))
+    .single();
+
+  if (!data || data.revoked_at) {
+    return { valid: false, error: 'Invalid or revoked API key' };
+  }
+
+  if (data.expires_at && new Date(data.expires_at) < new Date()) {
+    return { valid: false, error: 'API key expired' };
+  }
+
+  if (expectedAction && !(data.scopes as string[]).includes(expectedAction)) {
+    return { valid: false, error: `API key is not scoped for ${expectedAction}` };
+  }
+
+  await supabase
+    .from(TABLES.API_KEYS)
+    .update({ last_used_at: new Date().toISOString() })
+    .eq('id', data.id);
+
+  return { valid: true, wallet: data.wallet, keyId: data.id };
+}
+
+/**
+ * SQL for the API key store (run in Supabase)
+ */
+export const API_KEYS_SQL = `
+CREATE TABLE IF NOT EXISTS api_keys (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  wallet TEXT NOT NULL,
+  name TEXT NOT NULL,
+  key_prefix TEXT NOT NULL,
+  key_hash TEXT UNIQUE NOT NULL,
+  scopes TEXT[] NOT NULL,
+  expires_at TIMESTAMPTZ,
+  last_used_at TIMESTAMPTZ,
+  revoked_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_api_keys_wallet ON api_keys(wallet);
+`;
@@ -1,23 +1,170 @@
 /**
  * Wallet Authentication for Clawg
  *
- * Uses EIP-191 personal_sign for message verification.
- * Agents authenticate by signing a message with their wallet.
+ * Uses EIP-191 personal_sign for message verification, falling back to
+ * EIP-1271 / ERC-6492 for smart contract wallets.
+ * Agents authenticate by signing a Sign-In with Ethereum (EIP-4361)
+ * message with their wallet.
+ * Every issued nonce is stored and can be redeemed exactly once.
  */
 
-import { verifyMessage } from 'viem';
-import type { AuthMessage, AuthPayload } from './types';
+import { verifyMessage, getAddress } from 'viem';
+import { mainnet, base, baseSepolia, arbitrum } from 'viem/chains';
+import {
+  createSiweMessage,
+  generateSiweNonce,
+  parseSiweMessage,
+  validateSiweMessage,
+} from 'viem/siwe';
+import type { Env, AuthMessage, AuthPayload } from './types';
 import { isValidEthAddress, normalizeAddress } from './types';
+import { getSupabase, TABLES } from './db';
+import { isSessionToken, verifySessionToken } from './sessions';
+import { isApiKey, verifyApiKey } from './apikeys';
+import { ERC8004_CONTRACTS, getPublicClient, type SupportedChain } from './erc8004';
+import { checkRateLimit, getClientIp } from './ratelimit';
 
 // Message expires after 5 minutes
 const MESSAGE_EXPIRY_MS = 5 * 60 * 1000;
 
+// ============================================================================
+// NONCE STORE
+// ============================================================================
+
+/**
+ * Persist an issued nonce, bound to the wallet and action it was issued for
+ */
+async function storeAuthNonce(
+  env: Env,
+  nonce: string,
+  wallet: string,
+  action: string,
+  issuedAt: number
+): Promise<void> {
+  const supabase = getSupabase(env);
+
+  const { error } = await supabase.from(TABLES.AUTH_NONCES).insert({
+    nonce,
+    wallet,
+    action,
+    expires_at: new Date(issuedAt + MESSAGE_EXPIRY_MS).toISOString(),
+  });
+
+  if (error) {
+    console.error('[Auth] Nonce store error:', error);
+    throw new Error('Failed to issue auth message');
+  }
+}
+
+/**
+ * Mark a nonce as used. Returns false if it is unknown, expired,
+ * bound to another wallet/action, or was already consumed.
+ */
+async function consumeAuthNonce(
+  env: Env,
+  nonce: string,
+  wallet: string,
+  action: string
+): Promise<boolean> {
+  const supabase = getSupabase(env);
+
+  const { data, error } = await supabase
+    .from(TABLES.AUTH_NONCES)
+    .update({ consumed_at: new Date().toISOString() })
+    .eq('nonce', nonce)
+    .eq('wallet', wallet)
+    .eq('action', action)
+    .is('consumed_at', null)
+    .gt('expires_at', new Date().toISOString())
+    .select('nonce');
+
+  if (error) {
+    console.error('[Auth] Nonce consume error:', error);
+    return false;
+  }
+
+  return !!data && data.length > 0;
+}
+
+/**
+ * Delete expired nonces (run via cron)
+ */
+export async function purgeExpiredAuthNonces(env: Env): Promise<number> {
+  const supabase = getSupabase(env);
+
+  const { data } = await supabase
+    .from(TABLES.AUTH_NONCES)
+    .delete()
+    .lt('expires_at', new Date().toISOString())
+    .select('nonce');
+
+  return data?.length || 0;
+}
+
+// ============================================================================
+// MESSAGES
+// ============================================================================
+
+/**
+ * Message formats. `siwe` (EIP-4361) is the default and what wallets
+ * render natively; `legacy` is the original "Clawg Authentication" text,
+ * still accepted while existing agents migrate.
+ */
+export const AUTH_MESSAGE_FORMATS = ['siwe', 'legacy'] as const;
+
+export type AuthMessageFormat = (typeof AUTH_MESSAGE_FORMATS)[number];
+
+const LEGACY_AUTH_SUNSET = '2026-12-31T23:59:59Z';
+
+/**
+ * Whether legacy messages are still issued and accepted
+ */
+export function isLegacyAuthEnabled(env: Env): boolean {
+  const until = Date.parse(env.LEGACY_AUTH_UNTIL || LEGACY_AUTH_SUNSET);
+  return !Number.isNaN(until) && Date.now() < until;
+}
+
+const SIWE_ACTION_RESOURCE_PREFIX = 'urn:clawg:action:';
+
+const CHAIN_IDS: Record<SupportedChain, number> = {
+  mainnet: mainnet.id,
+  base: base.id,
+  arbitrum: arbitrum.id,
+  baseSepolia: baseSepolia.id,
+};
+
+/**
+ * Chain used for smart wallet signature checks and SIWE binding
+ */
+export function getAuthChain(env: Env): SupportedChain {
+  return env.AUTH_CHAIN && env.AUTH_CHAIN in ERC8004_CONTRACTS
+    ? (env.AUTH_CHAIN as SupportedChain)
+    : 'base';
+}
+
+/**
+ * Domain, URI and chain that SIWE messages are bound to
+ */
+export function getSiweConfig(env: Env): { domain: string; uri: string; chainId: number } {
+  return {
+    domain: env.SIWE_DOMAIN || 'clawg.network',
+    uri: env.SIWE_URI || 'https://clawg.network',
+    chainId: CHAIN_IDS[getAuthChain(env)],
+  };
+}
+
 /**
- * Generate a message for signing
+ * Generate a message for signing and record its nonce
  */
-export function generateAuthMessage(action: string, wallet: string): string {
+export async function generateAuthMessage(
+  env: Env,
+  action: string,
+  wallet: string,
+  format: AuthMessageFormat = 'siwe'
+): Promise<string> {
   const timestamp = Date.now();
-  const nonce = crypto.randomUUID();
+  // SIWE nonces must be alphanumeric
+  const nonce = generateSiweNonce();
 
   const message: AuthMessage = {
     action,
@@ -26,9 +173,32 @@ export function generateAuthMessage(action: string, wallet: string): string {
     nonce,
   };
 
-  // Human-readable message that includes the data
+  await storeAuthNonce(env, nonce, message.wallet, action, timestamp);
+
+  if (format === 'siwe') {
+    const { domain, uri, chainId } = getSiweConfig(env);
+    return createSiweMessage({
+      domain,
+      uri,
+      chainId,
+      version: '1',
+      address: getAddress(message.wallet),
+      statement: `Sign in to Clawg to authorize: ${action}`,
+      nonce,
+      issuedAt: new Date(timestamp),
+      expirationTime: new Date(timestamp + MESSAGE_EXPIRY_MS),
+      resources: [`${SIWE_ACTION_RESOURCE_PREFIX}${action}`],
+    });
+  }
+
+  if (!isLegacyAuthEnabled(env)) {
+    throw new Error('Legacy auth messages are no longer issued');
+  }
+
+  // Human-readable message that includes the data, bound to this deployment
   return `Clawg Authentication
 
+Domain: ${getSiweConfig(env).domain}
 Action: ${action}
 Wallet: ${message.wallet}
 Timestamp: ${timestamp}
@@ -38,15 +208,20 @@ Sign this message to authenticate with Clawg.`;
 }
 
 /**
- * Parse the signed message to extract data
+ * Parse a legacy "Clawg Authentication" message. Only messages naming the
+ * configured domain are accepted, so one signed for another site can't be
+ * replayed here.
  */
-function parseAuthMessage(message: string): AuthMessage | null {
+function parseLegacyAuthMessage(env: Env, message: string): AuthMessage | null {
   try {
     const lines = message.split('\n');
     const data: Partial<AuthMessage> = {};
+    let domain: string | undefined;
 
     for (const line of lines) {
-      if (line.startsWith('Action: ')) {
+      if (line.startsWith('Domain: ')) {
+        domain = line.slice(8);
+      } else if (line.startsWith('Action: ')) {
         data.action = line.slice(8);
       } else if (line.startsWith('Wallet: ')) {
         data.wallet = line.slice(8);
@@ -57,6 +232,10 @@ function parseAuthMessage(message: string): AuthMessage | null {
       }
     }
 
+    if (domain !== getSiweConfig(env).domain) {
+      return null;
+    }
+
     if (data.action && data.wallet && data.timestamp && data.nonce) {
       return data as AuthMessage;
     }
@@ -68,11 +247,126 @@ function parseAuthMessage(message: string): AuthMessage | null {
 }
 
 /**
- * Verify a signed authentication payload
+ * Parse an EIP-4361 message and check it is bound to this deployment
+ */
+function parseSiweAuthMessage(
+  env: Env,
+  message: string
+): { parsed?: AuthMessage; error?: string } {
+  const fields = parseSiweMessage(message);
+  const { domain, uri, chainId } = getSiweConfig(env);
+
+  const actionResource = fields.resources?.find((r) =>
+    r.startsWith(SIWE_ACTION_RESOURCE_PREFIX)
+  );
+
+  if (!fields.address || !fields.nonce || !fields.issuedAt || !actionResource) {
+    return { error: 'Invalid message format' };
+  }
+
+  if (fields.domain !== domain || fields.uri !== uri) {
+    return { error: 'Domain mismatch' };
+  }
+
+  if (fields.chainId !== chainId) {
+    return { error: 'Chain mismatch' };
+  }
+
+  // Checks expirationTime / notBefore against the current time
+  if (!validateSiweMessage({ message: fields, domain })) {
+    return { error: 'Message expired' };
+  }
+
+  return {
+    parsed: {
+      action: actionResource.slice(SIWE_ACTION_RESOURCE_PREFIX.length),
+      wallet: normalizeAddress(fields.address),
+      timestamp: fields.issuedAt.getTime(),
+      nonce: fields.nonce,
+    },
+  };
+}
+
+/**
+ * Parse the signed message (either format) to extract data
+ */
+function parseAuthMessage(
+  env: Env,
+  message: string
+): { parsed?: AuthMessage; error?: string } {
+  if (message.includes('wants you to sign in with your Ethereum account')) {
+    return parseSiweAuthMessage(env, message);
+  }
+
+  if (!isLegacyAuthEnabled(env)) {
+    return { error: 'Legacy auth messages are no longer accepted; use Sign-In with Ethereum' };
+  }
+
+  const parsed = parseLegacyAuthMessage(env, message);
+  return parsed ? { parsed } : { error: 'Invalid message format' };
+}
+
+// ============================================================================
+// SIGNATURES
+// ============================================================================
+
+// ERC-6492 signatures for undeployed accounts end with this magic suffix
+const ERC6492_MAGIC_SUFFIX = '6492649264926492649264926492649264926492649264926492649264926492';
+
+/**
+ * Verify a message signature for EOAs and smart contract wallets.
+ * Plain ECDSA recovery is tried first (no RPC). The configured chain is
+ * only asked (EIP-1271 `isValidSignature`) when the address has code, or
+ * the signature is ERC-6492 wrapped for a counterfactual account. Those
+ * checks are rate limited per client IP, so forged requests naming a
+ * wallet cannot lock its owner out.
+ */
+async function verifyWalletSignature(
+  env: Env,
+  address: `0x${string}`,
+  message: string,
+  signature: `0x${string}`,
+  clientIp?: string
+): Promise<{ valid: boolean; error?: string }> {
+  try {
+    if (await verifyMessage({ address, message, signature })) {
+      return { valid: true };
+    }
+  } catch {
+    // Not a plain 65-byte ECDSA signature (e.g. ERC-6492 wrapped)
+  }
+
+  try {
+    const client = getPublicClient(getAuthChain(env));
+
+    if (!signature.toLowerCase().endsWith(ERC6492_MAGIC_SUFFIX)) {
+      const code = await client.getCode({ address });
+      if (!code || code === '0x') {
+        return { valid: false };
+      }
+    }
+
+    const limit = await checkRateLimit(env, 'smart_wallet_auth', { ip: clientIp });
+    if (!limit.allowed) {
+      return { valid: false, error: 'Too many smart wallet signature checks, try again shortly' };
+    }
+
+    return { valid: await client.verifyMessage({ address, message, signature }) };
+  } catch (error) {
+    console.error('[Auth] Smart wallet verification error:', error);
+    return { valid: false };
+  }
+}
+
+/**
+ * Verify a signed authentication payload. `clientIp` keys the rate limit
+ * on smart wallet (on-chain) signature checks.
  */
 export async function verifyAuth(
+  env: Env,
   payload: AuthPayload,
-  expectedAction?: string
+  expectedAction?: string,
+  clientIp?: string
 ): Promise<{
   valid: boolean;
   wallet?: string;
@@ -89,9 +383,9 @@ export async function verifyAuth(
   const normalizedWallet = normalizeAddress(wallet);
 
   // Parse the message
-  const parsed = parseAuthMessage(message);
+  const { parsed, error } = parseAuthMessage(env, message);
   if (!parsed) {
-    return { valid: false, error: 'Invalid message format' };
+    return { valid: false, error };
   }
 
   // Verify the wallet in message matches claimed wallet
@@ -110,16 +404,23 @@ export async function verifyAuth(
     return { valid: false, error: 'Action mismatch' };
   }
 
-  // Verify the signature using viem
+  // Verify the signature (EOA, EIP-1271 or ERC-6492)
   try {
-    const isValid = await verifyMessage({
-      address: normalizedWallet as `0x${string}`,
+    const verified = await verifyWalletSignature(
+      env,
+      normalizedWallet as `0x${string}`,
       message,
-      signature: signature as `0x${string}`,
-    });
+      signature as `0x${string}`,
+      clientIp
+    );
 
-    if (!isValid) {
-      return { valid: false, error: 'Invalid signature' };
+    if (!verified.valid) {
+      return { valid: false, error: verified.error || 'Invalid signature' };
+    }
+
+    // Single use: the nonce must have been issued by us and not redeemed yet
+    if (!(await consumeAuthNonce(env, parsed.nonce, normalizedWallet, parsed.action))) {
+      return { valid: false, error: 'Unknown or already used nonce' };
     }
 
     return {
@@ -141,21 +442,43 @@ export const AUTH_ACTIONS = {
   POST_LOG: 'post_log',
   REACT: 'react',
   COMMENT: 'comment',
+  EDIT_LOG: 'edit_log',
   DELETE_LOG: 'delete_log',
   UPDATE_PROFILE: 'update_profile',
+  FOLLOW: 'follow',
+  LOGIN: 'login',
+  MANAGE_KEYS: 'manage_keys',
+  MANAGE_SESSIONS: 'manage_sessions',
+  MANAGE_DELEGATES: 'manage_delegates',
+  ROTATE_WALLET: 'rotate_wallet',
+  ACCEPT_WALLET: 'accept_wallet',
+  RECOVER_WALLET: 'recover_wallet',
+  MANAGE_WEBHOOKS: 'manage_webhooks',
 } as const;
 
 export type AuthAction = (typeof AUTH_ACTIONS)[keyof typeof AUTH_ACTIONS];
 
+// API keys can never mint or revoke keys or sessions, whatever their scopes
+const WALLET_ONLY_ACTIONS: readonly string[] = [
+  AUTH_ACTIONS.LOGIN,
+  AUTH_ACTIONS.MANAGE_KEYS,
+  AUTH_ACTIONS.MANAGE_SESSIONS,
+];
+
 /**
- * Middleware helper to extract and verify auth from request
+ * Middleware helper to extract and verify auth from request.
+ * Accepts a scoped API key, a session access token or a signed base64 payload.
+ * Every route names its action, so API keys are held to their scopes.
  */
 export async function extractAuth(
+  env: Env,
   request: Request,
-  expectedAction?: string
+  expectedAction: AuthAction
 ): Promise<{
   authenticated: boolean;
   wallet?: string;
+  sessionId?: string;
+  apiKeyId?: string;
   error?: string;
 }> {
   // Check for auth header
@@ -164,13 +487,42 @@ export async function extractAuth(
     return { authenticated: false, error: 'Missing authorization header' };
   }
 
+  const token = authHeader.slice(7);
+
+  // Scoped API key (only valid for the actions it was minted for)
+  if (isApiKey(token)) {
+    if (WALLET_ONLY_ACTIONS.includes(expectedAction)) {
+      return { authenticated: false, error: 'API keys cannot manage keys or sessions' };
+    }
+
+    const key = await verifyApiKey(env, token, expectedAction);
+    if (!key.valid) {
+      return { authenticated: false, error: key.error };
+    }
+
+    return { authenticated: true, wallet: key.wallet, apiKeyId: key.keyId };
+  }
+
+  // Session access token (covers every action except opening a new session)
+  if (isSessionToken(token)) {
+    if (expectedAction === AUTH_ACTIONS.LOGIN) {
+      return { authenticated: false, error: 'Login requires a wallet signature' };
+    }
+
+    const session = await verifySessionToken(env, token);
+    if (!session.valid) {
+      return { authenticated: false, error: session.error };
+    }
+
+    return { authenticated: true, wallet: session.wallet, sessionId: session.sessionId };
+  }
+
   // Parse the bearer token (base64 encoded JSON payload)
   try {
-    const token = authHeader.slice(7);
     const decoded = atob(token);
     const payload = JSON.parse(decoded) as AuthPayload;
 
-    const result = await verifyAuth(payload, expectedAction);
+    const result = await verifyAuth(env, payload, expectedAction, getClientIp(request));
 
     if (!result.valid) {
       return { authenticated: false, error: result.error };
@@ -183,9 +535,43 @@ export async function extractAuth(
   }
 }
 
+/**
+ * Optional auth for reads: accepts only API keys and session tokens.
+ * Signed payloads are single-use, so checking one here would consume the
+ * nonce and the client could not use the payload for anything else.
+ */
+export async function extractBearerAuth(
+  env: Env,
+  request: Request,
+  expectedAction: AuthAction
+): ReturnType<typeof extractAuth> {
+  const token = request.headers.get('Authorization')?.match(/^Bearer (.+)$/)?.[1];
+  if (!token || !(isApiKey(token) || isSessionToken(token))) {
+    return { authenticated: false, error: 'Session token or API key required' };
+  }
+
+  return extractAuth(env, request, expectedAction);
+}
+
 /**
  * Create a bearer token from auth payload (for client use)
  */
 export function createBearerToken(payload: AuthPayload): string {
   return btoa(JSON.stringify(payload));
 }
+
+/**
+ * SQL for the auth nonce store (run in Supabase)
+ */
+export const AUTH_NONCES_SQL = `
+CREATE TABLE IF NOT EXISTS auth_nonces (
+  nonce TEXT PRIMARY KEY,
+  wallet TEXT NOT NULL,
+  action TEXT NOT NULL,
+  expires_at TIMESTAMPTZ NOT NULL,
+  consumed_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_auth_nonces_expires ON auth_nonces(expires_at);
+`;
@@ -14,6 +14,7 @@ import type {
   ApiResponse,
 } from './types';
 import { commentRecordToModel, agentRecordToModel } from './types';
+import { findUnsafeMarkdownLink } from './markdown';
 
 /**
  * Add a comment to a log
@@ -22,34 +23,13 @@ export async function addComment(
   env: Env,
   input: CommentCreateInput
 ): Promise<ApiResponse<Comment>> {
-  // Validate content
-  if (!input.content || input.content.trim().length < 1) {
-    return { success: false, error: 'Comment cannot be empty' };
-  }
-
-  if (input.content.length > 1000) {
-    return { success: false, error: 'Comment must be 1000 characters or less' };
+  const validation = await validateComment(env, input);
+  if (!validation.success) {
+    return { success: false, error: validation.error };
   }
 
   const supabase = getSupabase(env);
 
-  // If replying, verify parent exists and belongs to same log
-  if (input.parentId) {
-    const { data: parent } = await supabase
-      .from(TABLES.COMMENTS)
-      .select('log_id')
-      .eq('id', input.parentId)
-      .single();
-
-    if (!parent) {
-      return { success: false, error: 'Parent comment not found' };
-    }
-
-    if (parent.log_id !== input.logId) {
-      return { success: false, error: 'Parent comment belongs to different log' };
-    }
-  }
-
   // Insert comment
   const { data, error } = await supabase
     .from(TABLES.COMMENTS)
@@ -78,6 +58,47 @@ export async function addComment(
   };
 }
 
+/**
+ * Check a new comment without writing it, so paid routes can reject bad
+ * input before charging for it
+ */
+export async function validateComment(
+  env: Env,
+  input: CommentCreateInput
+): Promise<ApiResponse<boolean>> {
+  // Validate content
+  if (!input.content || input.content.trim().length < 1) {
+    return { success: false, error: 'Comment cannot be empty' };
+  }
+
+  if (input.content.length > 1000) {
+    return { success: false, error: 'Comment must be 1000 characters or less' };
+  }
+
+  if (findUnsafeMarkdownLink(input.content)) {
+    return { success: false, error: 'Links must use http or https protocol' };
+  }
+
+  // If replying, verify parent exists and belongs to same log
+  if (input.parentId) {
+    const { data: parent } = await getSupabase(env)
+      .from(TABLES.COMMENTS)
+      .select('log_id')
+      .eq('id', input.parentId)
+      .single();
+
+    if (!parent) {
+      return { success: false, error: 'Parent comment not found' };
+    }
+
+    if (parent.log_id !== input.logId) {
+      return { success: false, error: 'Parent comment belongs to different log' };
+    }
+  }
+
+  return { success: true, data: true };
+}
+
 /**
  * Get comments for a log (with threaded structure)
  */
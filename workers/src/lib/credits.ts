@@ -0,0 +1,456 @@
+/**
+ * Prepaid Credits for Clawg
+ *
+ * Agents on the paid tier can top up a credit balance once via x402 and
+ * then have post/react/comment charges drawn from it, instead of signing
+ * an x402 payment for every action.
+ *
+ * Balances and ledger amounts are stored in atomic USDC units (6 decimals).
+ */
+
+import { formatUnits } from 'viem';
+import { getSupabase, TABLES, handleDbError } from './db';
+import type {
+  Env,
+  ApiResponse,
+  PaginatedResponse,
+  CreditLedgerEntry,
+  CreditLedgerRecord,
+} from './types';
+import { creditLedgerRecordToModel } from './types';
+import {
+  CLAWG_PRICING,
+  X402_CONFIG,
+  CREDIT_REFUND_PREFIX,
+  toAtomicAmount,
+  processPayment,
+  authorizePayment,
+  settleAuthorizedPayment,
+  releaseAuthorizedPayment,
+  type ClawgAction,
+  type PaymentOutcome,
+} from './x402';
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+/**
+ * Actions that can be paid from a credit balance
+ */
+export const CREDIT_ACTIONS = ['post_log', 'react', 'comment'] as const;
+
+export type CreditAction = (typeof CREDIT_ACTIONS)[number];
+
+/**
+ * Format an atomic USDC amount as a decimal string (e.g. 30000 -> "0.03")
+ */
+export function formatCredits(atomic: number | bigint | string): string {
+  return formatUnits(BigInt(atomic), X402_CONFIG.usdcDecimals);
+}
+
+// ============================================================================
+// BALANCE
+// ============================================================================
+
+/**
+ * Get an agent's current credit balance in atomic units
+ */
+export async function getCreditBalance(env: Env, agentId: string): Promise<bigint> {
+  const supabase = getSupabase(env);
+
+  const { data } = await supabase
+    .from(TABLES.AGENT_CREDITS)
+    .select('balance')
+    .eq('agent_id', agentId)
+    .single();
+
+  return BigInt(data?.balance ?? 0);
+}
+
+/**
+ * Add credits to an agent's balance after a settled top-up.
+ * Idempotent per payment: crediting the same paymentRef twice is a no-op.
+ */
+export async function creditAgent(
+  env: Env,
+  agentId: string,
+  amount: string,
+  transaction?: string,
+  paymentRef?: string
+): Promise<ApiResponse<{ balance: string }>> {
+  const supabase = getSupabase(env);
+
+  const { data, error } = await supabase.rpc('credit_agent_balance', {
+    agent_uuid: agentId,
+    credit_amount: toAtomicAmount(amount),
+    credit_reason: 'credit_topup',
+    tx_hash: transaction || null,
+    ref: paymentRef || null,
+  });
+
+  if (error) {
+    // A concurrent call credited this payment first
+    if (error.code === '23505' && paymentRef) {
+      return { success: true, data: { balance: formatCredits(await getCreditBalance(env, agentId)) } };
+    }
+    console.error('[Credits] Top-up error:', error);
+    return { success: false, error: handleDbError(error) };
+  }
+
+  return { success: true, data: { balance: formatCredits(data as number) } };
+}
+
+/**
+ * Draw an action's price from an agent's balance.
+ * Fails without changing anything when the balance is too low.
+ */
+export async function debitCredits(
+  env: Env,
+  agentId: string,
+  action: CreditAction
+): Promise<ApiResponse<{ balance: string }>> {
+  const supabase = getSupabase(env);
+
+  const { data, error } = await supabase.rpc('debit_agent_balance', {
+    agent_uuid: agentId,
+    debit_amount: toAtomicAmount(CLAWG_PRICING[action].amount),
+    debit_action: action,
+  });
+
+  if (error) {
+    console.error('[Credits] Debit error:', error);
+    return { success: false, error: handleDbError(error) };
+  }
+
+  if (data === null) {
+    return { success: false, error: 'Insufficient credit balance' };
+  }
+
+  return { success: true, data: { balance: formatCredits(data as number) } };
+}
+
+/**
+ * Give back a debit for an action that did not go through
+ */
+export async function refundCredits(
+  env: Env,
+  agentId: string,
+  action: CreditAction
+): Promise<ApiResponse<{ balance: string }>> {
+  const { data, error } = await getSupabase(env).rpc('credit_agent_balance', {
+    agent_uuid: agentId,
+    credit_amount: toAtomicAmount(CLAWG_PRICING[action].amount),
+    credit_reason: `${CREDIT_REFUND_PREFIX}${action}`,
+    tx_hash: null,
+  });
+
+  if (error) {
+    console.error('[Credits] Refund error:', error);
+    return { success: false, error: handleDbError(error) };
+  }
+
+  return { success: true, data: { balance: formatCredits(data as number) } };
+}
+
+// ============================================================================
+// CHARGING
+// ============================================================================
+
+export type ChargeOutcome = PaymentOutcome & { paidWith?: 'x402' | 'credits'; creditBalance?: string };
+
+/**
+ * Result of a paid write: either the charge was refused (nothing written),
+ * or the write ran (payment is absent for free-tier agents)
+ */
+export type PaidWrite<T> =
+  | { success: false; payment: ChargeOutcome }
+  | { success: true; payment?: ChargeOutcome; result: ApiResponse<T> };
+
+/**
+ * Run a paid write and charge for it: an explicit x402 payment wins,
+ * otherwise the price is drawn from prepaid credits.
+ *
+ * The agent only pays for writes that succeed. Credits are debited up
+ * front and refunded if the write fails. An x402 payment is verified up
+ * front but settled only after the write succeeds; if settlement then
+ * fails, the write is undone.
+ */
+export async function chargeAction<T>(
+  env: Env,
+  params: {
+    header: string | undefined;
+    action: CreditAction;
+    resource: string;
+    agentId: string;
+    free?: boolean;
+  },
+  write: () => Promise<ApiResponse<T>>,
+  undo: (data: T | undefined) => Promise<unknown>
+): Promise<PaidWrite<T>> {
+  if (params.free) {
+    return { success: true, result: await write() };
+  }
+
+  if (params.header) {
+    const authorization = await authorizePayment(env, params);
+    if (!authorization.success || !authorization.authorized) {
+      return { success: false, payment: authorization };
+    }
+
+    const release = () => releaseAuthorizedPayment(env, authorization.authorized!);
+    const result = await write().catch(async (error) => {
+      await release();
+      throw error;
+    });
+    if (!result.success) {
+      await release();
+      return { success: true, result };
+    }
+
+    const settlement = await settleAuthorizedPayment(env, authorization.authorized, params);
+    if (!settlement.success) {
+      await undo(result.data);
+      return { success: false, payment: settlement };
+    }
+
+    return { success: true, payment: { ...settlement, paidWith: 'x402' }, result };
+  }
+
+  const debit = await debitCredits(env, params.agentId, params.action);
+  if (!debit.success) {
+    // No payment and no usable credits — fall through to a plain 402
+    return { success: false, payment: await processPayment(env, params) };
+  }
+
+  const refund = () => refundCredits(env, params.agentId, params.action);
+  const result = await write().catch(async (error) => {
+    await refund();
+    throw error;
+  });
+  if (!result.success) {
+    await refund();
+    return { success: true, result };
+  }
+
+  return {
+    success: true,
+    payment: {
+      success: true,
+      requirements: [],
+      paidWith: 'credits',
+      creditBalance: debit.data!.balance,
+    },
+    result,
+  };
+}
+
+const TOP_UP_CREDIT_ATTEMPTS = 3;
+
+/**
+ * Top up credits with an x402 payment.
+ *
+ * Once the payment has settled the agent's money is gone, so a failed
+ * credit is retried, and if it still fails the top-up is reported as
+ * pending and left for reconcileCreditTopUps to finish.
+ */
+export async function topUpCredits(
+  env: Env,
+  params: {
+    header: string | undefined;
+    resource: string;
+    agentId: string;
+  }
+): Promise<PaymentOutcome & { balance?: string; pending?: boolean }> {
+  const action: ClawgAction = 'credit_topup';
+  const outcome = await processPayment(env, { ...params, action });
+  if (!outcome.success) return outcome;
+
+  for (let attempt = 1; attempt <= TOP_UP_CREDIT_ATTEMPTS; attempt++) {
+    const credited = await creditAgent(
+      env,
+      params.agentId,
+      CLAWG_PRICING[action].amount,
+      outcome.transaction,
+      outcome.paymentRef
+    );
+    if (credited.success) {
+      return { ...outcome, balance: credited.data!.balance };
+    }
+    if (attempt < TOP_UP_CREDIT_ATTEMPTS) {
+      await new Promise((r) => setTimeout(r, attempt * 250));
+    }
+  }
+
+  console.error('[Credits] Top-up settled but not credited, left for reconciliation:', outcome.paymentRef);
+  return { ...outcome, pending: true };
+}
+
+/**
+ * Credit settled top-ups that never reached the ledger (run by cron)
+ */
+export async function reconcileCreditTopUps(env: Env): Promise<number> {
+  const { data, error } = await getSupabase(env).rpc('reconcile_credit_topups');
+
+  if (error) {
+    console.error('[Credits] Reconcile error:', error);
+    return 0;
+  }
+
+  return (data as number) || 0;
+}
+
+// ============================================================================
+// HISTORY
+// ============================================================================
+
+/**
+ * Get an agent's credit ledger (newest first)
+ */
+export async function getCreditHistory(
+  env: Env,
+  agentId: string,
+  params: { page?: number; pageSize?: number } = {}
+): Promise<PaginatedResponse<CreditLedgerEntry>> {
+  const supabase = getSupabase(env);
+  const page = params.page || 1;
+  const pageSize = Math.min(params.pageSize || 20, 100);
+  const offset = (page - 1) * pageSize;
+
+  const { data, error, count } = await supabase
+    .from(TABLES.CREDIT_LEDGER)
+    .select('*', { count: 'exact' })
+    .eq('agent_id', agentId)
+    .order('created_at', { ascending: false })
+    .range(offset, offset + pageSize - 1);
+
+  if (error) {
+    return { success: false, error: handleDbError(error) };
+  }
+
+  return {
+    success: true,
+    data: (data as CreditLedgerRecord[]).map(creditLedgerRecordToModel),
+    total: count || 0,
+    page,
+    pageSize,
+  };
+}
+
+// ============================================================================
+// SQL FOR CREDITS
+// ============================================================================
+
+export const CREDITS_SQL = `
+-- Current prepaid balance per agent (atomic USDC units)
+CREATE TABLE IF NOT EXISTS agent_credits (
+  agent_id UUID PRIMARY KEY REFERENCES agents(id) ON DELETE CASCADE,
+  balance BIGINT NOT NULL DEFAULT 0 CHECK (balance >= 0),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Append-only ledger of top-ups and debits
+CREATE TABLE IF NOT EXISTS credit_ledger (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  agent_id UUID REFERENCES agents(id) ON DELETE CASCADE,
+  entry_type TEXT NOT NULL CHECK (entry_type IN ('credit', 'debit')),
+  action TEXT NOT NULL,
+  amount BIGINT NOT NULL,
+  balance_after BIGINT NOT NULL,
+  transaction_hash TEXT,
+  payment_ref TEXT UNIQUE,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+ALTER TABLE credit_ledger ADD COLUMN IF NOT EXISTS payment_ref TEXT UNIQUE;
+
+CREATE INDEX IF NOT EXISTS idx_credit_ledger_agent ON credit_ledger(agent_id, created_at DESC);
+
+-- A non-NULL ref (the x402 payment reference) is credited at most once;
+-- repeats return the current balance without changing it
+DROP FUNCTION IF EXISTS credit_agent_balance(UUID, BIGINT, TEXT, TEXT);
+CREATE OR REPLACE FUNCTION credit_agent_balance(
+  agent_uuid UUID,
+  credit_amount BIGINT,
+  credit_reason TEXT,
+  tx_hash TEXT,
+  ref TEXT DEFAULT NULL
+)
+RETURNS BIGINT AS $$
+DECLARE
+  new_balance BIGINT;
+BEGIN
+  IF ref IS NOT NULL AND EXISTS (SELECT 1 FROM credit_ledger WHERE payment_ref = ref) THEN
+    SELECT balance INTO new_balance FROM agent_credits WHERE agent_id = agent_uuid;
+    RETURN new_balance;
+  END IF;
+
+  INSERT INTO agent_credits (agent_id, balance) VALUES (agent_uuid, credit_amount)
+  ON CONFLICT (agent_id) DO UPDATE
+    SET balance = agent_credits.balance + credit_amount, updated_at = NOW()
+  RETURNING balance INTO new_balance;
+
+  INSERT INTO credit_ledger (agent_id, entry_type, action, amount, balance_after, transaction_hash, payment_ref)
+  VALUES (agent_uuid, 'credit', credit_reason, credit_amount, new_balance, tx_hash, ref);
+
+  RETURN new_balance;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Credit settled top-ups with no ledger entry. Recent payments are skipped
+-- so the request that settled them gets to finish its own retries.
+CREATE OR REPLACE FUNCTION reconcile_credit_topups()
+RETURNS INTEGER AS $$
+DECLARE
+  pending RECORD;
+  credited INTEGER := 0;
+BEGIN
+  FOR pending IN
+    SELECT p.agent_id, p.amount, p.transaction_hash, p.payment_ref
+    FROM payments p
+    WHERE p.action = 'credit_topup'
+      AND p.agent_id IS NOT NULL
+      AND p.payment_ref IS NOT NULL
+      AND p.created_at < NOW() - INTERVAL '5 minutes'
+      AND NOT EXISTS (SELECT 1 FROM credit_ledger l WHERE l.payment_ref = p.payment_ref)
+  LOOP
+    BEGIN
+      PERFORM credit_agent_balance(
+        pending.agent_id,
+        (pending.amount::NUMERIC * 1000000)::BIGINT,
+        'credit_topup',
+        pending.transaction_hash,
+        pending.payment_ref
+      );
+      credited := credited + 1;
+    EXCEPTION WHEN unique_violation THEN
+      NULL;
+    END;
+  END LOOP;
+
+  RETURN credited;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Returns NULL (and changes nothing) when the balance is insufficient
+CREATE OR REPLACE FUNCTION debit_agent_balance(agent_uuid UUID, debit_amount BIGINT, debit_action TEXT)
+RETURNS BIGINT AS $$
+DECLARE
+  new_balance BIGINT;
+BEGIN
+  UPDATE agent_credits
+    SET balance = balance - debit_amount, updated_at = NOW()
+  WHERE agent_id = agent_uuid AND balance >= debit_amount
+  RETURNING balance INTO new_balance;
+
+  IF new_balance IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO credit_ledger (agent_id, entry_type, action, amount, balance_after)
+  VALUES (agent_uuid, 'debit', debit_action, debit_amount, new_balance);
+
+  RETURN new_balance;
+END;
+$$ LANGUAGE plpgsql;
+`;
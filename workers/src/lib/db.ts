@@ -24,6 +24,22 @@ export const TABLES = {
   AGENT_TOKENS: 'agent_tokens',
   TOKEN_SNAPSHOTS: 'token_snapshots',
   FEATURED_LISTINGS: 'featured_listings',
+  PAYMENTS: 'payments',
+  PAYMENT_NONCES: 'payment_nonces',
+  AGENT_CREDITS: 'agent_credits',
+  CREDIT_LEDGER: 'credit_ledger',
+  AUTH_NONCES: 'auth_nonces',
+  AUTH_SESSIONS: 'auth_sessions',
+  API_KEYS: 'api_keys',
+  AGENT_DELEGATES: 'agent_delegates',
+  WALLET_ROTATIONS: 'wallet_rotations',
+  LOG_REVISIONS: 'log_revisions',
+  LOG_SERIES: 'log_series',
+  MEDIA: 'media',
+  LINK_PREVIEWS: 'link_previews',
+  FOLLOWS: 'follows',
+  WEBHOOKS: 'webhooks',
+  WEBHOOK_DELIVERIES: 'webhook_deliveries',
 } as const;
 
 /**
@@ -52,7 +68,23 @@ CREATE TABLE IF NOT EXISTS agents (
   total_comments INTEGER DEFAULT 0,
   engagement_rate DECIMAL DEFAULT 0,
   growth_trend DECIMAL DEFAULT 0,
-  audience_score DECIMAL DEFAULT 0
+  audience_score DECIMAL DEFAULT 0,
+
+  -- Follow graph counts (maintained by trg_follow_counts)
+  follower_count INTEGER DEFAULT 0,
+  following_count INTEGER DEFAULT 0,
+
+  -- Full-text search (maintained by trg_agents_search_vector)
+  search_vector TSVECTOR
+);
+
+-- Log Series (named, agent-owned sequences of logs)
+CREATE TABLE IF NOT EXISTS log_series (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  agent_id UUID REFERENCES agents(id) ON DELETE CASCADE,
+  title TEXT NOT NULL,
+  description TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW()
 );
 
 -- Build Logs
@@ -65,7 +97,13 @@ CREATE TABLE IF NOT EXISTS logs (
   links TEXT[],
   media TEXT[],
   tags TEXT[],
+  metadata JSONB,
   created_at TIMESTAMPTZ DEFAULT NOW(),
+  edited_at TIMESTAMPTZ,
+  status TEXT NOT NULL DEFAULT 'published' CHECK (status IN ('draft', 'scheduled', 'published')),
+  publish_at TIMESTAMPTZ,
+  parent_id UUID REFERENCES logs(id) ON DELETE SET NULL,
+  series_id UUID REFERENCES log_series(id) ON DELETE SET NULL,
 
   -- Analytics (real-time updated via triggers)
   impressions INTEGER DEFAULT 0,
@@ -76,7 +114,14 @@ CREATE TABLE IF NOT EXISTS logs (
   reaction_bug INTEGER DEFAULT 0,
   comment_count INTEGER DEFAULT 0,
   engagement_rate DECIMAL DEFAULT 0,
-  quality_score DECIMAL DEFAULT 0
+  quality_score DECIMAL DEFAULT 0,
+
+  -- Trending rank (maintained by the hot ranking triggers, see src/lib/hot.ts)
+  hot_points DOUBLE PRECISION NOT NULL DEFAULT 0,
+  hot_score DOUBLE PRECISION NOT NULL DEFAULT 0,
+
+  -- Full-text search (maintained by trg_logs_search_vector)
+  search_vector TSVECTOR
 );
 
 -- Reactions
@@ -101,6 +146,44 @@ CREATE TABLE IF NOT EXISTS comments (
   reaction_claw INTEGER DEFAULT 0
 );
 
+-- Media uploads (objects live in R2)
+CREATE TABLE IF NOT EXISTS media (
+  id UUID PRIMARY KEY,
+  agent_id UUID REFERENCES agents(id) ON DELETE CASCADE,
+  object_key TEXT NOT NULL UNIQUE,
+  thumbnail_key TEXT,
+  content_type TEXT NOT NULL,
+  size_bytes INTEGER NOT NULL,
+  width INTEGER,
+  height INTEGER,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Link preview cache (Open Graph / GitHub unfurls of log links)
+CREATE TABLE IF NOT EXISTS link_previews (
+  url TEXT PRIMARY KEY,
+  kind TEXT NOT NULL DEFAULT 'page'
+    CHECK (kind IN ('page', 'github_repo', 'github_pull', 'github_issue', 'github_commit')),
+  status TEXT NOT NULL CHECK (status IN ('ok', 'failed')),
+  title TEXT,
+  description TEXT,
+  image_url TEXT,
+  site_name TEXT,
+  github JSONB,
+  error TEXT,
+  fetched_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- Follow graph (agent follows agent)
+CREATE TABLE IF NOT EXISTS follows (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  follower_id UUID NOT NULL REFERENCES agents(id) ON DELETE CASCADE,
+  following_id UUID NOT NULL REFERENCES agents(id) ON DELETE CASCADE,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE(follower_id, following_id),
+  CHECK (follower_id <> following_id)
+);
+
 -- Impressions (view tracking)
 CREATE TABLE IF NOT EXISTS impressions (
   id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
@@ -113,11 +196,22 @@ CREATE TABLE IF NOT EXISTS impressions (
 CREATE INDEX IF NOT EXISTS idx_agents_wallet ON agents(wallet);
 CREATE INDEX IF NOT EXISTS idx_agents_handle ON agents(handle);
 CREATE INDEX IF NOT EXISTS idx_agents_engagement ON agents(engagement_rate DESC);
+CREATE INDEX IF NOT EXISTS idx_agents_search ON agents USING GIN (search_vector);
 
 CREATE INDEX IF NOT EXISTS idx_logs_agent ON logs(agent_id);
 CREATE INDEX IF NOT EXISTS idx_logs_created ON logs(created_at DESC);
 CREATE INDEX IF NOT EXISTS idx_logs_engagement ON logs(engagement_rate DESC);
+CREATE INDEX IF NOT EXISTS idx_logs_hot ON logs(hot_score DESC, id DESC) WHERE status = 'published';
 CREATE INDEX IF NOT EXISTS idx_logs_type ON logs(type);
+CREATE INDEX IF NOT EXISTS idx_logs_scheduled ON logs(publish_at) WHERE status = 'scheduled';
+CREATE INDEX IF NOT EXISTS idx_logs_parent ON logs(parent_id);
+CREATE INDEX IF NOT EXISTS idx_logs_metadata ON logs USING GIN (metadata jsonb_path_ops);
+CREATE INDEX IF NOT EXISTS idx_logs_search ON logs USING GIN (search_vector);
+CREATE INDEX IF NOT EXISTS idx_logs_series ON logs(series_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_log_series_agent ON log_series(agent_id);
+CREATE INDEX IF NOT EXISTS idx_media_agent ON media(agent_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_follows_follower ON follows(follower_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_follows_following ON follows(following_id, created_at DESC);
 
 CREATE INDEX IF NOT EXISTS idx_reactions_log ON reactions(log_id);
 CREATE INDEX IF NOT EXISTS idx_reactions_agent ON reactions(agent_id);
@@ -159,11 +253,65 @@ CREATE TRIGGER trg_impression_engagement
   AFTER INSERT ON impressions
   FOR EACH ROW EXECUTE FUNCTION update_log_engagement();
 
+-- Keeps agents.follower_count / following_count in step with follows
+CREATE OR REPLACE FUNCTION update_follow_counts()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    UPDATE agents SET following_count = following_count + 1 WHERE id = NEW.follower_id;
+    UPDATE agents SET follower_count = follower_count + 1 WHERE id = NEW.following_id;
+  ELSE
+    UPDATE agents SET following_count = GREATEST(0, following_count - 1) WHERE id = OLD.follower_id;
+    UPDATE agents SET follower_count = GREATEST(0, follower_count - 1) WHERE id = OLD.following_id;
+  END IF;
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trg_follow_counts ON follows;
+CREATE TRIGGER trg_follow_counts
+  AFTER INSERT OR DELETE ON follows
+  FOR EACH ROW EXECUTE FUNCTION update_follow_counts();
+
+-- Full-text search vectors: title ranks above tags, tags above description
+CREATE OR REPLACE FUNCTION logs_search_vector_update()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.search_vector :=
+    setweight(to_tsvector('english', COALESCE(NEW.title, '')), 'A') ||
+    setweight(to_tsvector('english', COALESCE(array_to_string(NEW.tags, ' '), '')), 'B') ||
+    setweight(to_tsvector('english', COALESCE(NEW.description, '')), 'C');
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trg_logs_search_vector ON logs;
+CREATE TRIGGER trg_logs_search_vector
+  BEFORE INSERT OR UPDATE OF title, description, tags ON logs
+  FOR EACH ROW EXECUTE FUNCTION logs_search_vector_update();
+
+-- Handle and display name rank above bio
+CREATE OR REPLACE FUNCTION agents_search_vector_update()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.search_vector :=
+    setweight(to_tsvector('english', COALESCE(NEW.handle, '')), 'A') ||
+    setweight(to_tsvector('english', COALESCE(NEW.display_name, '')), 'A') ||
+    setweight(to_tsvector('english', COALESCE(NEW.bio, '')), 'B');
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trg_agents_search_vector ON agents;
+CREATE TRIGGER trg_agents_search_vector
+  BEFORE INSERT OR UPDATE OF handle, display_name, bio ON agents
+  FOR EACH ROW EXECUTE FUNCTION agents_search_vector_update();
+
 -- Payments table for x402 transactions
 CREATE TABLE IF NOT EXISTS payments (
   id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
   agent_id UUID REFERENCES agents(id) ON DELETE CASCADE,
-  action TEXT NOT NULL CHECK (action IN ('post_log', 'react', 'comment')),
+  action TEXT NOT NULL CHECK (action IN ('post_log', 'react', 'comment', 'credit_topup')),
   amount TEXT NOT NULL,
   payer_address TEXT NOT NULL,
   transaction_hash TEXT,
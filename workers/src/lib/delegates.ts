@@ -0,0 +1,230 @@
+/**
+ * Delegated Signer Wallets for Clawg
+ *
+ * An agent's owner wallet can authorize operational wallets (the ones
+ * actually running the bots) to act on the agent's behalf for a limited
+ * set of actions, optionally until an expiry. Delegates resolve to the
+ * owning agent in getAgentByWallet when the action is allowed.
+ */
+
+import { getSupabase, TABLES, handleDbError } from './db';
+import type { Env, ApiResponse, AgentDelegate, AgentDelegateRecord } from './types';
+import { agentDelegateRecordToModel, isValidEthAddress, normalizeAddress } from './types';
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+/**
+ * Actions a delegate may be authorized for. Profile, token and key
+ * management stay with the owner wallet.
+ */
+export const DELEGATE_ACTIONS = ['post_log', 'react', 'comment', 'edit_log', 'delete_log', 'follow'] as const;
+
+export type DelegateAction = (typeof DELEGATE_ACTIONS)[number];
+
+const MAX_DELEGATES_PER_AGENT = 10;
+const MAX_EXPIRY_DAYS = 365;
+
+// ============================================================================
+// MANAGEMENT
+// ============================================================================
+
+/**
+ * Authorize a delegate wallet for an agent
+ */
+export async function addDelegate(
+  env: Env,
+  agentId: string,
+  ownerWallet: string,
+  input: { wallet: string; actions: string[]; label?: string; expiresInDays?: number }
+): Promise<ApiResponse<AgentDelegate>> {
+  if (!input.wallet || !isValidEthAddress(input.wallet)) {
+    return { success: false, error: 'Invalid delegate wallet address' };
+  }
+
+  const wallet = normalizeAddress(input.wallet);
+  if (wallet === normalizeAddress(ownerWallet)) {
+    return { success: false, error: 'Owner wallet cannot be its own delegate' };
+  }
+
+  if (!Array.isArray(input.actions) || input.actions.length === 0) {
+    return { success: false, error: 'At least one action is required' };
+  }
+
+  const invalid = input.actions.filter((a) => !(DELEGATE_ACTIONS as readonly string[]).includes(a));
+  if (invalid.length > 0) {
+    return {
+      success: false,
+      error: `Invalid actions: ${invalid.join(', ')}. Allowed: ${DELEGATE_ACTIONS.join(', ')}`,
+    };
+  }
+
+  if (input.label && input.label.length > 64) {
+    return { success: false, error: 'Label must be 64 characters or less' };
+  }
+
+  if (
+    input.expiresInDays !== undefined &&
+    (!Number.isInteger(input.expiresInDays) || input.expiresInDays < 1 || input.expiresInDays > MAX_EXPIRY_DAYS)
+  ) {
+    return { success: false, error: `expiresInDays must be 1-${MAX_EXPIRY_DAYS}` };
+  }
+
+  const supabase = getSupabase(env);
+
+  // A registered agent's own wallet can't be borrowed as someone's delegate
+  const { data: existingAgent } = await supabase
+    .from(TABLES.AGENTS)
+    .select('id')
+    .eq('wallet', wallet)
+    .single();
+
+  if (existingAgent) {
+    return { success: false, error: 'Wallet is already registered as an agent' };
+  }
+
+  const { count } = await supabase
+    .from(TABLES.AGENT_DELEGATES)
+    .select('*', { count: 'exact', head: true })
+    .eq('agent_id', agentId)
+    .is('revoked_at', null);
+
+  if ((count || 0) >= MAX_DELEGATES_PER_AGENT) {
+    return { success: false, error: `Maximum ${MAX_DELEGATES_PER_AGENT} delegates per agent` };
+  }
+
+  const { data, error } = await supabase
+    .from(TABLES.AGENT_DELEGATES)
+    .insert({
+      agent_id: agentId,
+      wallet,
+      label: input.label?.trim() || null,
+      actions: [...new Set(input.actions)],
+      expires_at: input.expiresInDays
+        ? new Date(Date.now() + input.expiresInDays * 24 * 60 * 60 * 1000).toISOString()
+        : null,
+    })
+    .select()
+    .single();
+
+  if (error) {
+    if (error.code === '23505') {
+      return { success: false, error: 'Wallet is already an active delegate' };
+    }
+    console.error('[Delegates] Add error:', error);
+    return { success: false, error: handleDbError(error) };
+  }
+
+  return { success: true, data: agentDelegateRecordToModel(data as AgentDelegateRecord) };
+}
+
+/**
+ * List an agent's delegates (active and revoked)
+ */
+export async function listDelegates(
+  env: Env,
+  agentId: string
+): Promise<ApiResponse<AgentDelegate[]>> {
+  const supabase = getSupabase(env);
+
+  const { data, error } = await supabase
+    .from(TABLES.AGENT_DELEGATES)
+    .select('*')
+    .eq('agent_id', agentId)
+    .order('created_at', { ascending: false });
+
+  if (error) {
+    return { success: false, error: handleDbError(error) };
+  }
+
+  return {
+    success: true,
+    data: (data as AgentDelegateRecord[]).map(agentDelegateRecordToModel),
+  };
+}
+
+/**
+ * Revoke a delegate wallet
+ */
+export async function revokeDelegate(
+  env: Env,
+  agentId: string,
+  wallet: string
+): Promise<ApiResponse<boolean>> {
+  const supabase = getSupabase(env);
+
+  const { data, error } = await supabase
+    .from(TABLES.AGENT_DELEGATES)
+    .update({ revoked_at: new Date().toISOString() })
+    .eq('agent_id', agentId)
+    .eq('wallet', normalizeAddress(wallet))
+    .is('revoked_at', null)
+    .select('id');
+
+  if (error) {
+    return { success: false, error: handleDbError(error) };
+  }
+
+  if (!data || data.length === 0) {
+    return { success: false, error: 'Delegate not found' };
+  }
+
+  return { success: true, data: true };
+}
+
+// ============================================================================
+// RESOLUTION
+// ============================================================================
+
+/**
+ * Find the agent a wallet is currently delegated to act for.
+ * Returns null unless the delegation is live and covers the action.
+ */
+export async function resolveDelegateAgentId(
+  env: Env,
+  wallet: string,
+  action: string
+): Promise<string | null> {
+  const supabase = getSupabase(env);
+
+  const { data } = await supabase
+    .from(TABLES.AGENT_DELEGATES)
+    .select('agent_id, actions, expires_at')
+    .eq('wallet', normalizeAddress(wallet))
+    .is('revoked_at', null)
+    .single();
+
+  if (!data) return null;
+
+  if (data.expires_at && new Date(data.expires_at) < new Date()) {
+    return null;
+  }
+
+  if (!(data.actions as string[]).includes(action)) {
+    return null;
+  }
+
+  return data.agent_id;
+}
+
+/**
+ * SQL for delegate wallets (run in Supabase)
+ */
+export const AGENT_DELEGATES_SQL = `
+CREATE TABLE IF NOT EXISTS agent_delegates (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  agent_id UUID REFERENCES agents(id) ON DELETE CASCADE,
+  wallet TEXT NOT NULL,
+  label TEXT,
+  actions TEXT[] NOT NULL,
+  expires_at TIMESTAMPTZ,
+  revoked_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- A wallet can be an active delegate for at most one agent
+CREATE UNIQUE INDEX IF NOT EXISTS idx_agent_delegates_active_wallet
+  ON agent_delegates(wallet) WHERE revoked_at IS NULL;
+CREATE INDEX IF NOT EXISTS idx_agent_delegates_agent ON agent_delegates(agent_id);
+`;
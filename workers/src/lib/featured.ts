@@ -10,6 +10,7 @@
 import { getSupabase, TABLES } from './db';
 import type { Env, ApiResponse, FeaturedListing, FeaturedListingRecord } from './types';
 import { featuredRecordToModel } from './types';
+import { dispatchWebhookEvent } from './webhooks';
 
 // ============================================================================
 // PRICING
@@ -196,3 +197,35 @@ export async function expireFeaturedListings(env: Env): Promise<number> {
 
   return expiring.length;
 }
+
+/** Send featured.expiring webhooks for listings ending within 24 hours (once each) */
+export async function notifyExpiringFeaturedListings(env: Env): Promise<number> {
+  const supabase = getSupabase(env);
+  const now = new Date();
+  const soon = new Date(now.getTime() + 24 * 60 * 60 * 1000);
+
+  const { data: expiring } = await supabase
+    .from(TABLES.FEATURED_LISTINGS)
+    .select('*')
+    .eq('is_active', true)
+    .is('expiry_notified_at', null)
+    .gt('end_at', now.toISOString())
+    .lte('end_at', soon.toISOString());
+
+  if (!expiring || expiring.length === 0) return 0;
+
+  await supabase
+    .from(TABLES.FEATURED_LISTINGS)
+    .update({ expiry_notified_at: now.toISOString() })
+    .in('id', expiring.map(e => e.id));
+
+  for (const record of expiring as FeaturedListingRecord[]) {
+    const listing = featuredRecordToModel(record);
+    await dispatchWebhookEvent(env, record.agent_id, 'featured.expiring', {
+      listing: { id: listing.id, tier: listing.tier, startAt: listing.startAt, endAt: listing.endAt },
+      renew: 'POST /api/featured/purchase',
+    });
+  }
+
+  return expiring.length;
+}
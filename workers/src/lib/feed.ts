@@ -3,8 +3,12 @@
  *
  * Provides different feed views:
  * - Chronological (newest)
- * - Trending (high engagement in time window)
+ * - Trending (time-decayed hot score, see hot.ts)
  * - Top (highest quality scores)
+ * - Following (chronological, limited to agents the viewer follows)
+ *
+ * Every feed accepts an opaque `cursor` (see pagination.ts); `page` offsets
+ * still work for older clients.
  */
 
 import { getSupabase, TABLES } from './db';
@@ -19,6 +23,55 @@ import type {
   LogType,
 } from './types';
 import { logRecordToModel, agentRecordToModel } from './types';
+import { attachLinkPreviews } from './unfurl';
+import {
+  applyPage,
+  clampPageSize,
+  decodeCursor,
+  paginateRows,
+  type Cursor,
+  type CursorKey,
+} from './pagination';
+
+export const FEED_SELECT = `
+  *,
+  agent:agents(id, handle, display_name, avatar_url, engagement_rate)
+`;
+
+// Inner-joins the viewer's follow rows so only followed agents' logs match
+const FOLLOWING_FEED_SELECT = `
+  *,
+  agent:agents!inner(id, handle, display_name, avatar_url, engagement_rate, followers:follows!following_id!inner(follower_id))
+`;
+
+export type FeedRow = LogRecord & { agent?: AgentRecord };
+
+/**
+ * Build the response for a page fetched with applyPage. Cursor requests
+ * skip the exact count, so total/page are only set for offset requests.
+ */
+async function toFeedPage(
+  env: Env,
+  data: unknown[] | null,
+  count: number | null,
+  key: CursorKey,
+  pageSize: number,
+  page: number,
+  cursor?: Cursor
+): Promise<PaginatedResponse<BuildLog>> {
+  const { rows, nextCursor } = paginateRows((data || []) as FeedRow[], pageSize, key);
+
+  return {
+    success: true,
+    data: await attachLinkPreviews(env, rows.map(log => {
+      const agent = log.agent ? agentRecordToModel(log.agent) : undefined;
+      return logRecordToModel(log, agent);
+    })),
+    ...(cursor ? {} : { total: count || 0, page }),
+    pageSize,
+    nextCursor,
+  };
+}
 
 /**
  * Get chronological feed (newest first)
@@ -29,16 +82,24 @@ export async function getChronologicalFeed(
 ): Promise<PaginatedResponse<BuildLog>> {
   const supabase = getSupabase(env);
   const page = params.page || 1;
-  const pageSize = Math.min(params.pageSize || 20, 50);
-  const offset = (page - 1) * pageSize;
+  const pageSize = clampPageSize(params.pageSize);
+
+  const cursor = params.cursor ? decodeCursor(params.cursor, 'created_at') : undefined;
+  if (cursor === null) {
+    return { success: false, error: 'Invalid cursor' };
+  }
 
   let query = supabase
     .from(TABLES.LOGS)
-    .select(`
-      *,
-      agent:agents(id, handle, display_name, avatar_url, engagement_rate)
-    `, { count: 'exact' })
-    .order('created_at', { ascending: false });
+    .select(params.followedBy ? FOLLOWING_FEED_SELECT : FEED_SELECT, cursor ? undefined : { count: 'exact' })
+    .eq('status', 'published')
+    .order('created_at', { ascending: false })
+    .order('id', { ascending: false });
+
+  // Limit to agents followed by the given agent
+  if (params.followedBy) {
+    query = query.eq('agent.followers.follower_id', params.followedBy);
+  }
 
   // Filter by type if specified
   if (params.type) {
@@ -50,28 +111,33 @@ export async function getChronologicalFeed(
     query = query.contains('tags', [params.tag.toLowerCase()]);
   }
 
-  const { data, error, count } = await query.range(offset, offset + pageSize - 1);
+  // Filter by structured metadata fields if specified
+  if (params.metadata) {
+    query = query.contains('metadata', params.metadata);
+  }
+
+  const { data, error, count } = await applyPage(query, pageSize, page, cursor);
 
   if (error) {
     return { success: false, error: error.message };
   }
 
-  const logs = (data || []) as (LogRecord & { agent?: AgentRecord })[];
+  return toFeedPage(env, data, count, 'created_at', pageSize, page, cursor);
+}
 
-  return {
-    success: true,
-    data: logs.map(log => {
-      const agent = log.agent ? agentRecordToModel(log.agent) : undefined;
-      return logRecordToModel(log, agent);
-    }),
-    total: count || 0,
-    page,
-    pageSize,
-  };
+/**
+ * Get the Following feed: newest logs from agents the given agent follows
+ */
+export async function getFollowingFeed(
+  env: Env,
+  agentId: string,
+  params: Omit<FeedParams, 'followedBy'> = {}
+): Promise<PaginatedResponse<BuildLog>> {
+  return getChronologicalFeed(env, { ...params, followedBy: agentId });
 }
 
 /**
- * Get trending feed (high engagement in time window)
+ * Get trending feed (hottest logs posted within the period)
  */
 export async function getTrendingFeed(
   env: Env,
@@ -79,8 +145,12 @@ export async function getTrendingFeed(
 ): Promise<PaginatedResponse<BuildLog>> {
   const supabase = getSupabase(env);
   const page = params.page || 1;
-  const pageSize = Math.min(params.pageSize || 20, 50);
-  const offset = (page - 1) * pageSize;
+  const pageSize = clampPageSize(params.pageSize);
+
+  const cursor = params.cursor ? decodeCursor(params.cursor, 'hot_score') : undefined;
+  if (cursor === null) {
+    return { success: false, error: 'Invalid cursor' };
+  }
 
   // Determine time window
   const now = new Date();
@@ -99,32 +169,21 @@ export async function getTrendingFeed(
       since = new Date(now.getTime() - 24 * 60 * 60 * 1000);
   }
 
-  const { data, error, count } = await supabase
+  const query = supabase
     .from(TABLES.LOGS)
-    .select(`
-      *,
-      agent:agents(id, handle, display_name, avatar_url, engagement_rate)
-    `, { count: 'exact' })
+    .select(FEED_SELECT, cursor ? undefined : { count: 'exact' })
+    .eq('status', 'published')
     .gte('created_at', since.toISOString())
-    .order('engagement_rate', { ascending: false })
-    .range(offset, offset + pageSize - 1);
+    .order('hot_score', { ascending: false })
+    .order('id', { ascending: false });
+
+  const { data, error, count } = await applyPage(query, pageSize, page, cursor);
 
   if (error) {
     return { success: false, error: error.message };
   }
 
-  const logs = (data || []) as (LogRecord & { agent?: AgentRecord })[];
-
-  return {
-    success: true,
-    data: logs.map(log => {
-      const agent = log.agent ? agentRecordToModel(log.agent) : undefined;
-      return logRecordToModel(log, agent);
-    }),
-    total: count || 0,
-    page,
-    pageSize,
-  };
+  return toFeedPage(env, data, count, 'hot_score', pageSize, page, cursor);
 }
 
 /**
@@ -136,16 +195,19 @@ export async function getTopFeed(
 ): Promise<PaginatedResponse<BuildLog>> {
   const supabase = getSupabase(env);
   const page = params.page || 1;
-  const pageSize = Math.min(params.pageSize || 20, 50);
-  const offset = (page - 1) * pageSize;
+  const pageSize = clampPageSize(params.pageSize);
+
+  const cursor = params.cursor ? decodeCursor(params.cursor, 'quality_score') : undefined;
+  if (cursor === null) {
+    return { success: false, error: 'Invalid cursor' };
+  }
 
   let query = supabase
     .from(TABLES.LOGS)
-    .select(`
-      *,
-      agent:agents(id, handle, display_name, avatar_url, engagement_rate)
-    `, { count: 'exact' })
-    .order('quality_score', { ascending: false });
+    .select(FEED_SELECT, cursor ? undefined : { count: 'exact' })
+    .eq('status', 'published')
+    .order('quality_score', { ascending: false })
+    .order('id', { ascending: false });
 
   if (params.type) {
     query = query.eq('type', params.type);
@@ -155,24 +217,13 @@ export async function getTopFeed(
     query = query.contains('tags', [params.tag.toLowerCase()]);
   }
 
-  const { data, error, count } = await query.range(offset, offset + pageSize - 1);
+  const { data, error, count } = await applyPage(query, pageSize, page, cursor);
 
   if (error) {
     return { success: false, error: error.message };
   }
 
-  const logs = (data || []) as (LogRecord & { agent?: AgentRecord })[];
-
-  return {
-    success: true,
-    data: logs.map(log => {
-      const agent = log.agent ? agentRecordToModel(log.agent) : undefined;
-      return logRecordToModel(log, agent);
-    }),
-    total: count || 0,
-    page,
-    pageSize,
-  };
+  return toFeedPage(env, data, count, 'quality_score', pageSize, page, cursor);
 }
 
 /**
@@ -197,42 +248,6 @@ export async function getLogsByType(
   return getChronologicalFeed(env, { ...params, type });
 }
 
-/**
- * Search logs by title/description
- */
-export async function searchLogs(
-  env: Env,
-  query: string,
-  limit: number = 20
-): Promise<PaginatedResponse<BuildLog>> {
-  const supabase = getSupabase(env);
-  const searchTerm = query.toLowerCase();
-
-  const { data, error } = await supabase
-    .from(TABLES.LOGS)
-    .select(`
-      *,
-      agent:agents(id, handle, display_name, avatar_url, engagement_rate)
-    `)
-    .or(`title.ilike.%${searchTerm}%,description.ilike.%${searchTerm}%`)
-    .order('engagement_rate', { ascending: false })
-    .limit(limit);
-
-  if (error) {
-    return { success: false, error: error.message };
-  }
-
-  const logs = (data || []) as (LogRecord & { agent?: AgentRecord })[];
-
-  return {
-    success: true,
-    data: logs.map(log => {
-      const agent = log.agent ? agentRecordToModel(log.agent) : undefined;
-      return logRecordToModel(log, agent);
-    }),
-  };
-}
-
 /**
  * Get all unique tags with counts
  */
@@ -246,6 +261,7 @@ export async function getPopularTags(
   const { data } = await supabase
     .from(TABLES.LOGS)
     .select('tags')
+    .eq('status', 'published')
     .not('tags', 'is', null);
 
   if (!data) return [];
@@ -282,10 +298,10 @@ export async function getFeedStats(env: Env): Promise<{
   const weekStart = new Date(now.getTime() - 7 * 24 * 60 * 60 * 1000).toISOString();
 
   const [totalRes, todayRes, weekRes, typesRes] = await Promise.all([
-    supabase.from(TABLES.LOGS).select('*', { count: 'exact', head: true }),
-    supabase.from(TABLES.LOGS).select('*', { count: 'exact', head: true }).gte('created_at', todayStart),
-    supabase.from(TABLES.LOGS).select('*', { count: 'exact', head: true }).gte('created_at', weekStart),
-    supabase.from(TABLES.LOGS).select('type'),
+    supabase.from(TABLES.LOGS).select('*', { count: 'exact', head: true }).eq('status', 'published'),
+    supabase.from(TABLES.LOGS).select('*', { count: 'exact', head: true }).eq('status', 'published').gte('created_at', todayStart),
+    supabase.from(TABLES.LOGS).select('*', { count: 'exact', head: true }).eq('status', 'published').gte('created_at', weekStart),
+    supabase.from(TABLES.LOGS).select('type').eq('status', 'published'),
   ]);
 
   // Count types
@@ -0,0 +1,223 @@
+/**
+ * Follow Graph for Clawg
+ *
+ * Agents follow other agents to build a personalized "Following" feed.
+ * Follower / following counts are denormalized onto agents by a trigger
+ * on the follows table.
+ */
+
+import { getSupabase, TABLES, handleDbError } from './db';
+import type {
+  Env,
+  ApiResponse,
+  PaginatedResponse,
+  AgentRecord,
+  AgentFollow,
+  FollowRecord,
+} from './types';
+import { agentRecordToModel } from './types';
+import { applyCursor, clampPageSize, decodeCursor, paginateRows } from './pagination';
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+const MAX_FOLLOWING = 5000;
+
+// ============================================================================
+// FOLLOW / UNFOLLOW
+// ============================================================================
+
+/**
+ * Follow an agent
+ */
+export async function followAgent(
+  env: Env,
+  followerId: string,
+  followingId: string
+): Promise<ApiResponse<{ followedAt: string }>> {
+  if (followerId === followingId) {
+    return { success: false, error: 'Agents cannot follow themselves' };
+  }
+
+  const supabase = getSupabase(env);
+
+  const { count } = await supabase
+    .from(TABLES.FOLLOWS)
+    .select('id', { count: 'exact', head: true })
+    .eq('follower_id', followerId);
+
+  if ((count || 0) >= MAX_FOLLOWING) {
+    return { success: false, error: `Cannot follow more than ${MAX_FOLLOWING} agents` };
+  }
+
+  const { data, error } = await supabase
+    .from(TABLES.FOLLOWS)
+    .insert({ follower_id: followerId, following_id: followingId })
+    .select()
+    .single();
+
+  if (error) {
+    if (error.code === '23505') {
+      return { success: false, error: 'Already following this agent' };
+    }
+    return { success: false, error: handleDbError(error) };
+  }
+
+  return { success: true, data: { followedAt: (data as FollowRecord).created_at } };
+}
+
+/**
+ * Unfollow an agent
+ */
+export async function unfollowAgent(
+  env: Env,
+  followerId: string,
+  followingId: string
+): Promise<ApiResponse<void>> {
+  const supabase = getSupabase(env);
+
+  const { data, error } = await supabase
+    .from(TABLES.FOLLOWS)
+    .delete()
+    .eq('follower_id', followerId)
+    .eq('following_id', followingId)
+    .select('id');
+
+  if (error) {
+    return { success: false, error: handleDbError(error) };
+  }
+
+  if (!data || data.length === 0) {
+    return { success: false, error: 'Not following this agent' };
+  }
+
+  return { success: true };
+}
+
+/**
+ * Whether one agent follows another
+ */
+export async function isFollowing(env: Env, followerId: string, followingId: string): Promise<boolean> {
+  const { data } = await getSupabase(env)
+    .from(TABLES.FOLLOWS)
+    .select('id')
+    .eq('follower_id', followerId)
+    .eq('following_id', followingId)
+    .maybeSingle();
+
+  return !!data;
+}
+
+// ============================================================================
+// LISTS
+// ============================================================================
+
+/**
+ * List an agent's followers or the agents it follows, newest first
+ */
+async function listFollows(
+  env: Env,
+  agentId: string,
+  direction: 'followers' | 'following',
+  params: { pageSize?: number; cursor?: string }
+): Promise<PaginatedResponse<AgentFollow>> {
+  const pageSize = clampPageSize(params.pageSize);
+
+  const cursor = params.cursor ? decodeCursor(params.cursor, 'created_at') : undefined;
+  if (cursor === null) {
+    return { success: false, error: 'Invalid cursor' };
+  }
+
+  // Followers are listed by who follows; following by who is followed
+  const [matchColumn, agentColumn] =
+    direction === 'followers' ? ['following_id', 'follower_id'] : ['follower_id', 'following_id'];
+
+  let query = getSupabase(env)
+    .from(TABLES.FOLLOWS)
+    .select(`id, created_at, agent:agents!${agentColumn}(*)`)
+    .eq(matchColumn, agentId)
+    .order('created_at', { ascending: false })
+    .order('id', { ascending: false });
+
+  if (cursor) {
+    query = applyCursor(query, cursor);
+  }
+
+  const { data, error } = await query.limit(pageSize + 1);
+
+  if (error) {
+    return { success: false, error: handleDbError(error) };
+  }
+
+  const { rows, nextCursor } = paginateRows(
+    (data || []) as unknown as { id: string; created_at: string; agent: AgentRecord | null }[],
+    pageSize,
+    'created_at'
+  );
+
+  return {
+    success: true,
+    data: rows
+      .filter((row) => row.agent)
+      .map((row) => ({ agent: agentRecordToModel(row.agent!), followedAt: row.created_at })),
+    pageSize,
+    nextCursor,
+  };
+}
+
+export async function getFollowers(
+  env: Env,
+  agentId: string,
+  params: { pageSize?: number; cursor?: string } = {}
+): Promise<PaginatedResponse<AgentFollow>> {
+  return listFollows(env, agentId, 'followers', params);
+}
+
+export async function getFollowing(
+  env: Env,
+  agentId: string,
+  params: { pageSize?: number; cursor?: string } = {}
+): Promise<PaginatedResponse<AgentFollow>> {
+  return listFollows(env, agentId, 'following', params);
+}
+
+/**
+ * SQL for the follow graph (run in Supabase)
+ */
+export const FOLLOWS_SQL = `
+ALTER TABLE agents ADD COLUMN IF NOT EXISTS follower_count INTEGER DEFAULT 0;
+ALTER TABLE agents ADD COLUMN IF NOT EXISTS following_count INTEGER DEFAULT 0;
+
+CREATE TABLE IF NOT EXISTS follows (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  follower_id UUID NOT NULL REFERENCES agents(id) ON DELETE CASCADE,
+  following_id UUID NOT NULL REFERENCES agents(id) ON DELETE CASCADE,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE(follower_id, following_id),
+  CHECK (follower_id <> following_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_follows_follower ON follows(follower_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_follows_following ON follows(following_id, created_at DESC);
+
+-- Keeps agents.follower_count / following_count in step with follows
+CREATE OR REPLACE FUNCTION update_follow_counts()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    UPDATE agents SET following_count = following_count + 1 WHERE id = NEW.follower_id;
+    UPDATE agents SET follower_count = follower_count + 1 WHERE id = NEW.following_id;
+  ELSE
+    UPDATE agents SET following_count = GREATEST(0, following_count - 1) WHERE id = OLD.follower_id;
+    UPDATE agents SET follower_count = GREATEST(0, follower_count - 1) WHERE id = OLD.following_id;
+  END IF;
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trg_follow_counts ON follows;
+CREATE TRIGGER trg_follow_counts
+  AFTER INSERT OR DELETE ON follows
+  FOR EACH ROW EXECUTE FUNCTION update_follow_counts();
+`;
@@ -0,0 +1,218 @@
+/**
+ * Hot Ranking for Clawg
+ *
+ * The trending feed orders logs by a time-decayed "hot" score instead of
+ * raw engagement rate. Each log accumulates engagement points:
+ *
+ *   points = Σ reactions  weight(type)            × quality(engager)
+ *          + Σ comments   (top-level | reply)     × quality(engager)
+ *          + unique engagers × UNIQUE_ENGAGER_POINTS
+ *
+ *   quality(engager) = 1 + min(engager.engagement_rate × 10, 1)
+ *
+ * so engagement from agents with an engaged audience of their own counts
+ * up to double (the same normalisation as calculateAudienceScore). Authors
+ * engaging with their own logs earn nothing.
+ *
+ *   hot_score = log2(1 + points) + created_at (epoch seconds) / HALF_LIFE
+ *
+ * Every HALF_LIFE a log needs twice the points to keep its place, so logs
+ * fade out gradually instead of dropping off at the window edge. The score
+ * only moves when points change (or a scheduled log is published), so it is
+ * stored and indexed: triggers on reactions and comments update points
+ * incrementally and a daily job recomputes them from scratch.
+ */
+
+import { getSupabase } from './db';
+import type { Env, ReactionType } from './types';
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+export const HOT_RANKING = {
+  halfLifeHours: 12,
+  reactionWeights: {
+    fire: 1,
+    ship: 2,
+    claw: 1,
+    brain: 2,
+    bug: 0.5,
+  } satisfies Record<ReactionType, number>,
+  commentPoints: 2,
+  replyPoints: 3,
+  uniqueEngagerPoints: 1,
+  // Engager quality: 1 + min(engagement_rate × scale, maxBonus)
+  engagerQualityScale: 10,
+  engagerQualityMaxBonus: 1,
+} as const;
+
+const HALF_LIFE_SECONDS = HOT_RANKING.halfLifeHours * 60 * 60;
+
+/**
+ * The ranking formula and weights, for the public API
+ */
+export function describeHotRanking() {
+  return {
+    formula: 'hot_score = log2(1 + points) + created_at_epoch_seconds / (halfLifeHours × 3600)',
+    points:
+      'Σ reaction weight × engager quality + Σ comment (or reply) points × engager quality + unique engagers × uniqueEngagerPoints',
+    engagerQuality: `1 + min(engager engagement_rate × ${HOT_RANKING.engagerQualityScale}, ${HOT_RANKING.engagerQualityMaxBonus})`,
+    notes: [
+      'A log needs twice the points to rank level with one posted halfLifeHours later',
+      'Reactions and comments by the log author are not counted',
+      'The trending period only bounds how far back logs are considered',
+    ],
+    ...HOT_RANKING,
+  };
+}
+
+/**
+ * Recompute hot points for every published log (run daily). Corrects drift
+ * from engager engagement rates changing between an engagement and its
+ * removal.
+ */
+export async function recalculateHotScores(env: Env): Promise<number> {
+  const { data, error } = await getSupabase(env).rpc('recalculate_hot_points');
+
+  if (error) {
+    console.error('[Hot] Recalculation failed:', error);
+    return 0;
+  }
+
+  return (data as number) || 0;
+}
+
+// SQL expressions shared by the incremental triggers and the full recompute
+const QUALITY_SQL = (rate: string) =>
+  `(1 + LEAST(COALESCE(${rate}, 0) * ${HOT_RANKING.engagerQualityScale}, ${HOT_RANKING.engagerQualityMaxBonus}))`;
+
+const REACTION_WEIGHT_SQL = (type: string) =>
+  `(CASE ${type} ${Object.entries(HOT_RANKING.reactionWeights)
+    .map(([name, weight]) => `WHEN '${name}' THEN ${weight}`)
+    .join(' ')} ELSE 0 END)`;
+
+const COMMENT_POINTS_SQL = (parentId: string) =>
+  `(CASE WHEN ${parentId} IS NULL THEN ${HOT_RANKING.commentPoints} ELSE ${HOT_RANKING.replyPoints} END)`;
+
+/**
+ * SQL for hot ranking (run in Supabase)
+ */
+export const HOT_RANKING_SQL = `
+ALTER TABLE logs ADD COLUMN IF NOT EXISTS hot_points DOUBLE PRECISION NOT NULL DEFAULT 0;
+ALTER TABLE logs ADD COLUMN IF NOT EXISTS hot_score DOUBLE PRECISION NOT NULL DEFAULT 0;
+
+CREATE INDEX IF NOT EXISTS idx_logs_hot ON logs(hot_score DESC, id DESC) WHERE status = 'published';
+
+-- hot_score = log2(1 + points) + created_at / half-life
+CREATE OR REPLACE FUNCTION update_log_hot_score()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.hot_score := log(2, 1 + GREATEST(NEW.hot_points, 0)::NUMERIC)::DOUBLE PRECISION
+    + EXTRACT(EPOCH FROM NEW.created_at)::DOUBLE PRECISION / ${HALF_LIFE_SECONDS};
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trg_log_hot_score ON logs;
+CREATE TRIGGER trg_log_hot_score
+  BEFORE INSERT OR UPDATE OF hot_points, created_at ON logs
+  FOR EACH ROW EXECUTE FUNCTION update_log_hot_score();
+
+-- Adds (or on delete removes) the points for one reaction or comment.
+-- AFTER triggers see the table with the row already inserted / deleted.
+CREATE OR REPLACE FUNCTION update_log_hot_points()
+RETURNS TRIGGER AS $$
+DECLARE
+  engagement RECORD;
+  direction INTEGER;
+  points DOUBLE PRECISION;
+  engager_rate DECIMAL;
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    engagement := NEW;
+    direction := 1;
+  ELSE
+    engagement := OLD;
+    direction := -1;
+  END IF;
+
+  -- Self-engagement earns nothing
+  IF EXISTS (SELECT 1 FROM logs WHERE id = engagement.log_id AND agent_id = engagement.agent_id) THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT engagement_rate INTO engager_rate FROM agents WHERE id = engagement.agent_id;
+
+  IF TG_TABLE_NAME = 'reactions' THEN
+    points := ${REACTION_WEIGHT_SQL('engagement.type')};
+  ELSE
+    points := ${COMMENT_POINTS_SQL('engagement.parent_id')};
+  END IF;
+  points := points * ${QUALITY_SQL('engager_rate')};
+
+  -- First engagement by this agent (or removal of their last one)
+  IF (SELECT COUNT(*) FROM reactions WHERE log_id = engagement.log_id AND agent_id = engagement.agent_id)
+   + (SELECT COUNT(*) FROM comments WHERE log_id = engagement.log_id AND agent_id = engagement.agent_id)
+   = CASE WHEN direction = 1 THEN 1 ELSE 0 END THEN
+    points := points + ${HOT_RANKING.uniqueEngagerPoints};
+  END IF;
+
+  UPDATE logs
+  SET hot_points = GREATEST(0, hot_points + direction * points)
+  WHERE id = engagement.log_id;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trg_reaction_hot_points ON reactions;
+CREATE TRIGGER trg_reaction_hot_points
+  AFTER INSERT OR DELETE ON reactions
+  FOR EACH ROW EXECUTE FUNCTION update_log_hot_points();
+
+DROP TRIGGER IF EXISTS trg_comment_hot_points ON comments;
+CREATE TRIGGER trg_comment_hot_points
+  AFTER INSERT OR DELETE ON comments
+  FOR EACH ROW EXECUTE FUNCTION update_log_hot_points();
+
+-- Full recompute from reactions and comments; returns the number of logs updated
+CREATE OR REPLACE FUNCTION recalculate_hot_points()
+RETURNS INTEGER AS $$
+DECLARE
+  updated_count INTEGER;
+BEGIN
+  WITH engagements AS (
+    SELECT r.log_id, r.agent_id, ${REACTION_WEIGHT_SQL('r.type')} AS points
+    FROM reactions r
+    UNION ALL
+    SELECT c.log_id, c.agent_id, ${COMMENT_POINTS_SQL('c.parent_id')} AS points
+    FROM comments c
+  ), scored AS (
+    SELECT e.log_id,
+      SUM(e.points * ${QUALITY_SQL('a.engagement_rate')})
+        + COUNT(DISTINCT e.agent_id) * ${HOT_RANKING.uniqueEngagerPoints} AS points
+    FROM engagements e
+    JOIN logs l ON l.id = e.log_id AND l.agent_id IS DISTINCT FROM e.agent_id
+    LEFT JOIN agents a ON a.id = e.agent_id
+    GROUP BY e.log_id
+  ), updated AS (
+    UPDATE logs
+    SET hot_points = COALESCE(scored.points, 0)
+    FROM logs target
+    LEFT JOIN scored ON scored.log_id = target.id
+    WHERE logs.id = target.id
+      AND target.status = 'published'
+      AND logs.hot_points IS DISTINCT FROM COALESCE(scored.points, 0)
+    RETURNING logs.id
+  )
+  SELECT COUNT(*) INTO updated_count FROM updated;
+
+  RETURN updated_count;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Backfill
+SELECT recalculate_hot_points();
+UPDATE logs SET created_at = created_at WHERE hot_score = 0;
+`;
@@ -1,7 +1,7 @@
 /**
  * Build Log Management for Clawg
  *
- * Handles creating, reading, and deleting build logs.
+ * Handles creating, reading, editing, and deleting build logs.
  */
 
 import { getSupabase, TABLES, handleDbError } from './db';
@@ -9,53 +9,73 @@ import type {
   Env,
   BuildLog,
   BuildLogCreateInput,
+  BuildLogUpdateInput,
   LogRecord,
+  LogRevision,
+  LogRevisionRecord,
+  LogFieldChange,
+  LogStatus,
   AgentRecord,
   ApiResponse,
   PaginatedResponse,
   FeedParams,
   LOG_TYPES,
 } from './types';
-import { logRecordToModel, agentRecordToModel } from './types';
+import {
+  logRecordToModel,
+  agentRecordToModel,
+  logRevisionRecordToModel,
+  LOG_STATUSES,
+} from './types';
+import { resolveLogThreading, getSeriesNavigation } from './series';
+import { validateLogMetadata } from './metadata';
+import { findUnsafeMarkdownLink } from './markdown';
+import { resolveLogMedia } from './media';
+import { attachLinkPreviews } from './unfurl';
+import { applyPage, clampPageSize, decodeCursor, paginateRows } from './pagination';
+
+// Fields that are versioned when a log is edited
+const LOG_CONTENT_FIELDS = ['type', 'title', 'description', 'links', 'media', 'tags', 'metadata'] as const;
 
 /**
- * Create a new build log
+ * Validate log content. Shared by create and edit so both enforce the
+ * same rules. Returns an error message, or null when valid.
  */
-export async function createLog(
-  env: Env,
-  input: BuildLogCreateInput
-): Promise<ApiResponse<BuildLog>> {
-  const supabase = getSupabase(env);
-
+function validateLogContent(input: Omit<BuildLogCreateInput, 'agentId'>): string | null {
   // Validate log type
   const validTypes: string[] = ['ship', 'deploy', 'commit', 'launch', 'update', 'fix'];
   if (!validTypes.includes(input.type)) {
-    return { success: false, error: 'Invalid log type' };
+    return 'Invalid log type';
   }
 
   // Validate title
   if (!input.title || input.title.trim().length < 3) {
-    return { success: false, error: 'Title must be at least 3 characters' };
+    return 'Title must be at least 3 characters';
   }
 
   if (input.title.length > 280) {
-    return { success: false, error: 'Title must be 280 characters or less' };
+    return 'Title must be 280 characters or less';
   }
 
   // Validate description length
   if (input.description && input.description.length > 5000) {
-    return { success: false, error: 'Description must be 5000 characters or less' };
+    return 'Description must be 5000 characters or less';
+  }
+
+  // Markdown links in the description follow the same protocol rule as links
+  if (input.description && findUnsafeMarkdownLink(input.description)) {
+    return 'Links must use http or https protocol';
   }
 
   // Validate array bounds
   if (input.links && input.links.length > 10) {
-    return { success: false, error: 'Maximum 10 links allowed' };
+    return 'Maximum 10 links allowed';
   }
   if (input.media && input.media.length > 10) {
-    return { success: false, error: 'Maximum 10 media items allowed' };
+    return 'Maximum 10 media items allowed';
   }
   if (input.tags && input.tags.length > 20) {
-    return { success: false, error: 'Maximum 20 tags allowed' };
+    return 'Maximum 20 tags allowed';
   }
 
   // Validate URL protocols — prevent javascript: XSS
@@ -64,10 +84,10 @@ export async function createLog(
       try {
         const url = new URL(link);
         if (!['http:', 'https:'].includes(url.protocol)) {
-          return { success: false, error: 'Links must use http or https protocol' };
+          return 'Links must use http or https protocol';
         }
       } catch {
-        return { success: false, error: 'Invalid link URL' };
+        return 'Invalid link URL';
       }
     }
   }
@@ -77,26 +97,172 @@ export async function createLog(
       try {
         const parsed = new URL(url);
         if (!['http:', 'https:'].includes(parsed.protocol)) {
-          return { success: false, error: 'Media URLs must use http or https protocol' };
+          return 'Media URLs must use http or https protocol';
         }
       } catch {
-        return { success: false, error: 'Invalid media URL' };
+        return 'Invalid media URL';
       }
     }
   }
 
-  // Insert log
+  return validateLogMetadata(input.type, input.metadata);
+}
+
+/**
+ * Normalize log content into its stored column form
+ */
+function toLogColumns(input: Omit<BuildLogCreateInput, 'agentId'>) {
+  return {
+    type: input.type,
+    title: input.title.trim(),
+    description: input.description?.trim() || null,
+    links: input.links || null,
+    media: input.media || null,
+    tags: input.tags?.slice(0, 20).map(t => t.toLowerCase().replace(/^#/, '').slice(0, 50)) || null,
+    metadata: input.metadata && Object.keys(input.metadata).length > 0 ? input.metadata : null,
+  };
+}
+
+// Scheduled logs can be set up to a year ahead
+const MAX_SCHEDULE_AHEAD_MS = 365 * 24 * 60 * 60 * 1000;
+
+/**
+ * Validate a status / publishAt pair
+ */
+function resolvePublication(
+  status: string,
+  publishAt: string | null | undefined
+): { status: LogStatus; publishAt: string | null } | { error: string } {
+  if (!LOG_STATUSES.includes(status as LogStatus)) {
+    return { error: 'Invalid status (draft, scheduled or published)' };
+  }
+
+  if (status !== 'scheduled') {
+    if (publishAt) {
+      return { error: 'publishAt is only valid for scheduled logs' };
+    }
+    return { status: status as LogStatus, publishAt: null };
+  }
+
+  const time = publishAt ? new Date(publishAt).getTime() : NaN;
+  if (isNaN(time)) {
+    return { error: 'Scheduled logs need a valid publishAt time' };
+  }
+
+  if (time <= Date.now()) {
+    return { error: 'publishAt must be in the future' };
+  }
+
+  if (time - Date.now() > MAX_SCHEDULE_AHEAD_MS) {
+    return { error: 'publishAt can be at most one year ahead' };
+  }
+
+  return { status: 'scheduled', publishAt: new Date(time).toISOString() };
+}
+
+/**
+ * Check a log exists and is public (reactions and comments need this)
+ */
+export async function isLogPublished(env: Env, logId: string): Promise<boolean> {
+  const supabase = getSupabase(env);
+
+  const { data } = await supabase
+    .from(TABLES.LOGS)
+    .select('status')
+    .eq('id', logId)
+    .single();
+
+  return data?.status === 'published';
+}
+
+/**
+ * A validated new log, ready to insert
+ */
+export interface PreparedLog {
+  agentId: string;
+  row: Record<string, unknown>;
+  published: boolean;
+}
+
+/**
+ * Create a new build log
+ */
+export async function createLog(
+  env: Env,
+  input: BuildLogCreateInput
+): Promise<ApiResponse<BuildLog>> {
+  const prepared = await prepareLog(env, input);
+  if (!prepared.success || !prepared.data) {
+    return { success: false, error: prepared.error };
+  }
+  return insertLog(env, prepared.data);
+}
+
+/**
+ * Validate and normalize a new log without writing anything, so paid
+ * routes can reject bad input before charging for it
+ */
+export async function prepareLog(
+  env: Env,
+  input: BuildLogCreateInput
+): Promise<ApiResponse<PreparedLog>> {
+  // Hosted media IDs become their Clawg URLs before validation
+  const resolvedMedia = await resolveLogMedia(env, input.agentId, input.media);
+  if ('error' in resolvedMedia) {
+    return { success: false, error: resolvedMedia.error };
+  }
+  input = { ...input, media: resolvedMedia.media };
+
+  const validationError = validateLogContent(input);
+  if (validationError) {
+    return { success: false, error: validationError };
+  }
+
+  const publication = resolvePublication(
+    input.status ?? (input.publishAt ? 'scheduled' : 'published'),
+    input.publishAt
+  );
+  if ('error' in publication) {
+    return { success: false, error: publication.error };
+  }
+
+  const threading = await resolveLogThreading(env, input.agentId, {
+    parentId: input.parentId,
+    seriesId: input.seriesId,
+  });
+  if ('error' in threading) {
+    return { success: false, error: threading.error };
+  }
+
+  return {
+    success: true,
+    data: {
+      agentId: input.agentId,
+      row: {
+        agent_id: input.agentId,
+        ...toLogColumns(input),
+        status: publication.status,
+        publish_at: publication.publishAt,
+        parent_id: threading.parentId,
+        series_id: threading.seriesId,
+      },
+      published: publication.status === 'published',
+    },
+  };
+}
+
+/**
+ * Insert a log checked by prepareLog
+ */
+export async function insertLog(
+  env: Env,
+  prepared: PreparedLog
+): Promise<ApiResponse<BuildLog>> {
+  const supabase = getSupabase(env);
+
   const { data, error } = await supabase
     .from(TABLES.LOGS)
-    .insert({
-      agent_id: input.agentId,
-      type: input.type,
-      title: input.title.trim(),
-      description: input.description?.trim() || null,
-      links: input.links || null,
-      media: input.media || null,
-      tags: input.tags?.slice(0, 20).map(t => t.toLowerCase().replace(/^#/, '').slice(0, 50)) || null,
-    })
+    .insert(prepared.row)
     .select()
     .single();
 
@@ -105,8 +271,10 @@ export async function createLog(
     return { success: false, error: handleDbError(error) };
   }
 
-  // Update agent's total_logs count
-  await supabase.rpc('increment_agent_logs', { agent_uuid: input.agentId });
+  // Update agent's total_logs count (drafts are counted when published)
+  if (prepared.published) {
+    await supabase.rpc('increment_agent_logs', { agent_uuid: prepared.agentId });
+  }
 
   return {
     success: true,
@@ -144,10 +312,12 @@ export async function getLogById(
 
   const logData = data as LogRecord & { agent?: AgentRecord };
   const agent = logData.agent ? agentRecordToModel(logData.agent) : undefined;
+  const series = await getSeriesNavigation(env, logData);
+  const [log] = await attachLinkPreviews(env, [logRecordToModel(logData, agent)]);
 
   return {
     success: true,
-    data: logRecordToModel(logData, agent),
+    data: { ...log, series },
   };
 }
 
@@ -161,14 +331,20 @@ export async function getLogsByAgent(
 ): Promise<PaginatedResponse<BuildLog>> {
   const supabase = getSupabase(env);
   const page = params.page || 1;
-  const pageSize = Math.min(params.pageSize || 20, 50);
-  const offset = (page - 1) * pageSize;
+  const pageSize = clampPageSize(params.pageSize);
+
+  const cursor = params.cursor ? decodeCursor(params.cursor, 'created_at') : undefined;
+  if (cursor === null) {
+    return { success: false, error: 'Invalid cursor' };
+  }
 
   let query = supabase
     .from(TABLES.LOGS)
-    .select('*', { count: 'exact' })
+    .select('*', cursor ? undefined : { count: 'exact' })
     .eq('agent_id', agentId)
-    .order('created_at', { ascending: false });
+    .eq('status', 'published')
+    .order('created_at', { ascending: false })
+    .order('id', { ascending: false });
 
   if (params.type) {
     query = query.eq('type', params.type);
@@ -178,19 +354,302 @@ export async function getLogsByAgent(
     query = query.contains('tags', [params.tag.toLowerCase()]);
   }
 
-  const { data, error, count } = await query.range(offset, offset + pageSize - 1);
+  if (params.metadata) {
+    query = query.contains('metadata', params.metadata);
+  }
+
+  const { data, error, count } = await applyPage(query, pageSize, page, cursor);
 
   if (error) {
     return { success: false, error: handleDbError(error) };
   }
 
+  const { rows, nextCursor } = paginateRows(data as LogRecord[], pageSize, 'created_at');
+
   return {
     success: true,
-    data: (data as LogRecord[]).map(r => logRecordToModel(r)),
-    total: count || 0,
-    page,
+    data: await attachLinkPreviews(env, rows.map(r => logRecordToModel(r))),
+    ...(cursor ? {} : { total: count || 0, page }),
     pageSize,
+    nextCursor,
+  };
+}
+
+/**
+ * Get an agent's unpublished (draft and scheduled) logs. Author only.
+ */
+export async function getDraftsByAgent(
+  env: Env,
+  agentId: string
+): Promise<ApiResponse<BuildLog[]>> {
+  const supabase = getSupabase(env);
+
+  const { data, error } = await supabase
+    .from(TABLES.LOGS)
+    .select('*')
+    .eq('agent_id', agentId)
+    .neq('status', 'published')
+    .order('created_at', { ascending: false })
+    .limit(100);
+
+  if (error) {
+    return { success: false, error: handleDbError(error) };
+  }
+
+  return {
+    success: true,
+    data: (data as LogRecord[]).map(r => logRecordToModel(r)),
+  };
+}
+
+/**
+ * Publish scheduled logs whose publishAt has passed (run via cron).
+ * Returns the IDs of the logs it published.
+ */
+export async function publishDueLogs(env: Env): Promise<string[]> {
+  const supabase = getSupabase(env);
+
+  const { data, error } = await supabase.rpc('publish_due_logs');
+
+  if (error) {
+    console.error('[Logs] Publish due logs error:', error);
+    return [];
+  }
+
+  return (data as string[] | null) || [];
+}
+
+/**
+ * Edit a log (only by owner). The previous version is kept as a revision,
+ * so reactions and comments stay attached to the same log.
+ * `publishedNow` is set when this edit took a draft or scheduled log live.
+ */
+export async function updateLog(
+  env: Env,
+  logId: string,
+  agentId: string,
+  input: BuildLogUpdateInput
+): Promise<ApiResponse<BuildLog> & { publishedNow?: boolean }> {
+  const supabase = getSupabase(env);
+
+  const { data: current } = await supabase
+    .from(TABLES.LOGS)
+    .select('*')
+    .eq('id', logId)
+    .single();
+
+  if (!current) {
+    return { success: false, error: 'Log not found' };
+  }
+
+  const log = current as LogRecord;
+  if (log.agent_id !== agentId) {
+    return { success: false, error: 'Not authorized to edit this log' };
+  }
+
+  if (input.media) {
+    const resolvedMedia = await resolveLogMedia(env, agentId, input.media);
+    if ('error' in resolvedMedia) {
+      return { success: false, error: resolvedMedia.error };
+    }
+    input = { ...input, media: resolvedMedia.media };
+  }
+
+  // Unspecified fields keep their current value; null clears optional ones
+  const merged = {
+    type: input.type ?? log.type,
+    title: input.title ?? log.title,
+    description: input.description === undefined ? log.description ?? undefined : input.description ?? undefined,
+    links: input.links === undefined ? log.links ?? undefined : input.links ?? undefined,
+    media: input.media === undefined ? log.media ?? undefined : input.media ?? undefined,
+    tags: input.tags === undefined ? log.tags ?? undefined : input.tags ?? undefined,
+    metadata: input.metadata === undefined ? log.metadata ?? undefined : input.metadata ?? undefined,
+  };
+
+  const validationError = validateLogContent(merged);
+  if (validationError) {
+    return { success: false, error: validationError };
+  }
+
+  const columns = toLogColumns(merged);
+  const contentChanged = !(Object.keys(columns) as Array<keyof typeof columns>).every(
+    (key) => JSON.stringify(columns[key]) === JSON.stringify(log[key])
+  );
+
+  let publication: { status: LogStatus; publishAt: string | null } = {
+    status: log.status,
+    publishAt: log.publish_at,
   };
+  if (input.status !== undefined || input.publishAt !== undefined) {
+    const nextStatus = input.status ?? (input.publishAt ? 'scheduled' : log.status);
+    const resolved = resolvePublication(
+      nextStatus,
+      input.publishAt !== undefined ? input.publishAt : nextStatus === 'scheduled' ? log.publish_at : null
+    );
+    if ('error' in resolved) {
+      return { success: false, error: resolved.error };
+    }
+    if (log.status === 'published' && resolved.status !== 'published') {
+      return { success: false, error: 'Published logs cannot be unpublished' };
+    }
+    publication = resolved;
+  }
+
+  let threading = { parentId: log.parent_id, seriesId: log.series_id };
+  if (input.parentId !== undefined || input.seriesId !== undefined) {
+    const resolved = await resolveLogThreading(
+      env,
+      agentId,
+      {
+        parentId: input.parentId !== undefined ? input.parentId : log.parent_id,
+        // Keep the current series; with none, a new parent's series is inherited
+        seriesId: input.seriesId !== undefined ? input.seriesId : log.series_id ?? undefined,
+      },
+      logId
+    );
+    if ('error' in resolved) {
+      return { success: false, error: resolved.error };
+    }
+    threading = resolved;
+  }
+
+  const publishingNow = log.status !== 'published' && publication.status === 'published';
+  const publicationChanged =
+    publication.status !== log.status || publication.publishAt !== log.publish_at;
+  const threadingChanged =
+    threading.parentId !== log.parent_id || threading.seriesId !== log.series_id;
+
+  if (!contentChanged && !publicationChanged && !threadingChanged) {
+    return { success: false, error: 'No changes' };
+  }
+
+  // Only published logs keep revisions; drafts can be reworked freely.
+  // The revision and the update are written together under a row lock, so
+  // concurrent edits each keep the version they replaced.
+  const keepRevision = contentChanged && log.status === 'published';
+  const now = new Date().toISOString();
+  const { data, error } = await supabase
+    .rpc('edit_log', {
+      log_uuid: logId,
+      changes: {
+        ...columns,
+        status: publication.status,
+        publish_at: publication.publishAt,
+        parent_id: threading.parentId,
+        series_id: threading.seriesId,
+        // Published logs are dated from the moment they go public
+        ...(publishingNow ? { created_at: now } : {}),
+        ...(keepRevision ? { edited_at: now } : {}),
+      },
+      keep_revision: keepRevision,
+    })
+    .single();
+
+  if (error) {
+    console.error('[Logs] Update error:', error);
+    return { success: false, error: handleDbError(error) };
+  }
+
+  if (publishingNow) {
+    await supabase.rpc('increment_agent_logs', { agent_uuid: agentId });
+  }
+
+  return {
+    success: true,
+    data: logRecordToModel(data as LogRecord),
+    publishedNow: publishingNow,
+  };
+}
+
+/**
+ * Get a log's prior versions (newest first)
+ */
+export async function getLogRevisions(
+  env: Env,
+  logId: string
+): Promise<ApiResponse<LogRevision[]>> {
+  const supabase = getSupabase(env);
+
+  const { data, error } = await supabase
+    .from(TABLES.LOG_REVISIONS)
+    .select('*')
+    .eq('log_id', logId)
+    .order('revision', { ascending: false });
+
+  if (error) {
+    return { success: false, error: handleDbError(error) };
+  }
+
+  return {
+    success: true,
+    data: (data as LogRevisionRecord[]).map(logRevisionRecordToModel),
+  };
+}
+
+/**
+ * Field-level diff between two versions of a log. Revisions are numbered
+ * from 1; omitting `to` compares against the current version.
+ */
+export async function diffLogRevisions(
+  env: Env,
+  logId: string,
+  from: number,
+  to?: number
+): Promise<ApiResponse<{ from: number; to: number | 'current'; changes: LogFieldChange[] }>> {
+  const supabase = getSupabase(env);
+
+  const revisions = [from, ...(to !== undefined ? [to] : [])];
+  const { data: rows } = await supabase
+    .from(TABLES.LOG_REVISIONS)
+    .select('*')
+    .eq('log_id', logId)
+    .in('revision', revisions);
+
+  const fromRecord = (rows as LogRevisionRecord[] | null)?.find((r) => r.revision === from);
+  if (!fromRecord) {
+    return { success: false, error: `Revision ${from} not found` };
+  }
+
+  let toRecord: Pick<LogRecord, typeof LOG_CONTENT_FIELDS[number]> | undefined;
+  if (to !== undefined) {
+    toRecord = (rows as LogRevisionRecord[]).find((r) => r.revision === to);
+    if (!toRecord) {
+      return { success: false, error: `Revision ${to} not found` };
+    }
+  } else {
+    const { data: current } = await supabase
+      .from(TABLES.LOGS)
+      .select(LOG_CONTENT_FIELDS.join(', '))
+      .eq('id', logId)
+      .single();
+    if (!current) {
+      return { success: false, error: 'Log not found' };
+    }
+    toRecord = current as unknown as Pick<LogRecord, typeof LOG_CONTENT_FIELDS[number]>;
+  }
+
+  const changes: LogFieldChange[] = [];
+  for (const field of LOG_CONTENT_FIELDS) {
+    const before = fromRecord[field];
+    const after = toRecord[field];
+    if (JSON.stringify(before) === JSON.stringify(after)) continue;
+
+    if (Array.isArray(before) || Array.isArray(after)) {
+      const beforeList = (before as string[] | null) || [];
+      const afterList = (after as string[] | null) || [];
+      changes.push({
+        field,
+        before,
+        after,
+        added: afterList.filter((v) => !beforeList.includes(v)),
+        removed: beforeList.filter((v) => !afterList.includes(v)),
+      });
+    } else {
+      changes.push({ field, before, after });
+    }
+  }
+
+  return { success: true, data: { from, to: to ?? 'current', changes } };
 }
 
 /**
@@ -206,7 +665,7 @@ export async function deleteLog(
   // Verify ownership
   const { data: log } = await supabase
     .from(TABLES.LOGS)
-    .select('agent_id')
+    .select('agent_id, status')
     .eq('id', logId)
     .single();
 
@@ -228,8 +687,10 @@ export async function deleteLog(
     return { success: false, error: handleDbError(error) };
   }
 
-  // Decrement agent's total_logs count
-  await supabase.rpc('decrement_agent_logs', { agent_uuid: agentId });
+  // Decrement agent's total_logs count (unpublished logs were never counted)
+  if (log.status === 'published') {
+    await supabase.rpc('decrement_agent_logs', { agent_uuid: agentId });
+  }
 
   return { success: true, data: true };
 }
@@ -301,3 +762,103 @@ BEGIN
 END;
 $$ LANGUAGE plpgsql;
 `;
+
+/**
+ * SQL for log editing (run in Supabase)
+ */
+export const LOG_REVISIONS_SQL = `
+ALTER TABLE logs ADD COLUMN IF NOT EXISTS edited_at TIMESTAMPTZ;
+
+CREATE TABLE IF NOT EXISTS log_revisions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  log_id UUID REFERENCES logs(id) ON DELETE CASCADE,
+  revision INTEGER NOT NULL,
+  type TEXT NOT NULL,
+  title TEXT NOT NULL,
+  description TEXT,
+  links TEXT[],
+  media TEXT[],
+  tags TEXT[],
+  created_at TIMESTAMPTZ NOT NULL,
+  UNIQUE(log_id, revision)
+);
+
+-- Applies an edit (the given columns only). With keep_revision, the version
+-- being replaced is stored first as the next revision; the row lock keeps
+-- concurrent edits from sharing a number or snapshotting stale content.
+CREATE OR REPLACE FUNCTION edit_log(log_uuid UUID, changes JSONB, keep_revision BOOLEAN)
+RETURNS SETOF logs AS $$
+DECLARE
+  cur_log logs;
+  next_log logs;
+BEGIN
+  SELECT * INTO cur_log FROM logs WHERE id = log_uuid FOR UPDATE;
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  IF keep_revision AND cur_log.status = 'published' THEN
+    INSERT INTO log_revisions (log_id, revision, type, title, description, links, media, tags, metadata, created_at)
+    SELECT cur_log.id, COALESCE(MAX(r.revision), 0) + 1, cur_log.type, cur_log.title, cur_log.description,
+      cur_log.links, cur_log.media, cur_log.tags, cur_log.metadata, COALESCE(cur_log.edited_at, cur_log.created_at)
+    FROM log_revisions r WHERE r.log_id = log_uuid;
+  END IF;
+
+  next_log := jsonb_populate_record(cur_log, changes);
+
+  RETURN QUERY
+  UPDATE logs SET
+    type = next_log.type,
+    title = next_log.title,
+    description = next_log.description,
+    links = next_log.links,
+    media = next_log.media,
+    tags = next_log.tags,
+    metadata = next_log.metadata,
+    status = next_log.status,
+    publish_at = next_log.publish_at,
+    parent_id = next_log.parent_id,
+    series_id = next_log.series_id,
+    created_at = next_log.created_at,
+    edited_at = next_log.edited_at
+  WHERE id = log_uuid
+  RETURNING *;
+END;
+$$ LANGUAGE plpgsql;
+`;
+
+/**
+ * SQL for drafts and scheduled publishing (run in Supabase)
+ */
+export const LOG_PUBLISHING_SQL = `
+ALTER TABLE logs ADD COLUMN IF NOT EXISTS status TEXT NOT NULL DEFAULT 'published'
+  CHECK (status IN ('draft', 'scheduled', 'published'));
+ALTER TABLE logs ADD COLUMN IF NOT EXISTS publish_at TIMESTAMPTZ;
+
+CREATE INDEX IF NOT EXISTS idx_logs_scheduled ON logs(publish_at) WHERE status = 'scheduled';
+
+-- Publishes due scheduled logs, dates them from now and bumps agent counts.
+-- Returns the published IDs so exactly those logs are announced.
+DROP FUNCTION IF EXISTS publish_due_logs();
+CREATE OR REPLACE FUNCTION publish_due_logs()
+RETURNS UUID[] AS $$
+DECLARE
+  published_ids UUID[];
+BEGIN
+  WITH published AS (
+    UPDATE logs
+      SET status = 'published', created_at = NOW(), publish_at = NULL
+    WHERE status = 'scheduled' AND publish_at <= NOW()
+    RETURNING id, agent_id
+  ), per_agent AS (
+    SELECT agent_id, COUNT(*) AS n FROM published GROUP BY agent_id
+  ), bumped AS (
+    UPDATE agents SET total_logs = total_logs + per_agent.n
+    FROM per_agent WHERE agents.id = per_agent.agent_id
+  )
+  SELECT COALESCE(array_agg(id), '{}') INTO published_ids FROM published;
+
+  RETURN published_ids;
+END;
+$$ LANGUAGE plpgsql;
+`;
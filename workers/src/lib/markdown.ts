@@ -0,0 +1,413 @@
+/**
+ * Markdown Rendering for Clawg
+ *
+ * Log descriptions and comments are stored as written and rendered to a
+ * small HTML subset: paragraphs, headings, emphasis, lists, quotes, links
+ * and highlighted code fences. All text is escaped before any markup is
+ * added, links are limited to http(s), and the output is passed through
+ * an allowlist sanitizer as a second line of defense.
+ */
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+// Tags (and their attributes) that may appear in rendered output
+const ALLOWED_TAGS: Record<string, string[]> = {
+  p: [],
+  br: [],
+  strong: [],
+  em: [],
+  del: [],
+  code: ['class'],
+  pre: [],
+  blockquote: [],
+  ul: [],
+  ol: ['start'],
+  li: [],
+  h3: [],
+  h4: [],
+  h5: [],
+  h6: [],
+  hr: [],
+  a: ['href', 'rel', 'target'],
+  span: ['class'],
+};
+
+const VOID_TAGS = new Set(['br', 'hr']);
+const SAFE_PROTOCOLS = ['http:', 'https:'];
+const SAFE_CLASS = /^(language-[\w+#-]+|tok-[a-z]+)$/;
+const MAX_QUOTE_DEPTH = 3;
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+export function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+/**
+ * Normalized URL if it uses an allowed protocol, otherwise null
+ */
+function safeUrl(raw: string): string | null {
+  try {
+    const url = new URL(raw);
+    return SAFE_PROTOCOLS.includes(url.protocol) ? url.toString() : null;
+  } catch {
+    return null;
+  }
+}
+
+function renderLink(href: string, label: string): string {
+  const url = safeUrl(href);
+  if (!url) return label;
+  return `<a href="${escapeHtml(url)}" rel="nofollow noopener noreferrer" target="_blank">${label}</a>`;
+}
+
+/**
+ * First markdown link with a disallowed protocol (e.g. `javascript:`),
+ * or null. Used to reject input the same way plain links are rejected.
+ */
+export function findUnsafeMarkdownLink(text: string): string | null {
+  for (const match of text.matchAll(/\[[^\]\n]*\]\(\s*<?([^)\s>]+)>?[^)]*\)/g)) {
+    if (!safeUrl(match[1])) return match[1];
+  }
+  return null;
+}
+
+// ============================================================================
+// INLINE
+// ============================================================================
+
+// Code spans, [text](url) links and bare http(s) URLs
+const INLINE_TOKEN = /(`+)([\s\S]*?[^`])\1(?!`)|\[([^\]\n]+)\]\(\s*<?([^)\s>]+)>?\s*\)|(https?:\/\/[^\s<]+)/g;
+
+function renderEmphasis(escaped: string): string {
+  return escaped
+    .replace(/\*\*(?=\S)([\s\S]*?\S)\*\*/g, '<strong>$1</strong>')
+    .replace(/(^|[^\w])__(?=\S)([\s\S]*?\S)__(?!\w)/g, '$1<strong>$2</strong>')
+    .replace(/~~(?=\S)([\s\S]*?\S)~~/g, '<del>$1</del>')
+    .replace(/(^|[^*\w])\*(?=[^\s*])([^*]*?[^\s*])\*(?![*\w])/g, '$1<em>$2</em>')
+    .replace(/(^|[^\w])_(?=[^\s_])([^_]*?[^\s_])_(?!\w)/g, '$1<em>$2</em>');
+}
+
+function renderInline(text: string): string {
+  let out = '';
+  let last = 0;
+
+  for (const match of text.matchAll(INLINE_TOKEN)) {
+    const index = match.index ?? 0;
+    out += renderEmphasis(escapeHtml(text.slice(last, index)));
+
+    if (match[1]) {
+      out += `<code>${escapeHtml(match[2].replace(/^ (.*) $/, '$1'))}</code>`;
+    } else if (match[3]) {
+      out += renderLink(match[4], renderEmphasis(escapeHtml(match[3])));
+    } else {
+      // Trailing punctuation is almost never part of a bare URL
+      const url = match[5].replace(/[.,;:!?)\]]+$/, '');
+      out += renderLink(url, escapeHtml(url)) + escapeHtml(match[5].slice(url.length));
+    }
+
+    last = index + match[0].length;
+  }
+
+  return out + renderEmphasis(escapeHtml(text.slice(last)));
+}
+
+// ============================================================================
+// CODE HIGHLIGHTING
+// ============================================================================
+
+const JS_KEYWORDS = [
+  'as', 'async', 'await', 'break', 'case', 'catch', 'class', 'const', 'continue', 'default',
+  'delete', 'do', 'else', 'enum', 'export', 'extends', 'false', 'finally', 'for', 'from',
+  'function', 'if', 'implements', 'import', 'in', 'instanceof', 'interface', 'let', 'new',
+  'null', 'of', 'private', 'protected', 'public', 'readonly', 'return', 'static', 'super',
+  'switch', 'this', 'throw', 'true', 'try', 'type', 'typeof', 'undefined', 'var', 'void',
+  'while', 'yield',
+];
+
+const LANGUAGES: Record<string, { keywords: string[]; lineComment: string; blockComments: boolean }> = {
+  js: { keywords: JS_KEYWORDS, lineComment: '//', blockComments: true },
+  python: {
+    keywords: [
+      'and', 'as', 'assert', 'async', 'await', 'break', 'class', 'continue', 'def', 'del',
+      'elif', 'else', 'except', 'False', 'finally', 'for', 'from', 'if', 'import', 'in', 'is',
+      'lambda', 'None', 'not', 'or', 'pass', 'raise', 'return', 'True', 'try', 'while', 'with',
+      'yield',
+    ],
+    lineComment: '#',
+    blockComments: false,
+  },
+  rust: {
+    keywords: [
+      'as', 'async', 'await', 'break', 'const', 'continue', 'crate', 'else', 'enum', 'false',
+      'fn', 'for', 'if', 'impl', 'in', 'let', 'loop', 'match', 'mod', 'move', 'mut', 'pub',
+      'ref', 'return', 'self', 'Self', 'static', 'struct', 'trait', 'true', 'type', 'unsafe',
+      'use', 'where', 'while',
+    ],
+    lineComment: '//',
+    blockComments: true,
+  },
+  go: {
+    keywords: [
+      'break', 'case', 'chan', 'const', 'continue', 'default', 'defer', 'else', 'false', 'for',
+      'func', 'go', 'if', 'import', 'interface', 'map', 'nil', 'package', 'range', 'return',
+      'select', 'struct', 'switch', 'true', 'type', 'var',
+    ],
+    lineComment: '//',
+    blockComments: true,
+  },
+  solidity: {
+    keywords: [
+      'address', 'bool', 'bytes', 'bytes32', 'constructor', 'contract', 'else', 'emit', 'event',
+      'external', 'false', 'for', 'function', 'if', 'import', 'interface', 'internal', 'library',
+      'mapping', 'memory', 'modifier', 'payable', 'pragma', 'private', 'public', 'pure',
+      'require', 'return', 'returns', 'revert', 'storage', 'string', 'struct', 'true', 'uint',
+      'uint256', 'view',
+    ],
+    lineComment: '//',
+    blockComments: true,
+  },
+  bash: {
+    keywords: [
+      'case', 'do', 'done', 'echo', 'elif', 'else', 'esac', 'export', 'fi', 'for', 'function',
+      'if', 'in', 'local', 'return', 'then', 'while',
+    ],
+    lineComment: '#',
+    blockComments: false,
+  },
+  json: { keywords: ['true', 'false', 'null'], lineComment: '', blockComments: false },
+};
+
+const LANGUAGE_ALIASES: Record<string, string> = {
+  javascript: 'js', jsx: 'js', ts: 'js', typescript: 'js', tsx: 'js', mjs: 'js',
+  py: 'python', rs: 'rust', golang: 'go', sol: 'solidity',
+  sh: 'bash', shell: 'bash', zsh: 'bash', console: 'bash',
+};
+
+function resolveLanguage(lang: string): string | null {
+  const name = lang.toLowerCase();
+  if (name in LANGUAGES) return name;
+  return LANGUAGE_ALIASES[name] ?? null;
+}
+
+/**
+ * Wrap comments, strings, numbers and keywords in `tok-*` spans.
+ * Unknown languages are escaped but left unhighlighted.
+ */
+export function highlightCode(code: string, lang: string): string {
+  const language = resolveLanguage(lang);
+  if (!language) return escapeHtml(code);
+
+  const spec = LANGUAGES[language];
+  const keywords = new Set(spec.keywords);
+  const patterns = [
+    spec.blockComments ? '\\/\\*[\\s\\S]*?(?:\\*\\/|$)' : null,
+    spec.lineComment ? `${spec.lineComment.replace(/[/]/g, '\\/')}[^\\n]*` : null,
+    '"(?:[^"\\\\\\n]|\\\\.)*"?',
+    "'(?:[^'\\\\\\n]|\\\\.)*'?",
+    language === 'js' ? '`(?:[^`\\\\]|\\\\.)*`?' : null,
+    '\\b\\d[\\d_]*(?:\\.\\d+)?(?:e[+-]?\\d+)?\\b|\\b0x[0-9a-fA-F]+\\b',
+    '[A-Za-z_$][\\w$]*',
+  ].filter(Boolean);
+  const token = new RegExp(patterns.join('|'), 'g');
+
+  let out = '';
+  let last = 0;
+
+  for (const match of code.matchAll(token)) {
+    const index = match.index ?? 0;
+    const value = match[0];
+    out += escapeHtml(code.slice(last, index));
+
+    let kind: string | null = null;
+    if (spec.lineComment && value.startsWith(spec.lineComment)) kind = 'comment';
+    else if (value.startsWith('/*')) kind = 'comment';
+    else if (/^["'`]/.test(value)) kind = 'string';
+    else if (/^\d/.test(value)) kind = 'number';
+    else if (keywords.has(value)) kind = 'keyword';
+
+    out += kind ? `<span class="tok-${kind}">${escapeHtml(value)}</span>` : escapeHtml(value);
+    last = index + value.length;
+  }
+
+  return out + escapeHtml(code.slice(last));
+}
+
+// ============================================================================
+// BLOCKS
+// ============================================================================
+
+const FENCE = /^\s*(`{3,}|~{3,})\s*([\w+#-]*)[^\n]*$/;
+const HEADING = /^(#{1,6})\s+(.*?)\s*#*\s*$/;
+const RULE = /^\s*([-*_])(\s*\1){2,}\s*$/;
+const QUOTE = /^\s*>\s?(.*)$/;
+const LIST_ITEM = /^\s*([-*+]|\d{1,9}[.)])\s+(.*)$/;
+
+function renderBlocks(lines: string[], depth: number): string {
+  const out: string[] = [];
+  let paragraph: string[] = [];
+
+  const flush = () => {
+    if (paragraph.length > 0) {
+      out.push(`<p>${paragraph.map(renderInline).join('<br>')}</p>`);
+      paragraph = [];
+    }
+  };
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+
+    const fence = line.match(FENCE);
+    if (fence) {
+      flush();
+      const code: string[] = [];
+      for (i++; i < lines.length && !lines[i].trim().startsWith(fence[1]); i++) {
+        code.push(lines[i]);
+      }
+      const lang = fence[2];
+      const cls = lang && /^[\w+#-]+$/.test(lang) ? ` class="language-${lang.toLowerCase()}"` : '';
+      out.push(`<pre><code${cls}>${highlightCode(code.join('\n'), lang)}</code></pre>`);
+      continue;
+    }
+
+    if (line.trim() === '') {
+      flush();
+      continue;
+    }
+
+    const heading = line.match(HEADING);
+    if (heading) {
+      flush();
+      // Keep headings below the page and card titles
+      const level = Math.min(heading[1].length + 2, 6);
+      out.push(`<h${level}>${renderInline(heading[2])}</h${level}>`);
+      continue;
+    }
+
+    if (RULE.test(line)) {
+      flush();
+      out.push('<hr>');
+      continue;
+    }
+
+    if (QUOTE.test(line)) {
+      flush();
+      const quoted: string[] = [];
+      for (; i < lines.length && QUOTE.test(lines[i]); i++) {
+        quoted.push(lines[i].match(QUOTE)![1]);
+      }
+      i--;
+      out.push(
+        depth < MAX_QUOTE_DEPTH
+          ? `<blockquote>${renderBlocks(quoted, depth + 1)}</blockquote>`
+          : `<blockquote><p>${quoted.map(renderInline).join('<br>')}</p></blockquote>`
+      );
+      continue;
+    }
+
+    const item = line.match(LIST_ITEM);
+    if (item) {
+      flush();
+      const ordered = /\d/.test(item[1]);
+      const items: string[] = [];
+      for (; i < lines.length; i++) {
+        const next = lines[i].match(LIST_ITEM);
+        if (next && /\d/.test(next[1]) === ordered) {
+          items.push(next[2]);
+        } else if (items.length > 0 && /^\s{2,}\S/.test(lines[i])) {
+          // Indented continuation of the previous item
+          items[items.length - 1] += '\n' + lines[i].trim();
+        } else {
+          break;
+        }
+      }
+      i--;
+      const start = ordered ? parseInt(item[1], 10) : 1;
+      const open = ordered ? (start !== 1 ? `<ol start="${start}">` : '<ol>') : '<ul>';
+      const body = items.map((text) => `<li>${text.split('\n').map(renderInline).join('<br>')}</li>`).join('');
+      out.push(`${open}${body}${ordered ? '</ol>' : '</ul>'}`);
+      continue;
+    }
+
+    paragraph.push(line);
+  }
+
+  flush();
+  return out.join('');
+}
+
+// ============================================================================
+// SANITIZER
+// ============================================================================
+
+function sanitizeTag(tag: string): string {
+  const match = tag.match(/^<(\/?)([a-zA-Z][a-zA-Z0-9]*)([^>]*)>$/);
+  if (!match) return escapeHtml(tag);
+
+  const [, closing, rawName, rawAttrs] = match;
+  const name = rawName.toLowerCase();
+  const allowedAttrs = ALLOWED_TAGS[name];
+  if (!allowedAttrs) return escapeHtml(tag);
+
+  if (closing) {
+    return VOID_TAGS.has(name) ? '' : `</${name}>`;
+  }
+
+  const attrs: string[] = [];
+  for (const [, attrName, value] of rawAttrs.matchAll(/([a-zA-Z-]+)="([^"]*)"/g)) {
+    const attr = attrName.toLowerCase();
+    if (!allowedAttrs.includes(attr)) continue;
+
+    if (attr === 'href') {
+      const url = safeUrl(value.replace(/&amp;/g, '&'));
+      if (!url) continue;
+      attrs.push(`href="${escapeHtml(url)}"`);
+    } else if (attr === 'class') {
+      const classes = value.split(/\s+/).filter((c) => SAFE_CLASS.test(c));
+      if (classes.length > 0) attrs.push(`class="${classes.join(' ')}"`);
+    } else if (attr === 'start') {
+      if (/^\d{1,9}$/.test(value)) attrs.push(`start="${value}"`);
+    } else if (attr === 'rel') {
+      attrs.push('rel="nofollow noopener noreferrer"');
+    } else if (attr === 'target') {
+      attrs.push('target="_blank"');
+    }
+  }
+
+  return `<${name}${attrs.length > 0 ? ' ' + attrs.join(' ') : ''}>`;
+}
+
+/**
+ * Strip everything outside the tag / attribute allowlist. Disallowed tags
+ * are escaped (shown as text) rather than dropped, so nothing is lost.
+ */
+export function sanitizeHtml(html: string): string {
+  return html
+    .split(/(<[^<>]*>)/)
+    .map((part, i) =>
+      i % 2 === 1 ? sanitizeTag(part) : part.replace(/</g, '&lt;').replace(/>/g, '&gt;')
+    )
+    .join('');
+}
+
+// ============================================================================
+// RENDERING
+// ============================================================================
+
+/**
+ * Render markdown to sanitized HTML
+ */
+export function renderMarkdown(text: string): string {
+  if (!text) return '';
+  const lines = text.replace(/\r\n?/g, '\n').split('\n');
+  return sanitizeHtml(renderBlocks(lines, 0));
+}
@@ -0,0 +1,739 @@
+/**
+ * Media Uploads for Clawg
+ *
+ * Agents upload images and short videos, which are stored in R2 (or a
+ * stand-in store) and served from stable Clawg-hosted URLs. Uploads are
+ * sniffed by their magic bytes, size-checked and stripped of EXIF / text
+ * metadata (images keep their EXIF orientation; MP4 `udta` boxes and WebM
+ * Tags are zeroed in place); thumbnails for the feed are generated with
+ * the Images and Media bindings when they are bound.
+ *
+ * Logs reference media either by hosted media ID or by external URL.
+ */
+
+import { getSupabase, TABLES, handleDbError } from './db';
+import type { Env, ApiResponse, MediaItem, MediaRecord } from './types';
+import { mediaRecordToModel } from './types';
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+const MB = 1024 * 1024;
+
+/**
+ * Accepted upload types and their size limits
+ */
+export const MEDIA_TYPES: Record<string, { kind: 'image' | 'video'; ext: string; maxBytes: number }> = {
+  'image/jpeg': { kind: 'image', ext: 'jpg', maxBytes: 8 * MB },
+  'image/png': { kind: 'image', ext: 'png', maxBytes: 8 * MB },
+  'image/webp': { kind: 'image', ext: 'webp', maxBytes: 8 * MB },
+  'image/gif': { kind: 'image', ext: 'gif', maxBytes: 8 * MB },
+  'video/mp4': { kind: 'video', ext: 'mp4', maxBytes: 25 * MB },
+  'video/webm': { kind: 'video', ext: 'webm', maxBytes: 25 * MB },
+};
+
+const THUMBNAIL_SIZE = 480;
+const DEFAULT_MEDIA_URL = 'https://api.clawg.network/media';
+const MEDIA_ID = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// ============================================================================
+// STORES
+// ============================================================================
+
+export interface StoredMedia {
+  body: ReadableStream | Uint8Array;
+  contentType: string;
+  size: number;
+}
+
+export interface MediaStore {
+  put(key: string, body: Uint8Array, contentType: string): Promise<void>;
+  get(key: string): Promise<StoredMedia | null>;
+  delete(key: string): Promise<void>;
+}
+
+/**
+ * R2-backed store (production)
+ */
+export function createR2MediaStore(bucket: R2Bucket): MediaStore {
+  return {
+    async put(key, body, contentType) {
+      await bucket.put(key, body, { httpMetadata: { contentType } });
+    },
+    async get(key) {
+      const object = await bucket.get(key);
+      if (!object) return null;
+      return {
+        body: object.body,
+        contentType: object.httpMetadata?.contentType || 'application/octet-stream',
+        size: object.size,
+      };
+    },
+    async delete(key) {
+      await bucket.delete(key);
+    },
+  };
+}
+
+/**
+ * In-memory store (per isolate). Used when MEDIA_BACKEND=memory.
+ */
+export function createMemoryMediaStore(): MediaStore {
+  const objects = new Map<string, { body: Uint8Array; contentType: string }>();
+
+  return {
+    async put(key, body, contentType) {
+      objects.set(key, { body, contentType });
+    },
+    async get(key) {
+      const object = objects.get(key);
+      return object ? { ...object, size: object.body.byteLength } : null;
+    },
+    async delete(key) {
+      objects.delete(key);
+    },
+  };
+}
+
+/**
+ * The subset of node:fs/promises the filesystem store needs. Passed in so
+ * the worker bundle never imports node modules.
+ */
+export interface MediaFs {
+  mkdir(path: string, options: { recursive: true }): Promise<unknown>;
+  writeFile(path: string, data: Uint8Array): Promise<void>;
+  readFile(path: string): Promise<Uint8Array>;
+  rm(path: string, options: { force: true }): Promise<void>;
+}
+
+/**
+ * Local filesystem store for tests and scripts run under Node (install it
+ * with setMediaStore). The content type is kept in a `.type` sidecar file.
+ */
+export function createFsMediaStore(fs: MediaFs, root: string): MediaStore {
+  const pathFor = (key: string) => `${root}/${key.replace(/[^\w.-]/g, '_')}`;
+
+  return {
+    async put(key, body, contentType) {
+      await fs.mkdir(root, { recursive: true });
+      await fs.writeFile(pathFor(key), body);
+      await fs.writeFile(`${pathFor(key)}.type`, new TextEncoder().encode(contentType));
+    },
+    async get(key) {
+      try {
+        const body = await fs.readFile(pathFor(key));
+        const contentType = new TextDecoder().decode(await fs.readFile(`${pathFor(key)}.type`));
+        return { body, contentType, size: body.byteLength };
+      } catch {
+        return null;
+      }
+    },
+    async delete(key) {
+      await fs.rm(pathFor(key), { force: true });
+      await fs.rm(`${pathFor(key)}.type`, { force: true });
+    },
+  };
+}
+
+const memoryStore = createMemoryMediaStore();
+let overrideStore: MediaStore | null = null;
+
+/**
+ * Use a specific store regardless of bindings (tests and Node scripts,
+ * e.g. with createFsMediaStore). Pass null to go back to the bindings.
+ */
+export function setMediaStore(store: MediaStore | null): void {
+  overrideStore = store;
+}
+
+/**
+ * Pick the store for this environment, or null when uploads are disabled
+ */
+export function getMediaStore(env: Env): MediaStore | null {
+  if (overrideStore) return overrideStore;
+  if (env.MEDIA_BACKEND === 'memory') return memoryStore;
+  if (env.MEDIA_BUCKET) return createR2MediaStore(env.MEDIA_BUCKET);
+  return null;
+}
+
+/**
+ * Base URL the public media routes are served from
+ */
+export function getMediaBaseUrl(env: Env): string {
+  return (env.MEDIA_PUBLIC_URL || DEFAULT_MEDIA_URL).replace(/\/$/, '');
+}
+
+// ============================================================================
+// FILE INSPECTION
+// ============================================================================
+
+function ascii(bytes: Uint8Array, start: number, length: number): string {
+  return String.fromCharCode(...bytes.subarray(start, start + length));
+}
+
+/**
+ * Detect the real content type from magic bytes (the declared type is not trusted)
+ */
+export function sniffContentType(bytes: Uint8Array): string | null {
+  if (bytes[0] === 0xff && bytes[1] === 0xd8 && bytes[2] === 0xff) return 'image/jpeg';
+  if (ascii(bytes, 0, 8) === '\x89PNG\r\n\x1a\n') return 'image/png';
+  if (ascii(bytes, 0, 4) === 'GIF8') return 'image/gif';
+  if (ascii(bytes, 0, 4) === 'RIFF' && ascii(bytes, 8, 4) === 'WEBP') return 'image/webp';
+  if (ascii(bytes, 4, 4) === 'ftyp') return 'video/mp4';
+  if (bytes[0] === 0x1a && bytes[1] === 0x45 && bytes[2] === 0xdf && bytes[3] === 0xa3) return 'video/webm';
+  return null;
+}
+
+/**
+ * Pixel dimensions from the image header, when they can be read
+ */
+export function readImageDimensions(
+  bytes: Uint8Array,
+  contentType: string
+): { width: number; height: number } | null {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+
+  try {
+    switch (contentType) {
+      case 'image/png':
+        return { width: view.getUint32(16), height: view.getUint32(20) };
+
+      case 'image/gif':
+        return { width: view.getUint16(6, true), height: view.getUint16(8, true) };
+
+      case 'image/jpeg': {
+        let pos = 2;
+        while (pos + 9 < bytes.length) {
+          if (bytes[pos] !== 0xff) return null;
+          const marker = bytes[pos + 1];
+          // SOF markers (excluding DHT, JPG and DAC)
+          if (marker >= 0xc0 && marker <= 0xcf && ![0xc4, 0xc8, 0xcc].includes(marker)) {
+            return { height: view.getUint16(pos + 5), width: view.getUint16(pos + 7) };
+          }
+          pos += 2 + view.getUint16(pos + 2);
+        }
+        return null;
+      }
+
+      case 'image/webp': {
+        const chunk = ascii(bytes, 12, 4);
+        if (chunk === 'VP8X') {
+          const width = 1 + (bytes[24] | (bytes[25] << 8) | (bytes[26] << 16));
+          const height = 1 + (bytes[27] | (bytes[28] << 8) | (bytes[29] << 16));
+          return { width, height };
+        }
+        if (chunk === 'VP8 ') {
+          return { width: view.getUint16(26, true) & 0x3fff, height: view.getUint16(28, true) & 0x3fff };
+        }
+        if (chunk === 'VP8L') {
+          const bits = view.getUint32(21, true);
+          return { width: (bits & 0x3fff) + 1, height: ((bits >> 14) & 0x3fff) + 1 };
+        }
+        return null;
+      }
+    }
+  } catch {
+    // Truncated header
+  }
+
+  return null;
+}
+
+// ============================================================================
+// METADATA STRIPPING
+// ============================================================================
+
+function concat(parts: Uint8Array[]): Uint8Array {
+  const out = new Uint8Array(parts.reduce((n, p) => n + p.byteLength, 0));
+  let offset = 0;
+  for (const part of parts) {
+    out.set(part, offset);
+    offset += part.byteLength;
+  }
+  return out;
+}
+
+// APP1 (EXIF / XMP), APP3-APP12, APP13 (IPTC), APP15 and comments.
+// APP0 (JFIF), APP2 (ICC profile) and APP14 (Adobe colour) are kept.
+const JPEG_STRIP_MARKERS = new Set([
+  0xe1, 0xe3, 0xe4, 0xe5, 0xe6, 0xe7, 0xe8, 0xe9, 0xea, 0xeb, 0xec, 0xed, 0xef, 0xfe,
+]);
+
+const EXIF_ORIENTATION_TAG = 0x0112;
+
+/**
+ * The Orientation tag from an APP1 EXIF segment (1 when absent)
+ */
+function readExifOrientation(segment: Uint8Array): number {
+  // Marker (2) + length (2) + "Exif\0\0" (6), then the TIFF header
+  if (ascii(segment, 4, 6) !== 'Exif\0\0') return 1;
+  const tiff = new DataView(segment.buffer, segment.byteOffset + 10, segment.byteLength - 10);
+
+  try {
+    const little = tiff.getUint16(0) === 0x4949;
+    const ifd = tiff.getUint32(4, little);
+    const entries = tiff.getUint16(ifd, little);
+    for (let i = 0; i < entries; i++) {
+      const entry = ifd + 2 + i * 12;
+      if (tiff.getUint16(entry, little) === EXIF_ORIENTATION_TAG) {
+        return tiff.getUint16(entry + 8, little);
+      }
+    }
+  } catch {
+    // Truncated EXIF
+  }
+
+  return 1;
+}
+
+/**
+ * A minimal APP1 segment holding only the Orientation tag, so stripped
+ * photos still display the right way up
+ */
+function orientationSegment(orientation: number): Uint8Array {
+  const segment = new Uint8Array(36);
+  const view = new DataView(segment.buffer);
+  view.setUint16(0, 0xffe1);
+  view.setUint16(2, 34);
+  segment.set(new TextEncoder().encode('Exif\0\0MM'), 4);
+  view.setUint16(12, 0x002a);               // TIFF magic
+  view.setUint32(14, 8);                    // IFD0 offset
+  view.setUint16(18, 1);                    // One entry
+  view.setUint16(20, EXIF_ORIENTATION_TAG);
+  view.setUint16(22, 3);                    // SHORT
+  view.setUint32(24, 1);                    // Count
+  view.setUint16(28, orientation);          // Value (next IFD offset stays 0)
+  return segment;
+}
+
+function stripJpeg(bytes: Uint8Array): Uint8Array {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const parts: Uint8Array[] = [bytes.subarray(0, 2)];
+  let pos = 2;
+  let orientationKept = false;
+
+  while (pos + 4 <= bytes.length) {
+    if (bytes[pos] !== 0xff) break;
+    const marker = bytes[pos + 1];
+
+    // Start of scan: the rest is entropy-coded image data
+    if (marker === 0xda) break;
+
+    const end = pos + 2 + view.getUint16(pos + 2);
+    const segment = bytes.subarray(pos, end);
+    if (!JPEG_STRIP_MARKERS.has(marker)) {
+      parts.push(segment);
+    } else if (marker === 0xe1 && !orientationKept) {
+      const orientation = readExifOrientation(segment);
+      if (orientation > 1 && orientation <= 8) {
+        parts.push(orientationSegment(orientation));
+        orientationKept = true;
+      }
+    }
+    pos = end;
+  }
+
+  parts.push(bytes.subarray(pos));
+  return concat(parts);
+}
+
+const PNG_STRIP_CHUNKS = new Set(['eXIf', 'tEXt', 'zTXt', 'iTXt', 'tIME']);
+
+function stripPng(bytes: Uint8Array): Uint8Array {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const parts: Uint8Array[] = [bytes.subarray(0, 8)];
+  let pos = 8;
+
+  while (pos + 12 <= bytes.length) {
+    const length = view.getUint32(pos);
+    const type = ascii(bytes, pos + 4, 4);
+    const end = pos + 12 + length;
+    if (!PNG_STRIP_CHUNKS.has(type)) {
+      parts.push(bytes.subarray(pos, end));
+    }
+    pos = end;
+  }
+
+  return concat(parts);
+}
+
+function stripWebp(bytes: Uint8Array): Uint8Array {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const parts: Uint8Array[] = [];
+  let pos = 12;
+
+  while (pos + 8 <= bytes.length) {
+    const type = ascii(bytes, pos, 4);
+    const size = view.getUint32(pos + 4, true);
+    const end = Math.min(bytes.length, pos + 8 + size + (size % 2));
+
+    if (type === 'VP8X') {
+      // Clear the EXIF (0x08) and XMP (0x04) flags
+      const chunk = bytes.slice(pos, end);
+      chunk[8] &= ~0x0c;
+      parts.push(chunk);
+    } else if (type !== 'EXIF' && type !== 'XMP ') {
+      parts.push(bytes.subarray(pos, end));
+    }
+    pos = end;
+  }
+
+  const body = concat(parts);
+  const header = new Uint8Array(12);
+  header.set(bytes.subarray(0, 12));
+  new DataView(header.buffer).setUint32(4, body.byteLength + 4, true);
+  return concat([header, body]);
+}
+
+// MP4 boxes that hold other boxes where `udta` can appear
+const MP4_CONTAINER_BOXES = new Set(['moov', 'trak']);
+
+/**
+ * Turn every `udta` (user data: title, location, device) box into a zeroed
+ * `free` box. Blanking in place keeps the chunk offsets in `stco` valid.
+ */
+function blankMp4UserData(bytes: Uint8Array, start: number, end: number): void {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  let pos = start;
+
+  while (pos + 8 <= end) {
+    let size = view.getUint32(pos);
+    let header = 8;
+    if (size === 1 && pos + 16 <= end) {
+      size = Number(view.getBigUint64(pos + 8));
+      header = 16;
+    } else if (size === 0) {
+      size = end - pos;
+    }
+    if (size < header || pos + size > end) return;
+
+    const type = ascii(bytes, pos + 4, 4);
+    if (type === 'udta') {
+      bytes.set([0x66, 0x72, 0x65, 0x65], pos + 4);   // "free"
+      bytes.fill(0, pos + header, pos + size);
+    } else if (MP4_CONTAINER_BOXES.has(type)) {
+      blankMp4UserData(bytes, pos + header, pos + size);
+    }
+    pos += size;
+  }
+}
+
+const EBML_SEGMENT = 0x18538067;
+const EBML_CLUSTER = 0x1f43b675;
+const EBML_TAGS = 0x1254c367;
+const EBML_VOID = 0xec;
+
+// Elements that can follow an unknown-size Cluster inside the Segment
+const EBML_SEGMENT_CHILDREN = new Set([
+  0x114d9b74, 0x1549a966, 0x1654ae6b, EBML_CLUSTER, 0x1c53bb6b, 0x1941a469, 0x1043a770, EBML_TAGS,
+]);
+
+/**
+ * Read an EBML variable-length integer. IDs keep their length marker;
+ * sizes drop it, and an all-ones size (unknown) comes back as -1.
+ */
+function readVint(bytes: Uint8Array, pos: number, isId: boolean): { value: number; length: number } | null {
+  const first = bytes[pos];
+  if (!first) return null;
+  const length = Math.clz32(first) - 23;
+  if (length > 8 || pos + length > bytes.length) return null;
+
+  let value = isId ? first : first & (0xff >> length);
+  let allOnes = value === 0xff >> length;
+  for (let i = 1; i < length; i++) {
+    value = value * 256 + bytes[pos + i];
+    allOnes &&= bytes[pos + i] === 0xff;
+  }
+
+  return { value: !isId && allOnes ? -1 : value, length };
+}
+
+/**
+ * Overwrite an element with a Void element of the same total length
+ */
+function voidEbmlElement(bytes: Uint8Array, pos: number, total: number): void {
+  const sizeLength = Math.min(8, total - 1);
+  let size = total - 1 - sizeLength;
+
+  bytes[pos] = EBML_VOID;
+  for (let i = sizeLength; i >= 1; i--) {
+    bytes[pos + i] = size & 0xff;
+    size = Math.floor(size / 256);
+  }
+  bytes[pos + 1] |= 0x100 >> sizeLength;
+  bytes.fill(0, pos + 1 + sizeLength, pos + total);
+}
+
+/**
+ * Replace the WebM Tags element (title, encoder, custom tags) with Void
+ * padding, leaving every other element at its original offset
+ */
+function blankWebmTags(bytes: Uint8Array): void {
+  let pos = 0;
+
+  while (pos < bytes.length) {
+    const id = readVint(bytes, pos, true);
+    const size = id && readVint(bytes, pos + id.length, false);
+    if (!id || !size) return;
+    const dataStart = pos + id.length + size.length;
+
+    // Step into the Segment; its children are walked below
+    if (id.value === EBML_SEGMENT) {
+      pos = dataStart;
+      continue;
+    }
+
+    if (size.value === -1) {
+      // Unknown-size Cluster (live recordings): skip its children
+      if (id.value !== EBML_CLUSTER) return;
+      pos = dataStart;
+      while (pos < bytes.length) {
+        const childId = readVint(bytes, pos, true);
+        if (!childId || EBML_SEGMENT_CHILDREN.has(childId.value)) break;
+        const childSize = readVint(bytes, pos + childId.length, false);
+        if (!childSize || childSize.value === -1) return;
+        pos += childId.length + childSize.length + childSize.value;
+      }
+      continue;
+    }
+
+    const end = dataStart + size.value;
+    if (end > bytes.length) return;
+    if (id.value === EBML_TAGS) {
+      voidEbmlElement(bytes, pos, end - pos);
+    }
+    pos = end;
+  }
+}
+
+/**
+ * Remove EXIF (GPS, device, timestamps) and text metadata from an image,
+ * and user data / tags from a video. Other types are returned unchanged.
+ */
+export function stripMediaMetadata(bytes: Uint8Array, contentType: string): Uint8Array {
+  switch (contentType) {
+    case 'image/jpeg':
+      return stripJpeg(bytes);
+    case 'image/png':
+      return stripPng(bytes);
+    case 'image/webp':
+      return stripWebp(bytes);
+    case 'video/mp4': {
+      const copy = bytes.slice();
+      blankMp4UserData(copy, 0, copy.length);
+      return copy;
+    }
+    case 'video/webm': {
+      const copy = bytes.slice();
+      blankWebmTags(copy);
+      return copy;
+    }
+    default:
+      return bytes;
+  }
+}
+
+// ============================================================================
+// THUMBNAILS
+// ============================================================================
+
+function toStream(bytes: Uint8Array): ReadableStream<Uint8Array> {
+  return new Response(bytes).body as ReadableStream<Uint8Array>;
+}
+
+/**
+ * Feed-sized thumbnail, or null when the binding for this kind of media
+ * is not configured (the original is served instead)
+ */
+async function generateThumbnail(
+  env: Env,
+  bytes: Uint8Array,
+  kind: 'image' | 'video'
+): Promise<{ body: Uint8Array; contentType: string; ext: string } | null> {
+  try {
+    if (kind === 'image' && env.IMAGES) {
+      const result = await env.IMAGES.input(toStream(bytes))
+        .transform({ width: THUMBNAIL_SIZE, height: THUMBNAIL_SIZE, fit: 'scale-down' })
+        .output({ format: 'image/webp', quality: 80 });
+      const body = new Uint8Array(await result.response().arrayBuffer());
+      return { body, contentType: 'image/webp', ext: 'webp' };
+    }
+
+    if (kind === 'video' && env.MEDIA) {
+      const result = env.MEDIA.input(toStream(bytes))
+        .transform({ width: THUMBNAIL_SIZE, height: THUMBNAIL_SIZE, fit: 'scale-down' })
+        .output({ mode: 'frame', time: '0s', format: 'jpg' });
+      const body = new Uint8Array(await result.response().arrayBuffer());
+      return { body, contentType: 'image/jpeg', ext: 'jpg' };
+    }
+  } catch (error) {
+    console.error('[Media] Thumbnail error:', error);
+  }
+
+  return null;
+}
+
+// ============================================================================
+// UPLOADS
+// ============================================================================
+
+/**
+ * Validate, clean and store an upload
+ */
+export async function uploadMedia(
+  env: Env,
+  agentId: string,
+  file: File
+): Promise<ApiResponse<MediaItem>> {
+  const store = getMediaStore(env);
+  if (!store) {
+    return { success: false, error: 'Media uploads are not configured' };
+  }
+
+  const declared = MEDIA_TYPES[file.type];
+  if (!declared) {
+    return {
+      success: false,
+      error: `Unsupported file type. Allowed: ${Object.keys(MEDIA_TYPES).join(', ')}`,
+    };
+  }
+
+  if (file.size > declared.maxBytes) {
+    return { success: false, error: `File must be ${declared.maxBytes / MB} MB or less` };
+  }
+
+  if (file.size === 0) {
+    return { success: false, error: 'File is empty' };
+  }
+
+  const raw = new Uint8Array(await file.arrayBuffer());
+
+  // The bytes must match the declared type
+  const contentType = sniffContentType(raw);
+  if (contentType !== file.type) {
+    return { success: false, error: 'File content does not match its content type' };
+  }
+
+  const bytes = stripMediaMetadata(raw, contentType);
+  const dimensions = declared.kind === 'image' ? readImageDimensions(bytes, contentType) : null;
+
+  const id = crypto.randomUUID();
+  const key = `${id}.${declared.ext}`;
+  await store.put(key, bytes, contentType);
+
+  const thumbnail = await generateThumbnail(env, bytes, declared.kind);
+  let thumbnailKey: string | null = null;
+  if (thumbnail) {
+    thumbnailKey = `thumbs/${id}.${thumbnail.ext}`;
+    await store.put(thumbnailKey, thumbnail.body, thumbnail.contentType);
+  }
+
+  const supabase = getSupabase(env);
+  const { data, error } = await supabase
+    .from(TABLES.MEDIA)
+    .insert({
+      id,
+      agent_id: agentId,
+      object_key: key,
+      thumbnail_key: thumbnailKey,
+      content_type: contentType,
+      size_bytes: bytes.byteLength,
+      width: dimensions?.width ?? null,
+      height: dimensions?.height ?? null,
+    })
+    .select()
+    .single();
+
+  if (error) {
+    console.error('[Media] Insert error:', error);
+    await store.delete(key);
+    if (thumbnailKey) await store.delete(thumbnailKey);
+    return { success: false, error: handleDbError(error) };
+  }
+
+  return { success: true, data: mediaRecordToModel(data as MediaRecord, getMediaBaseUrl(env)) };
+}
+
+/**
+ * Stored object for the public media routes
+ */
+export async function getMediaObject(env: Env, key: string): Promise<StoredMedia | null> {
+  const store = getMediaStore(env);
+  if (!store) return null;
+  return store.get(key);
+}
+
+/**
+ * Thumbnail for a media ID, falling back to the original image
+ */
+export async function getMediaThumbnail(env: Env, id: string): Promise<StoredMedia | null> {
+  if (!MEDIA_ID.test(id)) return null;
+
+  const supabase = getSupabase(env);
+  const { data } = await supabase
+    .from(TABLES.MEDIA)
+    .select('object_key, thumbnail_key, content_type')
+    .eq('id', id)
+    .single();
+
+  if (!data) return null;
+
+  if (data.thumbnail_key) {
+    return getMediaObject(env, data.thumbnail_key);
+  }
+
+  // Without a generated thumbnail only images can stand in for themselves
+  return (data.content_type as string).startsWith('image/') ? getMediaObject(env, data.object_key) : null;
+}
+
+/**
+ * Turn hosted media IDs into their URLs; external URLs pass through
+ * (and are validated with the rest of the log).
+ */
+export async function resolveLogMedia(
+  env: Env,
+  agentId: string,
+  media: string[] | undefined
+): Promise<{ media?: string[] } | { error: string }> {
+  if (!Array.isArray(media)) return { media };
+
+  const ids = media.filter((m) => typeof m === 'string' && MEDIA_ID.test(m));
+  if (ids.length === 0) return { media };
+
+  const supabase = getSupabase(env);
+  const { data } = await supabase
+    .from(TABLES.MEDIA)
+    .select('id, object_key')
+    .eq('agent_id', agentId)
+    .in('id', ids);
+
+  const keys = new Map((data || []).map((row) => [row.id as string, row.object_key as string]));
+  const missing = ids.filter((id) => !keys.has(id.toLowerCase()));
+  if (missing.length > 0) {
+    return { error: `Media not found: ${missing.join(', ')}` };
+  }
+
+  return {
+    media: media.map((m) => (MEDIA_ID.test(m) ? `${getMediaBaseUrl(env)}/${keys.get(m.toLowerCase())}` : m)),
+  };
+}
+
+/**
+ * SQL for media uploads (run in Supabase)
+ */
+export const MEDIA_SQL = `
+CREATE TABLE IF NOT EXISTS media (
+  id UUID PRIMARY KEY,
+  agent_id UUID REFERENCES agents(id) ON DELETE CASCADE,
+  object_key TEXT NOT NULL UNIQUE,
+  thumbnail_key TEXT,
+  content_type TEXT NOT NULL,
+  size_bytes INTEGER NOT NULL,
+  width INTEGER,
+  height INTEGER,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_media_agent ON media(agent_id, created_at DESC);
+`;
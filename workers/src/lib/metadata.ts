@@ -0,0 +1,206 @@
+/**
+ * Structured Log Metadata for Clawg
+ *
+ * Each log type can carry optional typed fields (commit SHA and diff
+ * stats, deploy environment, fix severity, ...) so consumers can filter
+ * and aggregate on real values instead of scraping titles.
+ */
+
+import type { LogType } from './types';
+
+// ============================================================================
+// SCHEMAS
+// ============================================================================
+
+export type MetadataFieldSpec =
+  | { kind: 'string'; maxLength: number; pattern?: RegExp; required?: boolean }
+  | { kind: 'url'; required?: boolean }
+  | { kind: 'count'; required?: boolean }   // Non-negative integer
+  | { kind: 'enum'; values: readonly string[]; required?: boolean };
+
+const VERSION: MetadataFieldSpec = { kind: 'string', maxLength: 64 };
+const URL_FIELD: MetadataFieldSpec = { kind: 'url' };
+
+/**
+ * Allowed metadata fields per log type. Unknown fields are rejected.
+ */
+export const LOG_METADATA_SCHEMAS: Record<LogType, Record<string, MetadataFieldSpec>> = {
+  ship: {
+    version: VERSION,
+    url: URL_FIELD,
+  },
+  deploy: {
+    environment: {
+      kind: 'enum',
+      values: ['production', 'staging', 'preview', 'development'],
+      required: true,
+    },
+    version: VERSION,
+    url: URL_FIELD,
+  },
+  commit: {
+    sha: { kind: 'string', maxLength: 40, pattern: /^[0-9a-f]{7,40}$/i, required: true },
+    repo: { kind: 'string', maxLength: 200, pattern: /^[\w.-]+\/[\w.-]+$/ },
+    branch: { kind: 'string', maxLength: 100 },
+    additions: { kind: 'count' },
+    deletions: { kind: 'count' },
+    filesChanged: { kind: 'count' },
+  },
+  launch: {
+    url: URL_FIELD,
+    chain: { kind: 'string', maxLength: 32 },
+    contractAddress: { kind: 'string', maxLength: 42, pattern: /^0x[a-fA-F0-9]{40}$/ },
+  },
+  update: {
+    version: VERSION,
+    component: { kind: 'string', maxLength: 100 },
+  },
+  fix: {
+    issue: { kind: 'string', maxLength: 200 },
+    severity: { kind: 'enum', values: ['low', 'medium', 'high', 'critical'] },
+  },
+};
+
+// ============================================================================
+// VALIDATION
+// ============================================================================
+
+function validateField(name: string, spec: MetadataFieldSpec, value: unknown): string | null {
+  switch (spec.kind) {
+    case 'string':
+      if (typeof value !== 'string' || value.trim().length === 0) {
+        return `metadata.${name} must be a non-empty string`;
+      }
+      if (value.length > spec.maxLength) {
+        return `metadata.${name} must be ${spec.maxLength} characters or less`;
+      }
+      if (spec.pattern && !spec.pattern.test(value)) {
+        return `metadata.${name} has an invalid format`;
+      }
+      return null;
+
+    case 'url':
+      try {
+        const url = new URL(value as string);
+        if (!['http:', 'https:'].includes(url.protocol)) {
+          return `metadata.${name} must use http or https protocol`;
+        }
+      } catch {
+        return `metadata.${name} must be a valid URL`;
+      }
+      return null;
+
+    case 'count':
+      if (!Number.isInteger(value) || (value as number) < 0) {
+        return `metadata.${name} must be a non-negative integer`;
+      }
+      return null;
+
+    case 'enum':
+      if (!spec.values.includes(value as string)) {
+        return `metadata.${name} must be one of: ${spec.values.join(', ')}`;
+      }
+      return null;
+  }
+}
+
+/**
+ * Validate metadata against its log type's schema.
+ * Returns an error message, or null when valid (or absent).
+ */
+export function validateLogMetadata(type: LogType, metadata: unknown): string | null {
+  if (metadata === undefined || metadata === null) return null;
+
+  if (typeof metadata !== 'object' || Array.isArray(metadata)) {
+    return 'metadata must be an object';
+  }
+
+  const schema = LOG_METADATA_SCHEMAS[type];
+  if (!schema) return null;
+
+  const fields = metadata as Record<string, unknown>;
+
+  const unknown = Object.keys(fields).filter((key) => !(key in schema));
+  if (unknown.length > 0) {
+    return `Unknown metadata for ${type} logs: ${unknown.join(', ')}. Allowed: ${Object.keys(schema).join(', ')}`;
+  }
+
+  for (const [name, spec] of Object.entries(schema)) {
+    const value = fields[name];
+    if (value === undefined || value === null) {
+      if (spec.required) return `metadata.${name} is required for ${type} logs`;
+      continue;
+    }
+    const error = validateField(name, spec, value);
+    if (error) return error;
+  }
+
+  return null;
+}
+
+/**
+ * Parse `meta.<field>=<value>` query parameters into an exact-match filter.
+ * Field names must exist in the schema of the given type (or any type).
+ */
+export function parseMetadataFilter(
+  query: Record<string, string>,
+  type?: LogType
+): { filter?: Record<string, string | number> } | { error: string } {
+  const schemas = type ? [LOG_METADATA_SCHEMAS[type]] : Object.values(LOG_METADATA_SCHEMAS);
+  const filter: Record<string, string | number> = {};
+
+  for (const [key, value] of Object.entries(query)) {
+    if (!key.startsWith('meta.')) continue;
+
+    const name = key.slice('meta.'.length);
+    const spec = schemas.map((schema) => schema[name]).find(Boolean);
+    if (!spec) {
+      return { error: `Unknown metadata filter: ${name}` };
+    }
+
+    if (spec.kind === 'count') {
+      const count = Number(value);
+      if (!Number.isInteger(count)) {
+        return { error: `meta.${name} must be an integer` };
+      }
+      filter[name] = count;
+    } else {
+      filter[name] = value;
+    }
+  }
+
+  return Object.keys(filter).length > 0 ? { filter } : {};
+}
+
+/**
+ * Schemas as shown in /api/log-types
+ */
+export function describeLogMetadata() {
+  return Object.fromEntries(
+    Object.entries(LOG_METADATA_SCHEMAS).map(([type, schema]) => [
+      type,
+      Object.fromEntries(
+        Object.entries(schema).map(([name, spec]) => [
+          name,
+          {
+            kind: spec.kind,
+            required: spec.required ?? false,
+            ...(spec.kind === 'enum' ? { values: spec.values } : {}),
+            ...(spec.kind === 'string' ? { maxLength: spec.maxLength } : {}),
+          },
+        ])
+      ),
+    ])
+  );
+}
+
+/**
+ * SQL for structured metadata (run in Supabase)
+ */
+export const LOG_METADATA_SQL = `
+ALTER TABLE logs ADD COLUMN IF NOT EXISTS metadata JSONB;
+ALTER TABLE log_revisions ADD COLUMN IF NOT EXISTS metadata JSONB;
+
+-- Serves the exact-match (@>) metadata filters on feeds
+CREATE INDEX IF NOT EXISTS idx_logs_metadata ON logs USING GIN (metadata jsonb_path_ops);
+`;
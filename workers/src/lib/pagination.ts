@@ -0,0 +1,116 @@
+/**
+ * Cursor Pagination for Clawg
+ *
+ * Feeds page by keyset (sort value + id) instead of offset so deep pages
+ * stay fast and new logs arriving mid-scroll don't cause duplicates or
+ * skips. Cursors are opaque base64url tokens; clients just pass back the
+ * `nextCursor` of the previous page.
+ */
+
+// Columns a feed can be ordered by (always descending, with id as tiebreak).
+// `rank` is the relevance score computed by search_logs.
+export type CursorKey = 'created_at' | 'engagement_rate' | 'quality_score' | 'hot_score' | 'rank';
+
+export interface Cursor {
+  key: CursorKey;
+  value: string | number;
+  id: string;
+}
+
+export const DEFAULT_PAGE_SIZE = 20;
+export const MAX_PAGE_SIZE = 50;
+
+const UUID = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+// Postgres timestamptz as returned by PostgREST. Kept verbatim: parsing it
+// into a Date would drop the microseconds and skip rows on the boundary.
+const TIMESTAMP = /^\d{4}-\d{2}-\d{2}[T ]\d{2}:\d{2}:\d{2}(\.\d{1,6})?(Z|[+-]\d{2}(:?\d{2})?)$/;
+
+export function clampPageSize(pageSize?: number): number {
+  if (!pageSize || !Number.isFinite(pageSize) || pageSize < 1) return DEFAULT_PAGE_SIZE;
+  return Math.min(Math.floor(pageSize), MAX_PAGE_SIZE);
+}
+
+function toBase64Url(text: string): string {
+  return btoa(text).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function fromBase64Url(token: string): string {
+  const base64 = token.replace(/-/g, '+').replace(/_/g, '/');
+  return atob(base64 + '='.repeat((4 - (base64.length % 4)) % 4));
+}
+
+export function encodeCursor(cursor: Cursor): string {
+  return toBase64Url(JSON.stringify([cursor.key, cursor.value, cursor.id]));
+}
+
+/**
+ * Decode a cursor for a feed ordered by `key`. Cursors from a feed with a
+ * different ordering are rejected, as are malformed values (they end up
+ * in a PostgREST filter, so they are checked strictly).
+ */
+export function decodeCursor(token: string, key: CursorKey): Cursor | null {
+  try {
+    const parsed = JSON.parse(fromBase64Url(token));
+    if (!Array.isArray(parsed) || parsed.length !== 3) return null;
+
+    const [cursorKey, value, id] = parsed;
+    if (cursorKey !== key || typeof id !== 'string' || !UUID.test(id)) return null;
+
+    if (key === 'created_at') {
+      if (typeof value !== 'string' || !TIMESTAMP.test(value)) return null;
+      return { key, value, id };
+    }
+
+    if (typeof value !== 'number' || !Number.isFinite(value)) return null;
+    return { key, value, id };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Restrict a descending (key, id) ordered query to rows after the cursor
+ */
+export function applyCursor<Q extends { or(filters: string): Q }>(query: Q, cursor: Cursor): Q {
+  const value = typeof cursor.value === 'string' ? `"${cursor.value}"` : cursor.value;
+  return query.or(
+    `${cursor.key}.lt.${value},and(${cursor.key}.eq.${value},id.lt.${cursor.id})`
+  );
+}
+
+/**
+ * Apply the page window: rows after the cursor, or the legacy offset page.
+ * One extra row is fetched so paginateRows can tell whether more follow.
+ */
+export function applyPage<Q extends { or(filters: string): Q; range(from: number, to: number): Q }>(
+  query: Q,
+  pageSize: number,
+  page: number,
+  cursor?: Cursor
+): Q {
+  if (cursor) {
+    return applyCursor(query, cursor).range(0, pageSize);
+  }
+  const offset = (Math.max(page, 1) - 1) * pageSize;
+  return query.range(offset, offset + pageSize);
+}
+
+/**
+ * Trim a page fetched with one extra row and work out the next cursor
+ */
+export function paginateRows<T extends { id: string }>(
+  rows: T[],
+  pageSize: number,
+  key: CursorKey
+): { rows: T[]; nextCursor: string | null } {
+  if (rows.length <= pageSize) {
+    return { rows, nextCursor: null };
+  }
+
+  const page = rows.slice(0, pageSize);
+  const last = page[page.length - 1] as T & Record<CursorKey, string | number>;
+  return {
+    rows: page,
+    nextCursor: encodeCursor({ key, value: last[key], id: last.id }),
+  };
+}
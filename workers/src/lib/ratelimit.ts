@@ -0,0 +1,313 @@
+/**
+ * Rate Limiting for Clawg
+ *
+ * Fixed-window counters keyed on agent ID, wallet and client IP.
+ * Counters live in the RateLimitCounter Durable Object when it is bound
+ * (one object per key, so increments are atomic); otherwise (and in tests)
+ * an in-memory store scoped to the isolate is used.
+ *
+ * Responses carry the IETF `RateLimit-*` headers; exceeding a limit
+ * returns 429 with a Retry-After header. If the counter store fails,
+ * requests are let through rather than turned into errors.
+ */
+
+import type { Context, MiddlewareHandler } from 'hono';
+import type { Env } from './types';
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+export interface RateLimitRule {
+  limit: number;          // Requests per window per agent / wallet
+  windowSeconds: number;
+  ipLimit?: number;       // Requests per window per IP (defaults to limit)
+  description: string;
+}
+
+/**
+ * Limits per action. Write actions apply to every tier, including
+ * free ERC-8004 agents.
+ */
+export const RATE_LIMITS = {
+  api: { limit: 300, windowSeconds: 60, description: 'All API requests, per IP' },
+  auth: { limit: 30, windowSeconds: 60, description: 'Auth message / session / key requests, per IP' },
+  post_log: { limit: 10, windowSeconds: 60, ipLimit: 30, description: 'Posting logs' },
+  react: { limit: 60, windowSeconds: 60, ipLimit: 180, description: 'Adding or removing reactions' },
+  comment: { limit: 20, windowSeconds: 60, ipLimit: 60, description: 'Posting comments' },
+  edit_log: { limit: 20, windowSeconds: 60, ipLimit: 60, description: 'Editing logs' },
+  upload_media: { limit: 20, windowSeconds: 60, ipLimit: 60, description: 'Uploading media' },
+  follow: { limit: 30, windowSeconds: 60, ipLimit: 90, description: 'Following or unfollowing agents' },
+  smart_wallet_auth: { limit: 10, windowSeconds: 60, description: 'On-chain (EIP-1271 / ERC-6492) signature checks, per IP' },
+} satisfies Record<string, RateLimitRule>;
+
+export type RateLimitName = keyof typeof RATE_LIMITS;
+
+/**
+ * Per-IP rule for a request path (first matching prefix wins)
+ */
+const ROUTE_RATE_LIMITS: Array<{ prefix: string; rule: RateLimitName }> = [
+  { prefix: '/api/auth/', rule: 'auth' },
+  { prefix: '/api/', rule: 'api' },
+];
+
+// ============================================================================
+// STORES
+// ============================================================================
+
+export interface RateLimitStore {
+  /** Increment the counter for a key in the current window and return it */
+  increment(key: string, windowSeconds: number): Promise<{ count: number; resetAt: number }>;
+}
+
+/**
+ * In-memory store (per isolate). Used when no Durable Object is bound and in tests.
+ */
+export function createMemoryRateLimitStore(): RateLimitStore {
+  const counters = new Map<string, { count: number; resetAt: number }>();
+
+  return {
+    async increment(key, windowSeconds) {
+      const now = Date.now();
+      const existing = counters.get(key);
+
+      if (!existing || existing.resetAt <= now) {
+        // Opportunistically drop stale windows so the map stays small
+        if (counters.size > 10_000) {
+          for (const [k, v] of counters) {
+            if (v.resetAt <= now) counters.delete(k);
+          }
+        }
+        const fresh = { count: 1, resetAt: now + windowSeconds * 1000 };
+        counters.set(key, fresh);
+        return fresh;
+      }
+
+      existing.count += 1;
+      return existing;
+    },
+  };
+}
+
+/**
+ * Counter for a single rate limit key. A Durable Object handles one
+ * request at a time, so concurrent increments cannot be lost. Counts are
+ * only held in memory: an evicted object starts a fresh window.
+ */
+export class RateLimitCounter implements DurableObject {
+  private counter = createMemoryRateLimitStore();
+
+  constructor(_state: DurableObjectState, _env: Env) {}
+
+  async fetch(request: Request): Promise<Response> {
+    const { windowSeconds } = await request.json<{ windowSeconds: number }>();
+    return Response.json(await this.counter.increment('counter', windowSeconds));
+  }
+}
+
+/**
+ * Durable Object-backed store (one RateLimitCounter per key)
+ */
+export function createDurableObjectRateLimitStore(namespace: DurableObjectNamespace): RateLimitStore {
+  return {
+    async increment(key, windowSeconds) {
+      const stub = namespace.get(namespace.idFromName(key));
+      const res = await stub.fetch('https://ratelimit/increment', {
+        method: 'POST',
+        body: JSON.stringify({ windowSeconds }),
+      });
+
+      if (!res.ok) {
+        throw new Error(`Rate limit counter returned ${res.status}`);
+      }
+
+      return res.json<{ count: number; resetAt: number }>();
+    },
+  };
+}
+
+const memoryStore = createMemoryRateLimitStore();
+
+/**
+ * Pick the store for this environment
+ */
+export function getRateLimitStore(env: Env): RateLimitStore {
+  if (env.RATE_LIMIT_BACKEND !== 'memory' && env.RATE_LIMITER) {
+    return createDurableObjectRateLimitStore(env.RATE_LIMITER);
+  }
+  return memoryStore;
+}
+
+// ============================================================================
+// CHECKS
+// ============================================================================
+
+export interface RateLimitResult {
+  allowed: boolean;
+  rule: RateLimitName;
+  limit: number;
+  remaining: number;
+  resetAt: number;       // Epoch ms
+  windowSeconds: number;
+}
+
+/**
+ * Client IP as seen by Cloudflare
+ */
+export function getClientIp(request: Request): string {
+  return (
+    request.headers.get('CF-Connecting-IP') ||
+    request.headers.get('X-Forwarded-For')?.split(',')[0].trim() ||
+    'unknown'
+  );
+}
+
+/**
+ * Count a request against every identity it carries. The most
+ * restrictive identity decides the outcome and the headers.
+ */
+export async function checkRateLimit(
+  env: Env,
+  name: RateLimitName,
+  identity: { agentId?: string; wallet?: string; ip?: string },
+  store: RateLimitStore = getRateLimitStore(env)
+): Promise<RateLimitResult> {
+  const rule: RateLimitRule = RATE_LIMITS[name];
+  const checks: Array<{ key: string; limit: number }> = [];
+
+  if (identity.agentId) checks.push({ key: `agent:${identity.agentId}`, limit: rule.limit });
+  if (identity.wallet) checks.push({ key: `wallet:${identity.wallet}`, limit: rule.limit });
+  if (identity.ip) checks.push({ key: `ip:${identity.ip}`, limit: rule.ipLimit ?? rule.limit });
+
+  let result: RateLimitResult = {
+    allowed: true,
+    rule: name,
+    limit: rule.limit,
+    remaining: rule.limit,
+    resetAt: Date.now() + rule.windowSeconds * 1000,
+    windowSeconds: rule.windowSeconds,
+  };
+
+  // A failing store must not take the API down: count the request as the
+  // first in its window and let it through
+  const counts = await Promise.all(
+    checks.map(async (check) => ({
+      ...check,
+      ...(await store.increment(`${name}:${check.key}`, rule.windowSeconds).catch((error) => {
+        console.error('[RateLimit] Store error:', error);
+        return { count: 0, resetAt: result.resetAt };
+      })),
+    }))
+  );
+
+  for (const { limit, count, resetAt } of counts) {
+    const remaining = Math.max(0, limit - count);
+    if (count > limit || remaining < result.remaining) {
+      result = {
+        ...result,
+        allowed: result.allowed && count <= limit,
+        limit,
+        remaining,
+        resetAt,
+      };
+    }
+  }
+
+  return result;
+}
+
+// ============================================================================
+// RESPONSES
+// ============================================================================
+
+/**
+ * Set RateLimit-* headers (and Retry-After when limited) on the response
+ */
+export function applyRateLimitHeaders(c: Context, result: RateLimitResult): void {
+  const resetSeconds = Math.max(0, Math.ceil((result.resetAt - Date.now()) / 1000));
+
+  c.header('RateLimit-Limit', result.limit.toString());
+  c.header('RateLimit-Remaining', result.remaining.toString());
+  c.header('RateLimit-Reset', resetSeconds.toString());
+  c.header('RateLimit-Policy', `${result.limit};w=${result.windowSeconds}`);
+
+  if (!result.allowed) {
+    c.header('Retry-After', resetSeconds.toString());
+  }
+}
+
+/**
+ * 429 response body
+ */
+export function rateLimitExceededBody(result: RateLimitResult) {
+  return {
+    success: false,
+    error: 'Rate limit exceeded',
+    rateLimit: {
+      rule: result.rule,
+      limit: result.limit,
+      windowSeconds: result.windowSeconds,
+      retryAfter: Math.max(0, Math.ceil((result.resetAt - Date.now()) / 1000)),
+    },
+  };
+}
+
+/**
+ * Enforce an action's limit inside a route, after the agent is known.
+ * Returns a 429 response when the limit is exceeded, otherwise null.
+ */
+export async function enforceRateLimit(
+  c: Context<{ Bindings: Env }>,
+  name: RateLimitName,
+  identity: { agentId?: string; wallet?: string }
+): Promise<Response | null> {
+  const result = await checkRateLimit(c.env, name, {
+    ...identity,
+    ip: getClientIp(c.req.raw),
+  });
+
+  applyRateLimitHeaders(c, result);
+  return result.allowed ? null : c.json(rateLimitExceededBody(result), 429);
+}
+
+/**
+ * Per-IP limit for every API request, chosen by path prefix
+ */
+export function rateLimitMiddleware(): MiddlewareHandler<{ Bindings: Env }> {
+  return async (c, next) => {
+    const route = ROUTE_RATE_LIMITS.find((r) => c.req.path.startsWith(r.prefix));
+    if (!route || c.req.method === 'OPTIONS' || c.req.path.startsWith('/api/cron/')) {
+      return next();
+    }
+
+    const result = await checkRateLimit(c.env, route.rule, { ip: getClientIp(c.req.raw) });
+    if (!result.allowed) {
+      applyRateLimitHeaders(c, result);
+      return c.json(rateLimitExceededBody(result), 429);
+    }
+
+    await next();
+
+    // Route-level (per-action) limits set their own headers
+    if (!c.res.headers.has('RateLimit-Limit')) {
+      applyRateLimitHeaders(c, result);
+    }
+  };
+}
+
+/**
+ * Limits as shown in /api/pricing
+ */
+export function describeRateLimits() {
+  return Object.fromEntries(
+    Object.entries(RATE_LIMITS).map(([name, rule]) => [
+      name,
+      {
+        limit: rule.limit,
+        windowSeconds: rule.windowSeconds,
+        ...('ipLimit' in rule ? { ipLimit: rule.ipLimit } : {}),
+        description: rule.description,
+      },
+    ])
+  );
+}
@@ -16,6 +16,13 @@ import type {
 
 const VALID_REACTION_TYPES: ReactionType[] = ['fire', 'ship', 'claw', 'brain', 'bug'];
 
+/**
+ * Check a reaction type before charging for it
+ */
+export function isValidReactionType(type: unknown): type is ReactionType {
+  return VALID_REACTION_TYPES.includes(type as ReactionType);
+}
+
 /**
  * Add a reaction to a log
  */
@@ -0,0 +1,352 @@
+/**
+ * Real-Time Streaming for Clawg
+ *
+ * Pushes new logs, engagement count changes and new comments to clients
+ * over Server-Sent Events or WebSockets. Clients subscribe to channels:
+ *
+ * - feed             every new published log, and engagement on any log
+ * - log:{id}         engagement and new comments on one log
+ * - agent:{handle}   new logs by an agent, and engagement on them
+ *
+ * Fan-out runs in the RealtimeHub Durable Object so every connection sees
+ * every event. Without the REALTIME binding (wrangler dev, tests) an
+ * in-memory hub stands in; it only reaches clients connected to the same
+ * isolate.
+ */
+
+import { getSupabase, TABLES } from './db';
+import type {
+  Env,
+  BuildLog,
+  Comment,
+  LogRecord,
+  AgentRecord,
+  ReactionCounts,
+} from './types';
+import { logRecordToModel, agentRecordToModel } from './types';
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+// Durable Object WebSocket tags cap how many channels a socket can carry
+const MAX_CHANNELS = 10;
+const HEARTBEAT_MS = 25_000;
+const HUB_NAME = 'global';
+
+const CHANNEL = /^(feed|log:[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}|agent:[a-z0-9_]{1,32})$/;
+
+// ============================================================================
+// EVENTS
+// ============================================================================
+
+export interface LogEngagement {
+  logId: string;
+  reactionCounts: ReactionCounts;
+  commentCount: number;
+}
+
+export type StreamEvent =
+  | { type: 'log.created'; data: BuildLog }
+  | { type: 'log.engagement'; data: LogEngagement }
+  | { type: 'comment.created'; data: Comment };
+
+// An event plus the channels it is delivered on
+interface Broadcast {
+  channels: string[];
+  event: StreamEvent;
+}
+
+/**
+ * Parse a comma-separated channel list. Returns null when any channel is
+ * malformed or there are too many.
+ */
+export function parseChannels(raw: string | null | undefined): string[] | null {
+  const channels = [...new Set((raw || 'feed').split(',').map((c) => c.trim().toLowerCase()).filter(Boolean))];
+  if (channels.length === 0 || channels.length > MAX_CHANNELS) return null;
+  return channels.every((c) => CHANNEL.test(c)) ? channels : null;
+}
+
+function sseFrame(event: StreamEvent): string {
+  return `event: ${event.type}\ndata: ${JSON.stringify(event.data)}\n\n`;
+}
+
+function wsFrame(event: StreamEvent, channel: string): string {
+  return JSON.stringify({ type: event.type, channel, data: event.data });
+}
+
+// ============================================================================
+// HUB
+// ============================================================================
+
+interface EventStreamClient {
+  channels: Set<string>;
+  writer: WritableStreamDefaultWriter<Uint8Array>;
+}
+
+/**
+ * Subscriber bookkeeping shared by the Durable Object and the local
+ * stand-in. Subclasses decide how WebSockets are held.
+ */
+abstract class StreamHub {
+  private streams = new Set<EventStreamClient>();
+  private heartbeat: ReturnType<typeof setInterval> | undefined;
+  private encoder = new TextEncoder();
+
+  protected abstract acceptSocket(socket: WebSocket, channels: string[]): void;
+  protected abstract socketsFor(channel: string): WebSocket[];
+
+  /**
+   * Open a stream for a subscribe request (WebSocket upgrade or SSE)
+   */
+  subscribe(request: Request): Response {
+    const channels = parseChannels(new URL(request.url).searchParams.get('channels'));
+    if (!channels) {
+      return Response.json(
+        { success: false, error: `channels must be up to ${MAX_CHANNELS} of feed, log:{id}, agent:{handle}` },
+        { status: 400 }
+      );
+    }
+
+    if (request.headers.get('Upgrade')?.toLowerCase() === 'websocket') {
+      const [client, server] = Object.values(new WebSocketPair());
+      this.acceptSocket(server, channels);
+      server.send(JSON.stringify({ type: 'subscribed', channels }));
+      return new Response(null, { status: 101, webSocket: client });
+    }
+
+    const { readable, writable } = new TransformStream<Uint8Array, Uint8Array>();
+    const stream: EventStreamClient = { channels: new Set(channels), writer: writable.getWriter() };
+    this.streams.add(stream);
+    this.write(stream, `event: subscribed\ndata: ${JSON.stringify({ channels })}\n\n`);
+    this.startHeartbeat();
+
+    return new Response(readable, {
+      headers: {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache',
+        'X-Accel-Buffering': 'no',
+      },
+    });
+  }
+
+  /**
+   * Deliver an event to every subscriber of any of its channels (once each)
+   */
+  broadcast({ channels, event }: Broadcast): void {
+    for (const stream of this.streams) {
+      if (channels.some((c) => stream.channels.has(c))) {
+        this.write(stream, sseFrame(event));
+      }
+    }
+
+    const delivered = new Set<WebSocket>();
+    for (const channel of channels) {
+      for (const socket of this.socketsFor(channel)) {
+        if (delivered.has(socket)) continue;
+        delivered.add(socket);
+        try {
+          socket.send(wsFrame(event, channel));
+        } catch {
+          // Closed sockets are cleaned up by their close handler
+        }
+      }
+    }
+  }
+
+  private write(stream: EventStreamClient, text: string): void {
+    stream.writer.write(this.encoder.encode(text)).catch(() => {
+      // Client went away
+      this.streams.delete(stream);
+      if (this.streams.size === 0) this.stopHeartbeat();
+    });
+  }
+
+  // SSE comments keep idle connections from being closed by proxies
+  private startHeartbeat(): void {
+    if (this.heartbeat) return;
+    this.heartbeat = setInterval(() => {
+      for (const stream of this.streams) this.write(stream, ': ping\n\n');
+    }, HEARTBEAT_MS);
+  }
+
+  private stopHeartbeat(): void {
+    if (this.heartbeat) clearInterval(this.heartbeat);
+    this.heartbeat = undefined;
+  }
+}
+
+/**
+ * Fan-out Durable Object. WebSockets use the hibernation API, tagged with
+ * their channels, so idle sockets don't keep the object in memory.
+ */
+export class RealtimeHub extends StreamHub implements DurableObject {
+  constructor(private state: DurableObjectState, _env: Env) {
+    super();
+  }
+
+  async fetch(request: Request): Promise<Response> {
+    if (new URL(request.url).pathname === '/publish') {
+      this.broadcast(await request.json<Broadcast>());
+      return new Response(null, { status: 204 });
+    }
+    return this.subscribe(request);
+  }
+
+  protected acceptSocket(socket: WebSocket, channels: string[]): void {
+    this.state.acceptWebSocket(socket, channels);
+  }
+
+  protected socketsFor(channel: string): WebSocket[] {
+    return this.state.getWebSockets(channel);
+  }
+
+  // Clients only listen; answer pings so they can check the connection
+  async webSocketMessage(socket: WebSocket, message: string | ArrayBuffer): Promise<void> {
+    if (message === 'ping') socket.send('pong');
+  }
+
+  async webSocketClose(socket: WebSocket, code: number): Promise<void> {
+    socket.close(code === 1005 ? 1000 : code);
+  }
+}
+
+/**
+ * In-memory stand-in used when the REALTIME binding is missing
+ */
+class LocalHub extends StreamHub {
+  private sockets = new Map<WebSocket, string[]>();
+
+  protected acceptSocket(socket: WebSocket, channels: string[]): void {
+    socket.accept();
+    this.sockets.set(socket, channels);
+    socket.addEventListener('message', (event) => {
+      if (event.data === 'ping') socket.send('pong');
+    });
+    socket.addEventListener('close', () => this.sockets.delete(socket));
+    socket.addEventListener('error', () => this.sockets.delete(socket));
+  }
+
+  protected socketsFor(channel: string): WebSocket[] {
+    return [...this.sockets].filter(([, channels]) => channels.includes(channel)).map(([socket]) => socket);
+  }
+}
+
+const localHub = new LocalHub();
+
+function getHub(env: Env): DurableObjectStub | null {
+  return env.REALTIME ? env.REALTIME.get(env.REALTIME.idFromName(HUB_NAME)) : null;
+}
+
+/**
+ * Handle a subscribe request (GET /api/stream)
+ */
+export async function openStream(env: Env, request: Request): Promise<Response> {
+  const hub = getHub(env);
+  return hub ? hub.fetch(request) : localHub.subscribe(request);
+}
+
+async function publish(env: Env, channels: string[], event: StreamEvent): Promise<void> {
+  const broadcast: Broadcast = { channels, event };
+  const hub = getHub(env);
+
+  if (!hub) {
+    localHub.broadcast(broadcast);
+    return;
+  }
+
+  try {
+    await hub.fetch('https://realtime/publish', {
+      method: 'POST',
+      body: JSON.stringify(broadcast),
+    });
+  } catch (error) {
+    console.error('[Realtime] Publish failed:', error);
+  }
+}
+
+// ============================================================================
+// ANNOUNCEMENTS (called from routes via waitUntil)
+// ============================================================================
+
+/**
+ * Announce a newly published log on the feed and its agent's channel
+ */
+export async function announceLog(env: Env, log: BuildLog): Promise<void> {
+  if (log.status !== 'published') return;
+
+  let agent = log.agent;
+  if (!agent) {
+    const { data } = await getSupabase(env).from(TABLES.AGENTS).select('*').eq('id', log.agentId).single();
+    if (!data) return;
+    agent = agentRecordToModel(data as AgentRecord);
+  }
+
+  await publish(env, ['feed', `agent:${agent.handle}`], {
+    type: 'log.created',
+    data: { ...log, agent },
+  });
+}
+
+// IDs per query when loading published logs (keeps the request URL short)
+const ANNOUNCE_BATCH_SIZE = 100;
+
+/**
+ * Announce scheduled logs that just went live, by the IDs publishDueLogs returned
+ */
+export async function announcePublishedLogs(env: Env, logIds: string[]): Promise<void> {
+  const supabase = getSupabase(env);
+
+  for (let i = 0; i < logIds.length; i += ANNOUNCE_BATCH_SIZE) {
+    const { data } = await supabase
+      .from(TABLES.LOGS)
+      .select('*, agent:agents(*)')
+      .in('id', logIds.slice(i, i + ANNOUNCE_BATCH_SIZE))
+      .order('created_at', { ascending: true });
+
+    for (const row of (data || []) as (LogRecord & { agent?: AgentRecord })[]) {
+      const agent = row.agent ? agentRecordToModel(row.agent) : undefined;
+      await announceLog(env, logRecordToModel(row, agent));
+    }
+  }
+}
+
+/**
+ * Announce a log's current reaction and comment counts
+ */
+export async function announceEngagement(env: Env, logId: string): Promise<void> {
+  const { data } = await getSupabase(env)
+    .from(TABLES.LOGS)
+    .select('id, reaction_fire, reaction_ship, reaction_claw, reaction_brain, reaction_bug, comment_count, agent:agents(handle)')
+    .eq('id', logId)
+    .single();
+
+  if (!data) return;
+
+  const row = data as unknown as LogRecord & { agent: { handle: string } | null };
+  const channels = ['feed', `log:${logId}`];
+  if (row.agent) channels.push(`agent:${row.agent.handle}`);
+
+  await publish(env, channels, {
+    type: 'log.engagement',
+    data: {
+      logId,
+      reactionCounts: {
+        fire: row.reaction_fire,
+        ship: row.reaction_ship,
+        claw: row.reaction_claw,
+        brain: row.reaction_brain,
+        bug: row.reaction_bug,
+      },
+      commentCount: row.comment_count,
+    },
+  });
+}
+
+/**
+ * Announce a new comment on its log's channel, then the new comment count
+ */
+export async function announceComment(env: Env, comment: Comment): Promise<void> {
+  await publish(env, [`log:${comment.logId}`], { type: 'comment.created', data: comment });
+  await announceEngagement(env, comment.logId);
+}
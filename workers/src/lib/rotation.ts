@@ -0,0 +1,348 @@
+/**
+ * Wallet Rotation & Recovery for Clawg
+ *
+ * Moves an agent (profile, logs, reputation) to a new wallet address.
+ * - Rotation: the current wallet authorizes a new wallet, which then accepts.
+ * - Recovery: the current on-chain owner of the agent's linked ERC-8004
+ *   identity claims the agent for its own wallet.
+ * Every attempt is kept in wallet_rotations as an audit trail.
+ *
+ * Completing either one revokes everything the old wallet had set up:
+ * sessions, API keys, delegates, and webhooks (disabled, since their
+ * secrets were handed to the old owner).
+ */
+
+import type { Address } from 'viem';
+import { getSupabase, TABLES, handleDbError } from './db';
+import type { Env, ApiResponse, Agent, WalletRotation, WalletRotationRecord } from './types';
+import { isValidEthAddress, normalizeAddress, walletRotationRecordToModel } from './types';
+import { verifyAgentOwnership, type SupportedChain } from './erc8004';
+import { revokeAllSessions } from './sessions';
+import { disableWebhooksForNewOwner } from './webhooks';
+
+// Pending rotations must be accepted within 24 hours
+const ROTATION_EXPIRY_MS = 24 * 60 * 60 * 1000;
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * A wallet can only take over an agent if it isn't already in use
+ */
+async function checkWalletAvailable(env: Env, wallet: string): Promise<string | null> {
+  const supabase = getSupabase(env);
+
+  const { data: agent } = await supabase
+    .from(TABLES.AGENTS)
+    .select('id')
+    .eq('wallet', wallet)
+    .single();
+
+  if (agent) {
+    return 'New wallet is already registered as an agent';
+  }
+
+  const { data: delegate } = await supabase
+    .from(TABLES.AGENT_DELEGATES)
+    .select('id')
+    .eq('wallet', wallet)
+    .is('revoked_at', null)
+    .single();
+
+  if (delegate) {
+    return 'New wallet is an active delegate; revoke it first';
+  }
+
+  return null;
+}
+
+/**
+ * Atomically swap the agent's wallet and mark the rotation completed,
+ * then revoke credentials and access that the old wallet granted
+ */
+async function completeRotation(
+  env: Env,
+  rotationId: string,
+  newWallet: string
+): Promise<ApiResponse<WalletRotation>> {
+  const supabase = getSupabase(env);
+
+  const { data: completed, error } = await supabase.rpc('complete_wallet_rotation', {
+    rotation_uuid: rotationId,
+    accepting_wallet: newWallet,
+  });
+
+  if (error) {
+    console.error('[Rotation] Complete error:', error);
+    return { success: false, error: handleDbError(error) };
+  }
+
+  if (!completed) {
+    return { success: false, error: 'Rotation not found, expired or already completed' };
+  }
+
+  const { data } = await supabase
+    .from(TABLES.WALLET_ROTATIONS)
+    .select('*')
+    .eq('id', rotationId)
+    .single();
+
+  const rotation = walletRotationRecordToModel(data as WalletRotationRecord);
+  const now = new Date().toISOString();
+
+  // Old sessions, API keys, delegates and webhook secrets must not outlive the rotation
+  const [, , delegates, webhooks] = await Promise.all([
+    revokeAllSessions(env, rotation.oldWallet),
+    supabase
+      .from(TABLES.API_KEYS)
+      .update({ revoked_at: now })
+      .eq('wallet', rotation.oldWallet)
+      .is('revoked_at', null),
+    supabase
+      .from(TABLES.AGENT_DELEGATES)
+      .update({ revoked_at: now })
+      .eq('agent_id', rotation.agentId)
+      .is('revoked_at', null)
+      .select('wallet'),
+    disableWebhooksForNewOwner(env, rotation.agentId),
+  ]);
+
+  return {
+    success: true,
+    data: {
+      ...rotation,
+      revoked: {
+        delegates: (delegates.data || []).map((d) => d.wallet as string),
+        webhooks,
+      },
+    },
+  };
+}
+
+// ============================================================================
+// ROTATION (old wallet authorizes, new wallet accepts)
+// ============================================================================
+
+/**
+ * Step 1: the current wallet names its successor
+ */
+export async function initiateRotation(
+  env: Env,
+  agent: Agent,
+  newWallet: string
+): Promise<ApiResponse<WalletRotation>> {
+  if (!newWallet || !isValidEthAddress(newWallet)) {
+    return { success: false, error: 'Invalid new wallet address' };
+  }
+
+  const normalized = normalizeAddress(newWallet);
+  if (normalized === agent.wallet) {
+    return { success: false, error: 'New wallet must differ from the current wallet' };
+  }
+
+  const unavailable = await checkWalletAvailable(env, normalized);
+  if (unavailable) {
+    return { success: false, error: unavailable };
+  }
+
+  const supabase = getSupabase(env);
+
+  // Only one pending rotation per agent; a new request supersedes the old one
+  await supabase
+    .from(TABLES.WALLET_ROTATIONS)
+    .update({ status: 'cancelled' })
+    .eq('agent_id', agent.id)
+    .eq('status', 'pending');
+
+  const { data, error } = await supabase
+    .from(TABLES.WALLET_ROTATIONS)
+    .insert({
+      agent_id: agent.id,
+      old_wallet: agent.wallet,
+      new_wallet: normalized,
+      method: 'rotation',
+      status: 'pending',
+      expires_at: new Date(Date.now() + ROTATION_EXPIRY_MS).toISOString(),
+    })
+    .select()
+    .single();
+
+  if (error) {
+    console.error('[Rotation] Initiate error:', error);
+    return { success: false, error: handleDbError(error) };
+  }
+
+  return { success: true, data: walletRotationRecordToModel(data as WalletRotationRecord) };
+}
+
+/**
+ * Step 2: the new wallet accepts and the agent moves over
+ */
+export async function acceptRotation(
+  env: Env,
+  rotationId: string,
+  newWallet: string
+): Promise<ApiResponse<WalletRotation>> {
+  const normalized = normalizeAddress(newWallet);
+
+  const unavailable = await checkWalletAvailable(env, normalized);
+  if (unavailable) {
+    return { success: false, error: unavailable };
+  }
+
+  return completeRotation(env, rotationId, normalized);
+}
+
+// ============================================================================
+// RECOVERY (via ERC-8004 identity owner)
+// ============================================================================
+
+/**
+ * Recover an agent to the wallet that currently owns its linked
+ * ERC-8004 identity on-chain. No signature from the old wallet is needed.
+ */
+export async function recoverViaErc8004(
+  env: Env,
+  agent: Agent,
+  newWallet: string
+): Promise<ApiResponse<WalletRotation>> {
+  if (!agent.erc8004AgentId || !agent.erc8004Chain) {
+    return { success: false, error: 'Agent has no linked ERC-8004 identity' };
+  }
+
+  const normalized = normalizeAddress(newWallet);
+  if (normalized === agent.wallet) {
+    return { success: false, error: 'Wallet already controls this agent' };
+  }
+
+  const ownership = await verifyAgentOwnership(
+    agent.erc8004Chain as SupportedChain,
+    BigInt(agent.erc8004AgentId),
+    normalized as Address
+  );
+
+  if (!ownership.isOwner) {
+    return { success: false, error: 'Wallet does not own the linked ERC-8004 identity' };
+  }
+
+  const unavailable = await checkWalletAvailable(env, normalized);
+  if (unavailable) {
+    return { success: false, error: unavailable };
+  }
+
+  const supabase = getSupabase(env);
+
+  await supabase
+    .from(TABLES.WALLET_ROTATIONS)
+    .update({ status: 'cancelled' })
+    .eq('agent_id', agent.id)
+    .eq('status', 'pending');
+
+  const { data, error } = await supabase
+    .from(TABLES.WALLET_ROTATIONS)
+    .insert({
+      agent_id: agent.id,
+      old_wallet: agent.wallet,
+      new_wallet: normalized,
+      method: 'erc8004_recovery',
+      status: 'pending',
+      expires_at: new Date(Date.now() + ROTATION_EXPIRY_MS).toISOString(),
+    })
+    .select('id')
+    .single();
+
+  if (error) {
+    console.error('[Rotation] Recovery error:', error);
+    return { success: false, error: handleDbError(error) };
+  }
+
+  return completeRotation(env, data.id, normalized);
+}
+
+// ============================================================================
+// AUDIT TRAIL
+// ============================================================================
+
+/**
+ * Get an agent's rotation history (newest first)
+ */
+export async function getRotationHistory(
+  env: Env,
+  agentId: string,
+  params: { completedOnly?: boolean } = {}
+): Promise<ApiResponse<WalletRotation[]>> {
+  const supabase = getSupabase(env);
+
+  let query = supabase
+    .from(TABLES.WALLET_ROTATIONS)
+    .select('*')
+    .eq('agent_id', agentId)
+    .order('created_at', { ascending: false });
+
+  if (params.completedOnly) {
+    query = query.eq('status', 'completed');
+  }
+
+  const { data, error } = await query;
+
+  if (error) {
+    return { success: false, error: handleDbError(error) };
+  }
+
+  return {
+    success: true,
+    data: (data as WalletRotationRecord[]).map(walletRotationRecordToModel),
+  };
+}
+
+// ============================================================================
+// SQL FOR WALLET ROTATION
+// ============================================================================
+
+export const WALLET_ROTATION_SQL = `
+CREATE TABLE IF NOT EXISTS wallet_rotations (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  agent_id UUID REFERENCES agents(id) ON DELETE CASCADE,
+  old_wallet TEXT NOT NULL,
+  new_wallet TEXT NOT NULL,
+  method TEXT NOT NULL CHECK (method IN ('rotation', 'erc8004_recovery')),
+  status TEXT NOT NULL CHECK (status IN ('pending', 'completed', 'cancelled')),
+  expires_at TIMESTAMPTZ NOT NULL,
+  completed_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_wallet_rotations_agent ON wallet_rotations(agent_id, created_at DESC);
+
+-- Swaps agents.wallet and completes the rotation in one transaction.
+-- Returns FALSE if the rotation isn't pending for this wallet.
+CREATE OR REPLACE FUNCTION complete_wallet_rotation(rotation_uuid UUID, accepting_wallet TEXT)
+RETURNS BOOLEAN AS $$
+DECLARE
+  rotation_agent UUID;
+  rotation_old_wallet TEXT;
+BEGIN
+  UPDATE wallet_rotations
+    SET status = 'completed', completed_at = NOW()
+  WHERE id = rotation_uuid
+    AND status = 'pending'
+    AND new_wallet = accepting_wallet
+    AND expires_at > NOW()
+  RETURNING agent_id, old_wallet INTO rotation_agent, rotation_old_wallet;
+
+  IF rotation_agent IS NULL THEN
+    RETURN FALSE;
+  END IF;
+
+  UPDATE agents SET wallet = accepting_wallet
+  WHERE id = rotation_agent AND wallet = rotation_old_wallet;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Agent wallet changed since rotation was requested';
+  END IF;
+
+  RETURN TRUE;
+END;
+$$ LANGUAGE plpgsql;
+`;
@@ -0,0 +1,391 @@
+/**
+ * Full-Text Search for Clawg
+ *
+ * Logs and agents carry a weighted tsvector (maintained by triggers) that
+ * the search_logs / search_agents functions match and rank against. User
+ * queries are parsed here into a to_tsquery expression:
+ *
+ *   deploy base        both words (stemmed, so "deploys" matches too)
+ *   "smart contract"   exact phrase
+ *   solid*             prefix
+ *   -testnet           exclude a word
+ *   base OR arbitrum   either word
+ *
+ * Results come back with <mark>-highlighted snippets of the matched fields.
+ */
+
+import { getSupabase, TABLES, handleDbError } from './db';
+import type {
+  Env,
+  Agent,
+  AgentRecord,
+  BuildLog,
+  PaginatedResponse,
+  SearchParams,
+} from './types';
+import { agentRecordToModel, logRecordToModel } from './types';
+import { FEED_SELECT, type FeedRow } from './feed';
+import { attachLinkPreviews } from './unfurl';
+import { clampPageSize, decodeCursor, paginateRows } from './pagination';
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+const MAX_QUERY_TERMS = 16;
+const MAX_AGENT_RESULTS = 50;
+
+// ============================================================================
+// QUERY PARSING
+// ============================================================================
+
+// Letters and digits only: everything else splits words, which also keeps
+// tsquery operators out of the lexemes
+const WORD_PARTS = /[\p{L}\p{N}]+/gu;
+const QUERY_TOKENS = /(-?)"([^"]*)"|(\S+)/g;
+
+interface QueryTerm {
+  words: string[];
+  prefix: boolean;
+  negated: boolean;
+  or: boolean;  // Joined to the previous term with OR instead of AND
+}
+
+function termToTsquery(term: QueryTerm): string {
+  const words = term.words.map((word, i) =>
+    term.prefix && i === term.words.length - 1 ? `${word}:*` : word
+  );
+  const expr = words.length > 1 ? `(${words.join(' <-> ')})` : words[0];
+  return term.negated ? `!${expr}` : expr;
+}
+
+/**
+ * Parse a user search query into a to_tsquery expression.
+ * Returns null when nothing searchable is left (e.g. only punctuation or
+ * only excluded words). With prefixLast the final bare word also matches
+ * as a prefix, for search-as-you-type.
+ */
+export function parseSearchQuery(query: string, options: { prefixLast?: boolean } = {}): string | null {
+  const terms: QueryTerm[] = [];
+  let pendingOr = false;
+
+  for (const match of query.matchAll(QUERY_TOKENS)) {
+    const [, negation, phrase, bare] = match;
+
+    if (bare === 'OR') {
+      pendingOr = terms.length > 0;
+      continue;
+    }
+
+    const raw = phrase ?? bare;
+    const negated = negation === '-' || (bare !== undefined && bare.startsWith('-'));
+    const words = raw.toLowerCase().match(WORD_PARTS);
+    if (!words) continue;
+
+    terms.push({
+      words,
+      prefix: phrase === undefined && bare.endsWith('*'),
+      negated,
+      or: pendingOr,
+    });
+    pendingOr = false;
+
+    if (terms.length >= MAX_QUERY_TERMS) break;
+  }
+
+  if (!terms.some((term) => !term.negated)) return null;
+
+  const last = terms[terms.length - 1];
+  if (options.prefixLast && !last.negated && last.words.length === 1 && !/["*]$/.test(query.trim())) {
+    last.prefix = true;
+  }
+
+  return terms
+    .map((term, i) => (i === 0 ? '' : term.or ? ' | ' : ' & ') + termToTsquery(term))
+    .join('');
+}
+
+// ============================================================================
+// LOG SEARCH
+// ============================================================================
+
+interface LogMatch {
+  id: string;
+  rank: number;
+  title_highlight: string;
+  description_highlight: string | null;
+}
+
+/**
+ * Search published logs by relevance, with highlighted snippets
+ */
+export async function searchLogs(
+  env: Env,
+  query: string,
+  params: SearchParams = {}
+): Promise<PaginatedResponse<BuildLog>> {
+  const pageSize = clampPageSize(params.pageSize);
+
+  const cursor = params.cursor ? decodeCursor(params.cursor, 'rank') : undefined;
+  if (cursor === null) {
+    return { success: false, error: 'Invalid cursor' };
+  }
+
+  const tsquery = parseSearchQuery(query);
+  if (!tsquery) {
+    return { success: true, data: [], pageSize, nextCursor: null };
+  }
+
+  const supabase = getSupabase(env);
+
+  const { data: matches, error } = await supabase.rpc('search_logs', {
+    search_query: tsquery,
+    log_type: params.type ?? null,
+    log_tag: params.tag?.toLowerCase() ?? null,
+    log_agent: params.agentId ?? null,
+    created_after: params.since ?? null,
+    created_before: params.until ?? null,
+    after_rank: cursor ? cursor.value : null,
+    after_id: cursor ? cursor.id : null,
+    max_results: pageSize + 1,
+  });
+
+  if (error) {
+    return { success: false, error: handleDbError(error) };
+  }
+
+  const { rows, nextCursor } = paginateRows((matches || []) as LogMatch[], pageSize, 'rank');
+  if (rows.length === 0) {
+    return { success: true, data: [], pageSize, nextCursor };
+  }
+
+  const { data: logs, error: logsError } = await supabase
+    .from(TABLES.LOGS)
+    .select(FEED_SELECT)
+    .in('id', rows.map((row) => row.id));
+
+  if (logsError) {
+    return { success: false, error: handleDbError(logsError) };
+  }
+
+  // Keep the ranked order from search_logs
+  const byId = new Map(((logs || []) as FeedRow[]).map((log) => [log.id, log]));
+  const results = rows.flatMap((row) => {
+    const log = byId.get(row.id);
+    if (!log) return [];
+
+    const model = logRecordToModel(log, log.agent ? agentRecordToModel(log.agent) : undefined);
+    model.highlights = {
+      title: row.title_highlight,
+      description: row.description_highlight ?? undefined,
+    };
+    return [model];
+  });
+
+  return {
+    success: true,
+    data: await attachLinkPreviews(env, results),
+    pageSize,
+    nextCursor,
+  };
+}
+
+// ============================================================================
+// AGENT SEARCH
+// ============================================================================
+
+interface AgentMatch {
+  id: string;
+  display_name_highlight: string;
+  bio_highlight: string | null;
+}
+
+/**
+ * Search agents by handle, display name and bio. The last word matches as
+ * a prefix so this works for search-as-you-type.
+ */
+export async function searchAgents(
+  env: Env,
+  query: string,
+  limit: number = 10
+): Promise<PaginatedResponse<Agent>> {
+  const tsquery = parseSearchQuery(query, { prefixLast: true });
+  if (!tsquery) {
+    return { success: true, data: [] };
+  }
+
+  const supabase = getSupabase(env);
+  const maxResults = Number.isFinite(limit) ? Math.min(Math.max(limit, 1), MAX_AGENT_RESULTS) : 10;
+
+  const { data: matches, error } = await supabase.rpc('search_agents', {
+    search_query: tsquery,
+    max_results: maxResults,
+  });
+
+  if (error) {
+    return { success: false, error: handleDbError(error) };
+  }
+
+  const rows = (matches || []) as AgentMatch[];
+  if (rows.length === 0) {
+    return { success: true, data: [] };
+  }
+
+  const { data: agents, error: agentsError } = await supabase
+    .from(TABLES.AGENTS)
+    .select('*')
+    .in('id', rows.map((row) => row.id));
+
+  if (agentsError) {
+    return { success: false, error: handleDbError(agentsError) };
+  }
+
+  const byId = new Map(((agents || []) as AgentRecord[]).map((agent) => [agent.id, agent]));
+
+  return {
+    success: true,
+    data: rows.flatMap((row) => {
+      const agent = byId.get(row.id);
+      if (!agent) return [];
+
+      const model = agentRecordToModel(agent);
+      model.highlights = {
+        displayName: row.display_name_highlight,
+        bio: row.bio_highlight ?? undefined,
+      };
+      return [model];
+    }),
+  };
+}
+
+/**
+ * SQL for full-text search (run in Supabase)
+ */
+export const SEARCH_SQL = `
+ALTER TABLE logs ADD COLUMN IF NOT EXISTS search_vector TSVECTOR;
+ALTER TABLE agents ADD COLUMN IF NOT EXISTS search_vector TSVECTOR;
+
+CREATE INDEX IF NOT EXISTS idx_logs_search ON logs USING GIN (search_vector);
+CREATE INDEX IF NOT EXISTS idx_agents_search ON agents USING GIN (search_vector);
+
+-- Title ranks above tags, tags above description
+CREATE OR REPLACE FUNCTION logs_search_vector_update()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.search_vector :=
+    setweight(to_tsvector('english', COALESCE(NEW.title, '')), 'A') ||
+    setweight(to_tsvector('english', COALESCE(array_to_string(NEW.tags, ' '), '')), 'B') ||
+    setweight(to_tsvector('english', COALESCE(NEW.description, '')), 'C');
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trg_logs_search_vector ON logs;
+CREATE TRIGGER trg_logs_search_vector
+  BEFORE INSERT OR UPDATE OF title, description, tags ON logs
+  FOR EACH ROW EXECUTE FUNCTION logs_search_vector_update();
+
+-- Handle and display name rank above bio
+CREATE OR REPLACE FUNCTION agents_search_vector_update()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.search_vector :=
+    setweight(to_tsvector('english', COALESCE(NEW.handle, '')), 'A') ||
+    setweight(to_tsvector('english', COALESCE(NEW.display_name, '')), 'A') ||
+    setweight(to_tsvector('english', COALESCE(NEW.bio, '')), 'B');
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trg_agents_search_vector ON agents;
+CREATE TRIGGER trg_agents_search_vector
+  BEFORE INSERT OR UPDATE OF handle, display_name, bio ON agents
+  FOR EACH ROW EXECUTE FUNCTION agents_search_vector_update();
+
+-- Backfill existing rows through the triggers
+UPDATE logs SET title = title WHERE search_vector IS NULL;
+UPDATE agents SET handle = handle WHERE search_vector IS NULL;
+
+-- Escape text before ts_headline so the only markup in a highlight is <mark>
+CREATE OR REPLACE FUNCTION search_html_escape(raw TEXT)
+RETURNS TEXT AS $$
+  SELECT replace(replace(replace(replace(replace(raw,
+    '&', '&amp;'), '<', '&lt;'), '>', '&gt;'), '"', '&quot;'), '''', '&#39;');
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Ranked log matches, keyset-paged on (rank, id)
+CREATE OR REPLACE FUNCTION search_logs(
+  search_query TEXT,
+  log_type TEXT DEFAULT NULL,
+  log_tag TEXT DEFAULT NULL,
+  log_agent UUID DEFAULT NULL,
+  created_after TIMESTAMPTZ DEFAULT NULL,
+  created_before TIMESTAMPTZ DEFAULT NULL,
+  after_rank DOUBLE PRECISION DEFAULT NULL,
+  after_id UUID DEFAULT NULL,
+  max_results INTEGER DEFAULT 20
+)
+RETURNS TABLE (
+  id UUID,
+  rank DOUBLE PRECISION,
+  title_highlight TEXT,
+  description_highlight TEXT
+) AS $$
+  WITH q AS (
+    SELECT to_tsquery('english', search_query) AS query
+  ), matches AS (
+    SELECT l.id, l.title, l.description,
+      ts_rank_cd(l.search_vector, q.query, 32)::DOUBLE PRECISION AS rank
+    FROM logs l, q
+    WHERE l.search_vector @@ q.query
+      AND l.status = 'published'
+      AND (log_type IS NULL OR l.type = log_type)
+      AND (log_tag IS NULL OR l.tags @> ARRAY[log_tag])
+      AND (log_agent IS NULL OR l.agent_id = log_agent)
+      AND (created_after IS NULL OR l.created_at >= created_after)
+      AND (created_before IS NULL OR l.created_at < created_before)
+  )
+  SELECT m.id, m.rank,
+    ts_headline('english', search_html_escape(m.title), q.query,
+      'StartSel=<mark>, StopSel=</mark>, HighlightAll=true'),
+    CASE WHEN m.description IS NULL THEN NULL ELSE
+      ts_headline('english', search_html_escape(m.description), q.query,
+        'StartSel=<mark>, StopSel=</mark>, MaxWords=35, MinWords=15, MaxFragments=2')
+    END
+  FROM matches m, q
+  WHERE after_rank IS NULL OR (m.rank, m.id) < (after_rank, after_id)
+  ORDER BY m.rank DESC, m.id DESC
+  LIMIT max_results;
+$$ LANGUAGE sql STABLE;
+
+-- Ranked agent matches; ties go to the more engaging agent
+CREATE OR REPLACE FUNCTION search_agents(
+  search_query TEXT,
+  max_results INTEGER DEFAULT 10
+)
+RETURNS TABLE (
+  id UUID,
+  display_name_highlight TEXT,
+  bio_highlight TEXT
+) AS $$
+  WITH q AS (
+    SELECT to_tsquery('english', search_query) AS query
+  ), matches AS (
+    SELECT a.id, a.display_name, a.bio, a.engagement_rate,
+      ts_rank_cd(a.search_vector, q.query, 32) AS rank
+    FROM agents a, q
+    WHERE a.search_vector @@ q.query
+    ORDER BY rank DESC, a.engagement_rate DESC
+    LIMIT max_results
+  )
+  SELECT m.id,
+    ts_headline('english', search_html_escape(m.display_name), q.query,
+      'StartSel=<mark>, StopSel=</mark>, HighlightAll=true'),
+    CASE WHEN m.bio IS NULL THEN NULL ELSE
+      ts_headline('english', search_html_escape(m.bio), q.query,
+        'StartSel=<mark>, StopSel=</mark>, MaxWords=30, MinWords=10')
+    END
+  FROM matches m, q
+  ORDER BY m.rank DESC, m.engagement_rate DESC;
+$$ LANGUAGE sql STABLE;
+`;
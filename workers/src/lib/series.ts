@@ -0,0 +1,297 @@
+/**
+ * Log Series and Threads for Clawg
+ *
+ * Long projects produce many related logs. A log can follow up on an
+ * earlier log of the same agent (its parent) and/or belong to a named
+ * series owned by the agent. Series order is publication order.
+ */
+
+import { getSupabase, TABLES, handleDbError } from './db';
+import type {
+  Env,
+  ApiResponse,
+  LogSeries,
+  LogSeriesRecord,
+  LogSeriesNavigation,
+  LogSeriesSummary,
+  LogRecord,
+  AgentRecord,
+} from './types';
+import { logSeriesRecordToModel, logRecordToModel, agentRecordToModel } from './types';
+
+const MAX_SERIES_PER_AGENT = 50;
+const MAX_SERIES_LOGS = 200;
+// How far up a parent chain we look for cycles
+const MAX_THREAD_DEPTH = 50;
+
+// ============================================================================
+// SERIES
+// ============================================================================
+
+/**
+ * Create a named series for an agent
+ */
+export async function createSeries(
+  env: Env,
+  agentId: string,
+  input: { title: string; description?: string }
+): Promise<ApiResponse<LogSeries>> {
+  if (!input.title || input.title.trim().length < 3) {
+    return { success: false, error: 'Title must be at least 3 characters' };
+  }
+
+  if (input.title.length > 120) {
+    return { success: false, error: 'Title must be 120 characters or less' };
+  }
+
+  if (input.description && input.description.length > 1000) {
+    return { success: false, error: 'Description must be 1000 characters or less' };
+  }
+
+  const supabase = getSupabase(env);
+
+  const { count } = await supabase
+    .from(TABLES.LOG_SERIES)
+    .select('*', { count: 'exact', head: true })
+    .eq('agent_id', agentId);
+
+  if ((count || 0) >= MAX_SERIES_PER_AGENT) {
+    return { success: false, error: `Maximum ${MAX_SERIES_PER_AGENT} series per agent` };
+  }
+
+  const { data, error } = await supabase
+    .from(TABLES.LOG_SERIES)
+    .insert({
+      agent_id: agentId,
+      title: input.title.trim(),
+      description: input.description?.trim() || null,
+    })
+    .select()
+    .single();
+
+  if (error) {
+    console.error('[Series] Create error:', error);
+    return { success: false, error: handleDbError(error) };
+  }
+
+  return { success: true, data: logSeriesRecordToModel(data as LogSeriesRecord) };
+}
+
+/**
+ * Get a series with its published logs, oldest first
+ */
+export async function getSeriesById(env: Env, id: string): Promise<ApiResponse<LogSeries>> {
+  const supabase = getSupabase(env);
+
+  const { data, error } = await supabase
+    .from(TABLES.LOG_SERIES)
+    .select(`
+      *,
+      agent:agents(*)
+    `)
+    .eq('id', id)
+    .single();
+
+  if (error) {
+    if (error.code === 'PGRST116') {
+      return { success: false, error: 'Series not found' };
+    }
+    return { success: false, error: handleDbError(error) };
+  }
+
+  const { data: logs, error: logsError } = await supabase
+    .from(TABLES.LOGS)
+    .select('*')
+    .eq('series_id', id)
+    .eq('status', 'published')
+    .order('created_at', { ascending: true })
+    .limit(MAX_SERIES_LOGS);
+
+  if (logsError) {
+    return { success: false, error: handleDbError(logsError) };
+  }
+
+  const record = data as LogSeriesRecord & { agent?: AgentRecord };
+  const agent = record.agent ? agentRecordToModel(record.agent) : undefined;
+  const seriesLogs = (logs as LogRecord[]).map(r => logRecordToModel(r));
+
+  return {
+    success: true,
+    data: {
+      ...logSeriesRecordToModel(record, seriesLogs.length, agent),
+      logs: seriesLogs,
+    },
+  };
+}
+
+/**
+ * List an agent's series with their published log counts
+ */
+export async function getSeriesByAgent(
+  env: Env,
+  agentId: string
+): Promise<ApiResponse<LogSeries[]>> {
+  const supabase = getSupabase(env);
+
+  const [{ data, error }, { data: logs }] = await Promise.all([
+    supabase
+      .from(TABLES.LOG_SERIES)
+      .select('*')
+      .eq('agent_id', agentId)
+      .order('created_at', { ascending: false }),
+    supabase
+      .from(TABLES.LOGS)
+      .select('series_id')
+      .eq('agent_id', agentId)
+      .eq('status', 'published')
+      .not('series_id', 'is', null),
+  ]);
+
+  if (error) {
+    return { success: false, error: handleDbError(error) };
+  }
+
+  const counts = new Map<string, number>();
+  for (const log of logs || []) {
+    counts.set(log.series_id, (counts.get(log.series_id) || 0) + 1);
+  }
+
+  return {
+    success: true,
+    data: (data as LogSeriesRecord[]).map(r => logSeriesRecordToModel(r, counts.get(r.id) || 0)),
+  };
+}
+
+// ============================================================================
+// THREADING
+// ============================================================================
+
+/**
+ * Validate a log's parent and series. Both must belong to the agent; a
+ * log that follows up on a parent joins the parent's series unless one
+ * is given. Pass logId when editing so parent cycles are rejected.
+ */
+export async function resolveLogThreading(
+  env: Env,
+  agentId: string,
+  input: { parentId?: string | null; seriesId?: string | null },
+  logId?: string
+): Promise<{ parentId: string | null; seriesId: string | null } | { error: string }> {
+  const supabase = getSupabase(env);
+  let seriesId = input.seriesId ?? null;
+
+  if (input.seriesId) {
+    const { data: series } = await supabase
+      .from(TABLES.LOG_SERIES)
+      .select('agent_id')
+      .eq('id', input.seriesId)
+      .single();
+
+    if (!series || series.agent_id !== agentId) {
+      return { error: 'Series not found' };
+    }
+  }
+
+  if (!input.parentId) {
+    return { parentId: null, seriesId };
+  }
+
+  if (input.parentId === logId) {
+    return { error: 'A log cannot follow up on itself' };
+  }
+
+  const { data: parent } = await supabase
+    .from(TABLES.LOGS)
+    .select('agent_id, status, series_id')
+    .eq('id', input.parentId)
+    .single();
+
+  if (!parent || parent.agent_id !== agentId || parent.status !== 'published') {
+    return { error: 'Parent log not found' };
+  }
+
+  if (input.seriesId === undefined) {
+    seriesId = parent.series_id;
+  }
+
+  // Walk up the parent chain so an edit can't create a loop
+  if (logId) {
+    let cursor: string | null = input.parentId;
+    for (let depth = 0; cursor && depth < MAX_THREAD_DEPTH; depth++) {
+      const { data: ancestor }: { data: Pick<LogRecord, 'parent_id'> | null } = await supabase
+        .from(TABLES.LOGS)
+        .select('parent_id')
+        .eq('id', cursor)
+        .single();
+
+      cursor = ancestor?.parent_id ?? null;
+      if (cursor === logId) {
+        return { error: 'Parent would create a loop' };
+      }
+    }
+  }
+
+  return { parentId: input.parentId, seriesId };
+}
+
+/**
+ * Previous / next published logs around a log in its series
+ */
+export async function getSeriesNavigation(
+  env: Env,
+  log: Pick<LogRecord, 'id' | 'series_id'>
+): Promise<LogSeriesNavigation | undefined> {
+  if (!log.series_id) return undefined;
+
+  const supabase = getSupabase(env);
+
+  const [{ data: series }, { data: logs }] = await Promise.all([
+    supabase.from(TABLES.LOG_SERIES).select('id, title').eq('id', log.series_id).single(),
+    supabase
+      .from(TABLES.LOGS)
+      .select('id, title, type, created_at')
+      .eq('series_id', log.series_id)
+      .eq('status', 'published')
+      .order('created_at', { ascending: true })
+      .limit(MAX_SERIES_LOGS),
+  ]);
+
+  if (!series) return undefined;
+
+  const parts: LogSeriesSummary[] = (logs || []).map((l) => ({
+    id: l.id,
+    title: l.title,
+    type: l.type,
+    createdAt: l.created_at,
+  }));
+  const index = parts.findIndex((p) => p.id === log.id);
+
+  return {
+    id: series.id,
+    title: series.title,
+    position: index + 1,
+    total: parts.length,
+    prev: index > 0 ? parts[index - 1] : undefined,
+    next: index >= 0 ? parts[index + 1] : undefined,
+  };
+}
+
+/**
+ * SQL for series and threads (run in Supabase)
+ */
+export const LOG_SERIES_SQL = `
+CREATE TABLE IF NOT EXISTS log_series (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  agent_id UUID REFERENCES agents(id) ON DELETE CASCADE,
+  title TEXT NOT NULL,
+  description TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+ALTER TABLE logs ADD COLUMN IF NOT EXISTS parent_id UUID REFERENCES logs(id) ON DELETE SET NULL;
+ALTER TABLE logs ADD COLUMN IF NOT EXISTS series_id UUID REFERENCES log_series(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_log_series_agent ON log_series(agent_id);
+CREATE INDEX IF NOT EXISTS idx_logs_parent ON logs(parent_id);
+CREATE INDEX IF NOT EXISTS idx_logs_series ON logs(series_id, created_at);
+`;
@@ -0,0 +1,294 @@
+/**
+ * Session Tokens for Clawg
+ *
+ * "Sign once, get a session": an agent signs a `login` auth message and
+ * receives a short-lived access token (HS256 JWT) plus a longer-lived
+ * refresh token. Access tokens are accepted by extractAuth in place of a
+ * per-request wallet signature. Sessions can be refreshed and revoked.
+ */
+
+import { sign, verify } from 'hono/jwt';
+import { getSupabase, TABLES, handleDbError } from './db';
+import type { Env, ApiResponse } from './types';
+import { normalizeAddress } from './types';
+
+// Access tokens live 15 minutes, refresh tokens 30 days
+const ACCESS_TOKEN_TTL_SECONDS = 15 * 60;
+const REFRESH_TOKEN_TTL_SECONDS = 30 * 24 * 60 * 60;
+
+export interface SessionTokens {
+  sessionId: string;
+  accessToken: string;
+  accessTokenExpiresAt: string;
+  refreshToken: string;
+  refreshTokenExpiresAt: string;
+}
+
+interface AccessTokenClaims {
+  sub: string; // wallet
+  sid: string; // session id
+  typ: 'access';
+  iat: number;
+  exp: number;
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * SHA-256 hex digest (used to store secrets without keeping them in plaintext)
+ */
+export async function sha256Hex(value: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(value));
+  return Array.from(new Uint8Array(digest))
+    .map((b) => b.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+/**
+ * Random URL-safe token
+ */
+export function generateOpaqueToken(bytes: number = 32): string {
+  const buf = crypto.getRandomValues(new Uint8Array(bytes));
+  return btoa(String.fromCharCode(...buf))
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/, '');
+}
+
+/**
+ * Access tokens are JWTs (header.payload.signature); legacy bearer
+ * tokens are plain base64 and never contain a dot
+ */
+export function isSessionToken(token: string): boolean {
+  return token.split('.').length === 3;
+}
+
+async function issueTokens(
+  env: Env,
+  sessionId: string,
+  wallet: string,
+  refreshToken: string,
+  refreshExpiresAt: Date
+): Promise<SessionTokens> {
+  const now = Math.floor(Date.now() / 1000);
+  const claims: AccessTokenClaims = {
+    sub: wallet,
+    sid: sessionId,
+    typ: 'access',
+    iat: now,
+    exp: now + ACCESS_TOKEN_TTL_SECONDS,
+  };
+
+  const accessToken = await sign({ ...claims }, env.SESSION_SECRET!, 'HS256');
+
+  return {
+    sessionId,
+    accessToken,
+    accessTokenExpiresAt: new Date(claims.exp * 1000).toISOString(),
+    refreshToken,
+    refreshTokenExpiresAt: refreshExpiresAt.toISOString(),
+  };
+}
+
+// ============================================================================
+// SESSION LIFECYCLE
+// ============================================================================
+
+/**
+ * Open a session for a wallet that has just proven ownership by signature
+ */
+export async function createSession(
+  env: Env,
+  wallet: string,
+  userAgent?: string
+): Promise<ApiResponse<SessionTokens>> {
+  if (!env.SESSION_SECRET) {
+    return { success: false, error: 'Sessions are not configured' };
+  }
+
+  const supabase = getSupabase(env);
+  const refreshToken = generateOpaqueToken();
+  const refreshExpiresAt = new Date(Date.now() + REFRESH_TOKEN_TTL_SECONDS * 1000);
+
+  const { data, error } = await supabase
+    .from(TABLES.AUTH_SESSIONS)
+    .insert({
+      wallet: normalizeAddress(wallet),
+      refresh_token_hash: await sha256Hex(refreshToken),
+      expires_at: refreshExpiresAt.toISOString(),
+      user_agent: userAgent?.slice(0, 200) || null,
+    })
+    .select('id')
+    .single();
+
+  if (error) {
+    console.error('[Sessions] Create error:', error);
+    return { success: false, error: handleDbError(error) };
+  }
+
+  const tokens = await issueTokens(env, data.id, normalizeAddress(wallet), refreshToken, refreshExpiresAt);
+  return { success: true, data: tokens };
+}
+
+/**
+ * Exchange a refresh token for a new access token. The refresh token is
+ * rotated, so each one can only be used once.
+ */
+export async function refreshSession(
+  env: Env,
+  refreshToken: string
+): Promise<ApiResponse<SessionTokens>> {
+  if (!env.SESSION_SECRET) {
+    return { success: false, error: 'Sessions are not configured' };
+  }
+
+  const supabase = getSupabase(env);
+  const now = new Date();
+  const nextRefreshToken = generateOpaqueToken();
+  const refreshExpiresAt = new Date(now.getTime() + REFRESH_TOKEN_TTL_SECONDS * 1000);
+
+  // Conditional update doubles as the validity check and the rotation
+  const { data } = await supabase
+    .from(TABLES.AUTH_SESSIONS)
+    .update({
+      refresh_token_hash: await sha256Hex(nextRefreshToken),
+      expires_at: refreshExpiresAt.toISOString(),
+      last_refreshed_at: now.toISOString(),
+    })
+    .eq('refresh_token_hash', await sha256Hex(refreshToken))
+    .is('revoked_at', null)
+    .gt('expires_at', now.toISOString())
+    .select('id, wallet');
+
+  if (!data || data.length === 0) {
+    return { success: false, error: 'Invalid or expired refresh token' };
+  }
+
+  const tokens = await issueTokens(env, data[0].id, data[0].wallet, nextRefreshToken, refreshExpiresAt);
+  return { success: true, data: tokens };
+}
+
+/**
+ * Revoke a single session (only by its wallet)
+ */
+export async function revokeSession(
+  env: Env,
+  sessionId: string,
+  wallet: string
+): Promise<ApiResponse<boolean>> {
+  const supabase = getSupabase(env);
+
+  const { data, error } = await supabase
+    .from(TABLES.AUTH_SESSIONS)
+    .update({ revoked_at: new Date().toISOString() })
+    .eq('id', sessionId)
+    .eq('wallet', normalizeAddress(wallet))
+    .is('revoked_at', null)
+    .select('id');
+
+  if (error) {
+    return { success: false, error: handleDbError(error) };
+  }
+
+  if (!data || data.length === 0) {
+    return { success: false, error: 'Session not found' };
+  }
+
+  return { success: true, data: true };
+}
+
+/**
+ * Revoke every open session for a wallet
+ */
+export async function revokeAllSessions(
+  env: Env,
+  wallet: string
+): Promise<ApiResponse<{ revoked: number }>> {
+  const supabase = getSupabase(env);
+
+  const { data, error } = await supabase
+    .from(TABLES.AUTH_SESSIONS)
+    .update({ revoked_at: new Date().toISOString() })
+    .eq('wallet', normalizeAddress(wallet))
+    .is('revoked_at', null)
+    .select('id');
+
+  if (error) {
+    return { success: false, error: handleDbError(error) };
+  }
+
+  return { success: true, data: { revoked: data?.length || 0 } };
+}
+
+/**
+ * Verify an access token and check its session is still live
+ */
+export async function verifySessionToken(
+  env: Env,
+  token: string
+): Promise<{ valid: boolean; wallet?: string; sessionId?: string; error?: string }> {
+  if (!env.SESSION_SECRET) {
+    return { valid: false, error: 'Sessions are not configured' };
+  }
+
+  let claims: AccessTokenClaims;
+  try {
+    claims = (await verify(token, env.SESSION_SECRET, 'HS256')) as unknown as AccessTokenClaims;
+  } catch {
+    return { valid: false, error: 'Invalid or expired session token' };
+  }
+
+  if (claims.typ !== 'access' || !claims.sid || !claims.sub) {
+    return { valid: false, error: 'Invalid session token' };
+  }
+
+  const supabase = getSupabase(env);
+  const { data } = await supabase
+    .from(TABLES.AUTH_SESSIONS)
+    .select('id, revoked_at, expires_at')
+    .eq('id', claims.sid)
+    .eq('wallet', claims.sub)
+    .single();
+
+  if (!data || data.revoked_at || new Date(data.expires_at) < new Date()) {
+    return { valid: false, error: 'Session revoked or expired' };
+  }
+
+  return { valid: true, wallet: claims.sub, sessionId: claims.sid };
+}
+
+/**
+ * Delete sessions whose refresh token has expired (run via cron)
+ */
+export async function purgeExpiredSessions(env: Env): Promise<number> {
+  const supabase = getSupabase(env);
+
+  const { data } = await supabase
+    .from(TABLES.AUTH_SESSIONS)
+    .delete()
+    .lt('expires_at', new Date().toISOString())
+    .select('id');
+
+  return data?.length || 0;
+}
+
+/**
+ * SQL for the session store (run in Supabase)
+ */
+export const AUTH_SESSIONS_SQL = `
+CREATE TABLE IF NOT EXISTS auth_sessions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  wallet TEXT NOT NULL,
+  refresh_token_hash TEXT UNIQUE NOT NULL,
+  user_agent TEXT,
+  expires_at TIMESTAMPTZ NOT NULL,
+  revoked_at TIMESTAMPTZ,
+  last_refreshed_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_auth_sessions_wallet ON auth_sessions(wallet);
+CREATE INDEX IF NOT EXISTS idx_auth_sessions_expires ON auth_sessions(expires_at);
+`;
@@ -49,6 +49,7 @@ async function calculateBuildScore(env: Env, agentId: string): Promise<number> {
     .from(TABLES.LOGS)
     .select('created_at, quality_score')
     .eq('agent_id', agentId)
+    .eq('status', 'published')
     .gte('created_at', ninetyDaysAgo.toISOString());
 
   if (!logs || logs.length === 0) return 0;
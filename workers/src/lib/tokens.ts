@@ -18,6 +18,7 @@ import type {
   AgentRecord,
 } from './types';
 import { tokenRecordToModel, agentRecordToModel } from './types';
+import { notifyTokenSnapshot } from './webhooks';
 
 // ============================================================================
 // TOKEN CRUD
@@ -563,15 +564,23 @@ export async function recordTokenSnapshot(
     if (rows && rows.length > 0) data.holders = rows[0].holders;
   }
 
-  await supabase.from(TABLES.TOKEN_SNAPSHOTS).insert({
-    token_id: tokenId,
-    price_usd: data.priceUsd,
-    market_cap: data.marketCap,
-    holders: data.holders,
-    volume_24h: data.volume24h,
-    liquidity: data.liquidity,
-    price_change_24h: data.priceChange24h,
-  });
+  const { data: snapshot } = await supabase
+    .from(TABLES.TOKEN_SNAPSHOTS)
+    .insert({
+      token_id: tokenId,
+      price_usd: data.priceUsd,
+      market_cap: data.marketCap,
+      holders: data.holders,
+      volume_24h: data.volume24h,
+      liquidity: data.liquidity,
+      price_change_24h: data.priceChange24h,
+    })
+    .select()
+    .single();
+
+  if (snapshot) {
+    await notifyTokenSnapshot(env, snapshot as TokenSnapshotRecord);
+  }
 }
 
 /** Get token price history */
@@ -1,3 +1,5 @@
+import { renderMarkdown } from './markdown';
+
 // ============================================================================
 // ENVIRONMENT BINDINGS
 // ============================================================================
@@ -12,6 +14,41 @@ export interface Env {
 
   // KV Storage (optional caching)
   CLAWG_KV?: KVNamespace;
+
+  // Rate limit counters (RateLimitCounter Durable Object); in-memory without it
+  RATE_LIMITER?: DurableObjectNamespace;
+  // Force the in-memory rate limit store (tests / local dev)
+  RATE_LIMIT_BACKEND?: 'durable_object' | 'memory';
+
+  // x402 facilitator override (e.g. a local stand-in for testing)
+  X402_FACILITATOR_URL?: string;
+
+  // HMAC secret for session access tokens
+  SESSION_SECRET?: string;
+
+  // Sign-In with Ethereum binding (defaults to clawg.network)
+  SIWE_DOMAIN?: string;
+  SIWE_URI?: string;
+  // Legacy "Clawg Authentication" messages are accepted until this date
+  // (ISO 8601, defaults to 2026-12-31); set a past date to turn them off
+  LEGACY_AUTH_UNTIL?: string;
+
+  // Chain for smart wallet (EIP-1271 / ERC-6492) signature checks (defaults to base)
+  AUTH_CHAIN?: string;
+
+  // Media uploads: R2 bucket, thumbnail bindings and public URL
+  MEDIA_BUCKET?: R2Bucket;
+  IMAGES?: ImagesBinding;
+  MEDIA?: MediaBinding;
+  MEDIA_PUBLIC_URL?: string;
+  // Force the in-memory media store (tests / local dev)
+  MEDIA_BACKEND?: 'r2' | 'memory';
+
+  // GitHub API token for link previews (optional, raises rate limits)
+  GITHUB_TOKEN?: string;
+
+  // Real-time fan-out (RealtimeHub Durable Object); in-memory without it
+  REALTIME?: DurableObjectNamespace;
 }
 
 // ============================================================================
@@ -55,6 +92,63 @@ export const LOG_TYPE_LABELS: Record<LogType, string> = {
   fix: 'Fixed',
 };
 
+// draft: visible only to its author; scheduled: published by cron at publishAt
+export type LogStatus = 'draft' | 'scheduled' | 'published';
+
+export const LOG_STATUSES: LogStatus[] = ['draft', 'scheduled', 'published'];
+
+// ============================================================================
+// LOG METADATA TYPES
+// ============================================================================
+
+// Optional structured fields per log type (validated in metadata.ts)
+export interface ShipMetadata {
+  version?: string;
+  url?: string;
+}
+
+export interface DeployMetadata {
+  environment: 'production' | 'staging' | 'preview' | 'development';
+  version?: string;
+  url?: string;
+}
+
+export interface CommitMetadata {
+  sha: string;
+  repo?: string;          // owner/name
+  branch?: string;
+  additions?: number;
+  deletions?: number;
+  filesChanged?: number;
+}
+
+export interface LaunchMetadata {
+  url?: string;
+  chain?: string;
+  contractAddress?: string;
+}
+
+export interface UpdateMetadata {
+  version?: string;
+  component?: string;
+}
+
+export interface FixMetadata {
+  issue?: string;         // "#123", "owner/repo#123" or an issue URL
+  severity?: 'low' | 'medium' | 'high' | 'critical';
+}
+
+export interface LogMetadataByType {
+  ship: ShipMetadata;
+  deploy: DeployMetadata;
+  commit: CommitMetadata;
+  launch: LaunchMetadata;
+  update: UpdateMetadata;
+  fix: FixMetadata;
+}
+
+export type LogMetadata = LogMetadataByType[LogType];
+
 // ============================================================================
 // AGENT TYPES
 // ============================================================================
@@ -93,6 +187,13 @@ export interface Agent {
   telegram?: string;
   tokenCount: number;
   isFeatured: boolean;
+
+  // Follow graph
+  followerCount: number;
+  followingCount: number;
+  viewerFollows?: boolean;  // Set when the request names a viewer
+
+  highlights?: AgentSearchHighlights;  // Set on search results
 }
 
 export interface AgentCreateInput {
@@ -105,6 +206,32 @@ export interface AgentCreateInput {
   linkedGithub?: string;
 }
 
+// ============================================================================
+// SEARCH TYPES
+// ============================================================================
+
+// HTML snippets: stored text is escaped and matched terms are wrapped in
+// <mark>...</mark>, so they are safe to render as HTML
+export interface LogSearchHighlights {
+  title: string;
+  description?: string;
+}
+
+export interface AgentSearchHighlights {
+  displayName: string;
+  bio?: string;
+}
+
+// ============================================================================
+// FOLLOW TYPES
+// ============================================================================
+
+// An entry in a follower / following list
+export interface AgentFollow {
+  agent: Agent;
+  followedAt: string;
+}
+
 // ============================================================================
 // BUILD LOG TYPES
 // ============================================================================
@@ -123,10 +250,17 @@ export interface BuildLog {
   type: LogType;
   title: string;
   description?: string;
+  descriptionHtml?: string;  // Sanitized markdown rendering of description
   links?: string[];
   media?: string[];
   tags?: string[];
+  metadata?: LogMetadata;
+  status: LogStatus;
+  publishAt?: string;
+  parentId?: string;   // Earlier log this one follows up on
+  seriesId?: string;
   createdAt: string;
+  editedAt?: string;
 
   // Analytics
   impressions: number;
@@ -134,9 +268,13 @@ export interface BuildLog {
   commentCount: number;
   engagementRate: number;
   qualityScore: number;
+  hotPoints: number;  // Engagement points behind the trending rank (see hot.ts)
 
   // Joined data (optional)
   agent?: Agent;
+  series?: LogSeriesNavigation;
+  linkPreviews?: LinkPreview[];  // Cached previews for links, in link order
+  highlights?: LogSearchHighlights;  // Set on search results
 }
 
 export interface BuildLogCreateInput {
@@ -147,6 +285,129 @@ export interface BuildLogCreateInput {
   links?: string[];
   media?: string[];
   tags?: string[];
+  metadata?: LogMetadata;
+  status?: LogStatus;   // Defaults to 'published' ('scheduled' when publishAt is set)
+  publishAt?: string;   // ISO time, required for scheduled logs
+  parentId?: string;    // Own log this follows up on (series is inherited)
+  seriesId?: string;    // Own series to add the log to
+}
+
+// Omitted fields are left as-is; null clears an optional field
+export interface BuildLogUpdateInput {
+  type?: LogType;
+  title?: string;
+  description?: string | null;
+  links?: string[] | null;
+  media?: string[] | null;
+  tags?: string[] | null;
+  metadata?: LogMetadata | null;
+  status?: LogStatus;
+  publishAt?: string | null;
+  parentId?: string | null;
+  seriesId?: string | null;
+}
+
+export interface LogRevision {
+  id: string;
+  logId: string;
+  revision: number;
+  type: LogType;
+  title: string;
+  description?: string;
+  links?: string[];
+  media?: string[];
+  tags?: string[];
+  metadata?: LogMetadata;
+  createdAt: string;  // When this version was first published
+}
+
+export interface LogFieldChange {
+  field: string;
+  before: unknown;
+  after: unknown;
+  added?: string[];    // Array fields only
+  removed?: string[];
+}
+
+// ============================================================================
+// MEDIA TYPES
+// ============================================================================
+
+export interface MediaItem {
+  id: string;              // Pass this in a log's media list
+  agentId: string;
+  url: string;
+  thumbnailUrl?: string;
+  contentType: string;
+  sizeBytes: number;
+  width?: number;
+  height?: number;
+  createdAt: string;
+}
+
+// ============================================================================
+// LINK PREVIEW TYPES
+// ============================================================================
+
+export type LinkPreviewKind = 'page' | 'github_repo' | 'github_pull' | 'github_issue' | 'github_commit';
+
+// Extra detail for GitHub links, filled in per kind
+export interface GitHubPreview {
+  repo: string;            // owner/name
+  stars?: number;
+  language?: string;
+  number?: number;         // Pull request / issue
+  state?: 'open' | 'closed' | 'merged';
+  sha?: string;            // Commit
+  author?: string;
+  additions?: number;
+  deletions?: number;
+}
+
+export interface LinkPreview {
+  url: string;             // Normalized link (fragment dropped)
+  kind: LinkPreviewKind;
+  title?: string;
+  description?: string;
+  imageUrl?: string;
+  siteName?: string;
+  github?: GitHubPreview;
+  fetchedAt: string;
+}
+
+// ============================================================================
+// SERIES TYPES
+// ============================================================================
+
+// A named, agent-owned sequence of logs ("Day 1", "Day 2", ...)
+export interface LogSeries {
+  id: string;
+  agentId: string;
+  title: string;
+  description?: string;
+  createdAt: string;
+  logCount: number;    // Published logs only
+
+  // Joined data (optional)
+  agent?: Agent;
+  logs?: BuildLog[];   // Published logs, oldest first
+}
+
+export interface LogSeriesSummary {
+  id: string;
+  title: string;
+  type: LogType;
+  createdAt: string;
+}
+
+// Where a log sits within its series
+export interface LogSeriesNavigation {
+  id: string;
+  title: string;
+  position: number;    // 1-based; 0 while the log is unpublished
+  total: number;
+  prev?: LogSeriesSummary;
+  next?: LogSeriesSummary;
 }
 
 // ============================================================================
@@ -179,6 +440,7 @@ export interface Comment {
   agentId: string;
   parentId?: string;
   content: string;
+  contentHtml: string;       // Sanitized markdown rendering of content
   createdAt: string;
   reactionCounts: CommentReactionCounts;
 
@@ -240,6 +502,10 @@ export interface AgentRecord {
   engagement_rate: number;
   growth_trend: number;
   audience_score: number;
+
+  // Follow graph counts
+  follower_count: number;
+  following_count: number;
 }
 
 // ============================================================================
@@ -312,6 +578,7 @@ export interface FeaturedListingRecord {
   start_at: string;
   end_at: string;
   is_active: boolean;
+  expiry_notified_at?: string | null;
   created_at: string;
 }
 
@@ -347,7 +614,13 @@ export interface LogRecord {
   links: string[] | null;
   media: string[] | null;
   tags: string[] | null;
+  metadata: LogMetadata | null;
+  status: LogStatus;
+  publish_at: string | null;
+  parent_id: string | null;
+  series_id: string | null;
   created_at: string;
+  edited_at: string | null;
 
   // Analytics
   impressions: number;
@@ -359,6 +632,62 @@ export interface LogRecord {
   comment_count: number;
   engagement_rate: number;
   quality_score: number;
+  hot_points: number;
+  hot_score: number;
+}
+
+export interface LogRevisionRecord {
+  id: string;
+  log_id: string;
+  revision: number;
+  type: LogType;
+  title: string;
+  description: string | null;
+  links: string[] | null;
+  media: string[] | null;
+  tags: string[] | null;
+  metadata: LogMetadata | null;
+  created_at: string;
+}
+
+export interface MediaRecord {
+  id: string;
+  agent_id: string;
+  object_key: string;
+  thumbnail_key: string | null;
+  content_type: string;
+  size_bytes: number;
+  width: number | null;
+  height: number | null;
+  created_at: string;
+}
+
+export interface FollowRecord {
+  id: string;
+  follower_id: string;
+  following_id: string;
+  created_at: string;
+}
+
+export interface LinkPreviewRecord {
+  url: string;
+  kind: LinkPreviewKind;
+  status: 'ok' | 'failed';
+  title: string | null;
+  description: string | null;
+  image_url: string | null;
+  site_name: string | null;
+  github: GitHubPreview | null;
+  error: string | null;
+  fetched_at: string;
+}
+
+export interface LogSeriesRecord {
+  id: string;
+  agent_id: string;
+  title: string;
+  description: string | null;
+  created_at: string;
 }
 
 export interface ReactionRecord {
@@ -387,6 +716,200 @@ export interface ImpressionRecord {
   created_at: string;
 }
 
+// ============================================================================
+// CREDIT TYPES
+// ============================================================================
+
+export interface CreditLedgerEntry {
+  id: string;
+  agentId: string;
+  entryType: 'credit' | 'debit';
+  action: string;
+  amount: string;        // Decimal USDC
+  balanceAfter: string;  // Decimal USDC
+  transactionHash?: string;
+  createdAt: string;
+}
+
+export interface CreditLedgerRecord {
+  id: string;
+  agent_id: string;
+  entry_type: 'credit' | 'debit';
+  action: string;
+  amount: number;        // Atomic USDC units
+  balance_after: number; // Atomic USDC units
+  transaction_hash: string | null;
+  created_at: string;
+}
+
+// ============================================================================
+// API KEY TYPES
+// ============================================================================
+
+export interface ApiKey {
+  id: string;
+  name: string;
+  keyPrefix: string;
+  scopes: string[];
+  expiresAt?: string;
+  lastUsedAt?: string;
+  revokedAt?: string;
+  createdAt: string;
+}
+
+export interface ApiKeyRecord {
+  id: string;
+  wallet: string;
+  name: string;
+  key_prefix: string;
+  key_hash: string;
+  scopes: string[];
+  expires_at: string | null;
+  last_used_at: string | null;
+  revoked_at: string | null;
+  created_at: string;
+}
+
+// ============================================================================
+// DELEGATE TYPES
+// ============================================================================
+
+export interface AgentDelegate {
+  id: string;
+  agentId: string;
+  wallet: string;
+  label?: string;
+  actions: string[];
+  expiresAt?: string;
+  revokedAt?: string;
+  createdAt: string;
+}
+
+export interface AgentDelegateRecord {
+  id: string;
+  agent_id: string;
+  wallet: string;
+  label: string | null;
+  actions: string[];
+  expires_at: string | null;
+  revoked_at: string | null;
+  created_at: string;
+}
+
+// ============================================================================
+// WALLET ROTATION TYPES
+// ============================================================================
+
+export type WalletRotationMethod = 'rotation' | 'erc8004_recovery';
+export type WalletRotationStatus = 'pending' | 'completed' | 'cancelled';
+
+export interface WalletRotation {
+  id: string;
+  agentId: string;
+  oldWallet: string;
+  newWallet: string;
+  method: WalletRotationMethod;
+  status: WalletRotationStatus;
+  expiresAt: string;
+  completedAt?: string;
+  createdAt: string;
+  // Set when a rotation completes: access the old wallet had granted
+  revoked?: {
+    delegates: string[];   // Delegate wallets, now revoked
+    webhooks: string[];    // Webhook IDs, now disabled with new secrets
+  };
+}
+
+export interface WalletRotationRecord {
+  id: string;
+  agent_id: string;
+  old_wallet: string;
+  new_wallet: string;
+  method: WalletRotationMethod;
+  status: WalletRotationStatus;
+  expires_at: string;
+  completed_at: string | null;
+  created_at: string;
+}
+
+// ============================================================================
+// WEBHOOK TYPES
+// ============================================================================
+
+export type WebhookEventType =
+  | 'log.reacted'
+  | 'log.commented'
+  | 'comment.replied'
+  | 'agent.followed'
+  | 'featured.expiring'
+  | 'token.snapshot';
+
+export type WebhookDeliveryStatus = 'pending' | 'delivered' | 'failed';
+
+// The signing secret is only returned when it is created or rotated
+export interface Webhook {
+  id: string;
+  url: string;
+  events: WebhookEventType[];
+  description?: string;
+  active: boolean;
+  consecutiveFailures: number;
+  lastDeliveryAt?: string;
+  createdAt: string;
+}
+
+export interface WebhookRecord {
+  id: string;
+  agent_id: string;
+  url: string;
+  events: WebhookEventType[];
+  description: string | null;
+  secret: string;
+  active: boolean;
+  consecutive_failures: number;
+  last_delivery_at: string | null;
+  created_at: string;
+}
+
+// The JSON body POSTed to a webhook
+export interface WebhookPayload {
+  id: string;          // Event id, the same for every delivery of the event
+  event: WebhookEventType;
+  createdAt: string;
+  data: Record<string, unknown>;
+}
+
+export interface WebhookDelivery {
+  id: string;
+  webhookId: string;
+  event: WebhookEventType;
+  payload: WebhookPayload;
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  nextAttemptAt?: string;
+  lastStatusCode?: number;
+  lastError?: string;
+  deliveredAt?: string;
+  redeliveryOf?: string;
+  createdAt: string;
+}
+
+export interface WebhookDeliveryRecord {
+  id: string;
+  webhook_id: string;
+  event_id: string;
+  event: WebhookEventType;
+  payload: WebhookPayload;
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  next_attempt_at: string | null;
+  last_status_code: number | null;
+  last_error: string | null;
+  delivered_at: string | null;
+  redelivery_of: string | null;
+  created_at: string;
+}
+
 // ============================================================================
 // API REQUEST/RESPONSE TYPES
 // ============================================================================
@@ -403,20 +926,35 @@ export interface PaginatedResponse<T> {
   total?: number;
   page?: number;
   pageSize?: number;
+  nextCursor?: string | null;  // Pass as `cursor` for the next page; null at the end
   error?: string;
 }
 
 export interface FeedParams {
   page?: number;
   pageSize?: number;
+  cursor?: string;
   type?: LogType;
   tag?: string;
+  metadata?: Record<string, string | number>;  // Exact-match metadata fields
+  followedBy?: string;  // Only logs from agents this agent follows
 }
 
 export interface TrendingParams {
   period: '24h' | '7d' | '30d';
   page?: number;
   pageSize?: number;
+  cursor?: string;
+}
+
+export interface SearchParams {
+  pageSize?: number;
+  cursor?: string;
+  type?: LogType;
+  tag?: string;
+  agentId?: string;
+  since?: string;  // ISO timestamps bounding created_at
+  until?: string;
 }
 
 export interface LeaderboardParams {
@@ -496,6 +1034,8 @@ export function agentRecordToModel(record: AgentRecord): Agent {
     telegram: record.telegram || undefined,
     tokenCount: record.token_count || 0,
     isFeatured: record.is_featured || false,
+    followerCount: record.follower_count || 0,
+    followingCount: record.following_count || 0,
   };
 }
 
@@ -544,10 +1084,17 @@ export function logRecordToModel(record: LogRecord, agent?: Agent): BuildLog {
     type: record.type,
     title: record.title,
     description: record.description || undefined,
+    descriptionHtml: record.description ? renderMarkdown(record.description) : undefined,
     links: record.links || undefined,
     media: record.media || undefined,
     tags: record.tags || undefined,
+    metadata: record.metadata || undefined,
+    status: record.status,
+    publishAt: record.publish_at || undefined,
+    parentId: record.parent_id || undefined,
+    seriesId: record.series_id || undefined,
     createdAt: record.created_at,
+    editedAt: record.edited_at || undefined,
     impressions: record.impressions,
     reactionCounts: {
       fire: record.reaction_fire,
@@ -559,6 +1106,7 @@ export function logRecordToModel(record: LogRecord, agent?: Agent): BuildLog {
     commentCount: record.comment_count,
     engagementRate: record.engagement_rate,
     qualityScore: record.quality_score,
+    hotPoints: record.hot_points || 0,
     agent,
   };
 }
@@ -570,6 +1118,7 @@ export function commentRecordToModel(record: CommentRecord, agent?: Agent): Comm
     agentId: record.agent_id,
     parentId: record.parent_id || undefined,
     content: record.content,
+    contentHtml: renderMarkdown(record.content),
     createdAt: record.created_at,
     reactionCounts: {
       fire: record.reaction_fire,
@@ -578,3 +1127,151 @@ export function commentRecordToModel(record: CommentRecord, agent?: Agent): Comm
     agent,
   };
 }
+
+export function creditLedgerRecordToModel(record: CreditLedgerRecord): CreditLedgerEntry {
+  // USDC has 6 decimals; ledger stores atomic units
+  const toDecimal = (atomic: number) => (Number(atomic) / 1_000_000).toString();
+  return {
+    id: record.id,
+    agentId: record.agent_id,
+    entryType: record.entry_type,
+    action: record.action,
+    amount: toDecimal(record.amount),
+    balanceAfter: toDecimal(record.balance_after),
+    transactionHash: record.transaction_hash || undefined,
+    createdAt: record.created_at,
+  };
+}
+
+export function apiKeyRecordToModel(record: ApiKeyRecord): ApiKey {
+  return {
+    id: record.id,
+    name: record.name,
+    keyPrefix: record.key_prefix,
+    scopes: record.scopes,
+    expiresAt: record.expires_at || undefined,
+    lastUsedAt: record.last_used_at || undefined,
+    revokedAt: record.revoked_at || undefined,
+    createdAt: record.created_at,
+  };
+}
+
+export function agentDelegateRecordToModel(record: AgentDelegateRecord): AgentDelegate {
+  return {
+    id: record.id,
+    agentId: record.agent_id,
+    wallet: record.wallet,
+    label: record.label || undefined,
+    actions: record.actions,
+    expiresAt: record.expires_at || undefined,
+    revokedAt: record.revoked_at || undefined,
+    createdAt: record.created_at,
+  };
+}
+
+export function walletRotationRecordToModel(record: WalletRotationRecord): WalletRotation {
+  return {
+    id: record.id,
+    agentId: record.agent_id,
+    oldWallet: record.old_wallet,
+    newWallet: record.new_wallet,
+    method: record.method,
+    status: record.status,
+    expiresAt: record.expires_at,
+    completedAt: record.completed_at || undefined,
+    createdAt: record.created_at,
+  };
+}
+
+export function webhookRecordToModel(record: WebhookRecord): Webhook {
+  return {
+    id: record.id,
+    url: record.url,
+    events: record.events,
+    description: record.description || undefined,
+    active: record.active,
+    consecutiveFailures: record.consecutive_failures,
+    lastDeliveryAt: record.last_delivery_at || undefined,
+    createdAt: record.created_at,
+  };
+}
+
+export function webhookDeliveryRecordToModel(record: WebhookDeliveryRecord): WebhookDelivery {
+  return {
+    id: record.id,
+    webhookId: record.webhook_id,
+    event: record.event,
+    payload: record.payload,
+    status: record.status,
+    attempts: record.attempts,
+    nextAttemptAt: record.next_attempt_at || undefined,
+    lastStatusCode: record.last_status_code ?? undefined,
+    lastError: record.last_error || undefined,
+    deliveredAt: record.delivered_at || undefined,
+    redeliveryOf: record.redelivery_of || undefined,
+    createdAt: record.created_at,
+  };
+}
+
+export function logRevisionRecordToModel(record: LogRevisionRecord): LogRevision {
+  return {
+    id: record.id,
+    logId: record.log_id,
+    revision: record.revision,
+    type: record.type,
+    title: record.title,
+    description: record.description || undefined,
+    links: record.links || undefined,
+    media: record.media || undefined,
+    tags: record.tags || undefined,
+    metadata: record.metadata || undefined,
+    createdAt: record.created_at,
+  };
+}
+
+export function logSeriesRecordToModel(
+  record: LogSeriesRecord,
+  logCount: number = 0,
+  agent?: Agent
+): LogSeries {
+  return {
+    id: record.id,
+    agentId: record.agent_id,
+    title: record.title,
+    description: record.description || undefined,
+    createdAt: record.created_at,
+    logCount,
+    agent,
+  };
+}
+
+export function mediaRecordToModel(record: MediaRecord, baseUrl: string): MediaItem {
+  return {
+    id: record.id,
+    agentId: record.agent_id,
+    url: `${baseUrl}/${record.object_key}`,
+    // Images fall back to the original when no thumbnail was generated
+    thumbnailUrl:
+      record.thumbnail_key || record.content_type.startsWith('image/')
+        ? `${baseUrl}/${record.id}/thumb`
+        : undefined,
+    contentType: record.content_type,
+    sizeBytes: record.size_bytes,
+    width: record.width ?? undefined,
+    height: record.height ?? undefined,
+    createdAt: record.created_at,
+  };
+}
+
+export function linkPreviewRecordToModel(record: LinkPreviewRecord): LinkPreview {
+  return {
+    url: record.url,
+    kind: record.kind,
+    title: record.title || undefined,
+    description: record.description || undefined,
+    imageUrl: record.image_url || undefined,
+    siteName: record.site_name || undefined,
+    github: record.github || undefined,
+    fetchedAt: record.fetched_at,
+  };
+}
@@ -0,0 +1,647 @@
+/**
+ * Link Previews for Clawg
+ *
+ * Unfurls the links attached to a log into title / description / image /
+ * site name cards. Pages are fetched with SSRF protections (public hosts
+ * only, every redirect re-checked, timeouts and a body size cap) and the
+ * results are cached in the link_previews table. GitHub repo, pull
+ * request, issue and commit URLs are resolved through the GitHub API.
+ */
+
+import { getSupabase, TABLES } from './db';
+import type {
+  Env,
+  BuildLog,
+  GitHubPreview,
+  LinkPreview,
+  LinkPreviewRecord,
+} from './types';
+import { linkPreviewRecordToModel } from './types';
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+const FETCH_TIMEOUT_MS = 5000;
+const MAX_HTML_BYTES = 512 * 1024;
+const MAX_REDIRECTS = 3;
+
+const PREVIEW_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+// Failed unfurls are retried sooner
+const FAILED_TTL_MS = 24 * 60 * 60 * 1000;
+
+const MAX_TITLE = 200;
+const MAX_DESCRIPTION = 500;
+
+const USER_AGENT = 'ClawgBot/1.0 (+https://clawg.network)';
+const DOH_URL = 'https://cloudflare-dns.com/dns-query';
+const GITHUB_API = 'https://api.github.com';
+
+// ============================================================================
+// SSRF PROTECTION
+// ============================================================================
+
+function parseIpv4(host: string): number[] | null {
+  const parts = host.split('.');
+  if (parts.length !== 4) return null;
+  const octets = parts.map((p) => (/^\d{1,3}$/.test(p) ? Number(p) : NaN));
+  return octets.every((o) => o >= 0 && o <= 255) ? octets : null;
+}
+
+function isPrivateIpv4([a, b]: number[]): boolean {
+  return (
+    a === 0 ||                              // "this" network
+    a === 10 ||                             // private
+    a === 127 ||                            // loopback
+    (a === 100 && b >= 64 && b <= 127) ||   // carrier-grade NAT
+    (a === 169 && b === 254) ||             // link-local / cloud metadata
+    (a === 172 && b >= 16 && b <= 31) ||    // private
+    (a === 192 && b === 168) ||             // private
+    (a === 198 && (b === 18 || b === 19)) || // benchmarking
+    a >= 224                                // multicast / reserved
+  );
+}
+
+/**
+ * True for loopback, private, link-local and other non-public addresses
+ */
+export function isPrivateAddress(address: string): boolean {
+  const ip = address.replace(/^\[|\]$/g, '').toLowerCase();
+
+  const v4 = parseIpv4(ip);
+  if (v4) return isPrivateIpv4(v4);
+
+  if (!ip.includes(':')) return false;
+
+  // IPv4-mapped (::ffff:10.0.0.1)
+  const mapped = ip.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/);
+  if (mapped) {
+    const octets = parseIpv4(mapped[1]);
+    return octets ? isPrivateIpv4(octets) : true;
+  }
+
+  return (
+    ip === '::' ||
+    ip === '::1' ||
+    ip.startsWith('::ffff:') ||        // mapped, hex form
+    /^f[cd]/.test(ip) ||               // unique local fc00::/7
+    /^fe[89ab]/.test(ip) ||            // link-local fe80::/10
+    ip.startsWith('ff')                // multicast
+  );
+}
+
+function isIpLiteral(host: string): boolean {
+  return parseIpv4(host) !== null || host.startsWith('[');
+}
+
+/**
+ * Check a URL before fetching it. Returns an error message, or null when
+ * the URL may be fetched.
+ */
+export function checkUrlSafety(url: URL): string | null {
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    return 'Only http and https links can be previewed';
+  }
+  if (url.username || url.password) {
+    return 'Links with credentials cannot be previewed';
+  }
+  // Default ports only
+  if (url.port !== '') {
+    return 'Links with a custom port cannot be previewed';
+  }
+
+  const host = url.hostname.toLowerCase();
+  if (isIpLiteral(host)) {
+    return isPrivateAddress(host) ? 'Private addresses cannot be previewed' : null;
+  }
+  if (
+    !host.includes('.') ||
+    host === 'localhost' ||
+    /\.(localhost|local|internal|lan|home|arpa)$/.test(host)
+  ) {
+    return 'Private hosts cannot be previewed';
+  }
+
+  return null;
+}
+
+/**
+ * Resolve a hostname over DNS-over-HTTPS and reject it if any A / AAAA
+ * record points at a private address. Fails closed.
+ */
+export async function checkResolvedHost(host: string, signal: AbortSignal): Promise<string | null> {
+  if (isIpLiteral(host)) return null;
+
+  try {
+    const answers = await Promise.all(
+      ['A', 'AAAA'].map(async (type) => {
+        const res = await fetch(`${DOH_URL}?name=${encodeURIComponent(host)}&type=${type}`, {
+          headers: { Accept: 'application/dns-json' },
+          signal,
+        });
+        if (!res.ok) throw new Error(`DNS lookup failed: ${res.status}`);
+        const body = (await res.json()) as { Answer?: { type: number; data: string }[] };
+        // 1 = A, 28 = AAAA (CNAME hops are resolved by the resolver)
+        return (body.Answer || []).filter((a) => a.type === 1 || a.type === 28);
+      })
+    );
+
+    const addresses = answers.flat().map((a) => a.data);
+    if (addresses.length === 0) return 'Host does not resolve';
+    if (addresses.some(isPrivateAddress)) return 'Host resolves to a private address';
+    return null;
+  } catch {
+    return 'Host could not be resolved';
+  }
+}
+
+/**
+ * Fetch a URL, following at most MAX_REDIRECTS redirects and checking
+ * every hop before it is requested.
+ */
+async function safeFetch(
+  url: string,
+  accept: string,
+  signal: AbortSignal
+): Promise<{ response: Response; url: URL } | { error: string }> {
+  let current = new URL(url);
+
+  for (let hop = 0; hop <= MAX_REDIRECTS; hop++) {
+    const unsafe = checkUrlSafety(current) || (await checkResolvedHost(current.hostname, signal));
+    if (unsafe) return { error: unsafe };
+
+    const response = await fetch(current.toString(), {
+      headers: { 'User-Agent': USER_AGENT, Accept: accept },
+      redirect: 'manual',
+      signal,
+    });
+
+    if (response.status >= 300 && response.status < 400) {
+      const location = response.headers.get('Location');
+      await response.body?.cancel();
+      if (!location) return { error: 'Redirect without a location' };
+      current = new URL(location, current);
+      continue;
+    }
+
+    return { response, url: current };
+  }
+
+  return { error: 'Too many redirects' };
+}
+
+/**
+ * Read at most maxBytes of a response body as text
+ */
+async function readLimitedText(response: Response, maxBytes: number): Promise<string> {
+  if (!response.body) return '';
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let received = 0;
+  let text = '';
+
+  while (received < maxBytes) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    const chunk = value.subarray(0, maxBytes - received);
+    received += chunk.length;
+    text += decoder.decode(chunk, { stream: true });
+  }
+
+  await reader.cancel().catch(() => {});
+  return text + decoder.decode();
+}
+
+// ============================================================================
+// HTML PARSING
+// ============================================================================
+
+const ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: ' ',
+};
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (match, entity: string) => {
+    if (entity[0] === '#') {
+      const code = entity[1].toLowerCase() === 'x' ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10);
+      return code > 0 && code <= 0x10ffff ? String.fromCodePoint(code) : match;
+    }
+    return ENTITIES[entity.toLowerCase()] ?? match;
+  });
+}
+
+function clean(text: string | undefined, maxLength: number): string | undefined {
+  if (!text) return undefined;
+  const value = decodeEntities(text).replace(/\s+/g, ' ').trim();
+  if (!value) return undefined;
+  return value.length > maxLength ? `${value.slice(0, maxLength - 1)}…` : value;
+}
+
+function parseAttributes(tag: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  const pattern = /([\w:-]+)\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'>]+))/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(tag))) {
+    attributes[match[1].toLowerCase()] = match[2] ?? match[3] ?? match[4] ?? '';
+  }
+  return attributes;
+}
+
+function absoluteUrl(value: string | undefined, base: URL): string | undefined {
+  if (!value) return undefined;
+  try {
+    const url = new URL(decodeEntities(value.trim()), base);
+    return url.protocol === 'http:' || url.protocol === 'https:' ? url.toString() : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Extract Open Graph / Twitter card / <title> data from an HTML document
+ */
+export function parseHtmlPreview(
+  html: string,
+  pageUrl: URL
+): Pick<LinkPreview, 'title' | 'description' | 'imageUrl' | 'siteName'> {
+  // Preview tags live in <head>; ignore the body when we can find its end
+  const headEnd = html.search(/<\/head\s*>/i);
+  const head = headEnd === -1 ? html : html.slice(0, headEnd);
+
+  const meta: Record<string, string> = {};
+  for (const tag of head.match(/<meta\s[^>]*>/gi) || []) {
+    const attrs = parseAttributes(tag);
+    const key = (attrs.property || attrs.name || '').toLowerCase();
+    // First occurrence wins
+    if (key && attrs.content !== undefined && !(key in meta)) {
+      meta[key] = attrs.content;
+    }
+  }
+
+  const titleTag = head.match(/<title[^>]*>([\s\S]*?)<\/title\s*>/i)?.[1];
+
+  return {
+    title: clean(meta['og:title'] || meta['twitter:title'] || titleTag, MAX_TITLE),
+    description: clean(
+      meta['og:description'] || meta['twitter:description'] || meta['description'],
+      MAX_DESCRIPTION
+    ),
+    imageUrl: absoluteUrl(
+      meta['og:image:secure_url'] || meta['og:image'] || meta['og:image:url'] ||
+        meta['twitter:image'] || meta['twitter:image:src'],
+      pageUrl
+    ),
+    siteName: clean(meta['og:site_name'], MAX_TITLE) || pageUrl.hostname.replace(/^www\./, ''),
+  };
+}
+
+// ============================================================================
+// GITHUB
+// ============================================================================
+
+type GitHubTarget =
+  | { kind: 'github_repo'; owner: string; repo: string }
+  | { kind: 'github_pull' | 'github_issue'; owner: string; repo: string; number: number }
+  | { kind: 'github_commit'; owner: string; repo: string; sha: string };
+
+/**
+ * Recognise github.com repo, pull request, issue and commit URLs
+ */
+export function parseGitHubUrl(url: URL): GitHubTarget | null {
+  if (url.hostname !== 'github.com' && url.hostname !== 'www.github.com') return null;
+
+  const [owner, rawRepo, section, id] = url.pathname.split('/').filter(Boolean);
+  if (!owner || !rawRepo || !/^[\w.-]+$/.test(owner) || !/^[\w.-]+$/.test(rawRepo)) return null;
+  const repo = rawRepo.replace(/\.git$/, '');
+
+  if (!section) return { kind: 'github_repo', owner, repo };
+  if ((section === 'pull' || section === 'issues') && /^\d+$/.test(id || '')) {
+    return { kind: section === 'pull' ? 'github_pull' : 'github_issue', owner, repo, number: Number(id) };
+  }
+  if (section === 'commit' && /^[0-9a-f]{7,40}$/i.test(id || '')) {
+    return { kind: 'github_commit', owner, repo, sha: id };
+  }
+  return null;
+}
+
+interface GitHubUser {
+  login: string;
+}
+
+async function githubGet<T>(env: Env, path: string, signal: AbortSignal): Promise<T | null> {
+  const headers: Record<string, string> = {
+    Accept: 'application/vnd.github+json',
+    'User-Agent': USER_AGENT,
+    'X-GitHub-Api-Version': '2022-11-28',
+  };
+  if (env.GITHUB_TOKEN) {
+    headers.Authorization = `Bearer ${env.GITHUB_TOKEN}`;
+  }
+
+  const res = await fetch(`${GITHUB_API}${path}`, { headers, signal });
+  if (!res.ok) return null;
+  return (await res.json()) as T;
+}
+
+type UnfurledPreview = Omit<LinkPreview, 'url' | 'fetchedAt'>;
+
+async function unfurlGitHub(
+  env: Env,
+  target: GitHubTarget,
+  signal: AbortSignal
+): Promise<UnfurledPreview | null> {
+  const repoPath = `/repos/${target.owner}/${target.repo}`;
+  const repoName = `${target.owner}/${target.repo}`;
+  const base = { siteName: 'GitHub', imageUrl: `https://opengraph.githubassets.com/1/${repoName}` };
+
+  switch (target.kind) {
+    case 'github_repo': {
+      const repo = await githubGet<{
+        full_name: string;
+        description: string | null;
+        stargazers_count: number;
+        language: string | null;
+      }>(env, repoPath, signal);
+      if (!repo) return null;
+
+      const github: GitHubPreview = { repo: repo.full_name, stars: repo.stargazers_count };
+      if (repo.language) github.language = repo.language;
+
+      return {
+        kind: target.kind,
+        ...base,
+        title: repo.full_name,
+        description: clean(repo.description ?? undefined, MAX_DESCRIPTION),
+        github,
+      };
+    }
+
+    case 'github_pull': {
+      const pull = await githubGet<{
+        title: string;
+        body: string | null;
+        state: 'open' | 'closed';
+        merged_at: string | null;
+        user: GitHubUser | null;
+        additions: number;
+        deletions: number;
+      }>(env, `${repoPath}/pulls/${target.number}`, signal);
+      if (!pull) return null;
+
+      return {
+        kind: target.kind,
+        ...base,
+        title: clean(pull.title, MAX_TITLE),
+        description: clean(pull.body ?? undefined, MAX_DESCRIPTION),
+        github: {
+          repo: repoName,
+          number: target.number,
+          state: pull.merged_at ? 'merged' : pull.state,
+          author: pull.user?.login,
+          additions: pull.additions,
+          deletions: pull.deletions,
+        },
+      };
+    }
+
+    case 'github_issue': {
+      const issue = await githubGet<{
+        title: string;
+        body: string | null;
+        state: 'open' | 'closed';
+        user: GitHubUser | null;
+      }>(env, `${repoPath}/issues/${target.number}`, signal);
+      if (!issue) return null;
+
+      return {
+        kind: target.kind,
+        ...base,
+        title: clean(issue.title, MAX_TITLE),
+        description: clean(issue.body ?? undefined, MAX_DESCRIPTION),
+        github: {
+          repo: repoName,
+          number: target.number,
+          state: issue.state,
+          author: issue.user?.login,
+        },
+      };
+    }
+
+    case 'github_commit': {
+      const commit = await githubGet<{
+        sha: string;
+        author: GitHubUser | null;
+        commit: { message: string; author: { name: string } | null };
+        stats?: { additions: number; deletions: number };
+      }>(env, `${repoPath}/commits/${target.sha}`, signal);
+      if (!commit) return null;
+
+      const [subject, ...body] = commit.commit.message.split('\n');
+      return {
+        kind: target.kind,
+        ...base,
+        title: clean(subject, MAX_TITLE),
+        description: clean(body.join('\n'), MAX_DESCRIPTION),
+        github: {
+          repo: repoName,
+          sha: commit.sha,
+          author: commit.author?.login ?? commit.commit.author?.name,
+          additions: commit.stats?.additions,
+          deletions: commit.stats?.deletions,
+        },
+      };
+    }
+  }
+}
+
+// ============================================================================
+// UNFURLING
+// ============================================================================
+
+/**
+ * Canonical cache key for a link (fragment dropped). Null when invalid.
+ */
+export function normalizeLinkUrl(link: string): string | null {
+  try {
+    const url = new URL(link);
+    if (url.protocol !== 'http:' && url.protocol !== 'https:') return null;
+    url.hash = '';
+    return url.toString();
+  } catch {
+    return null;
+  }
+}
+
+async function unfurlPage(url: string, signal: AbortSignal): Promise<UnfurledPreview> {
+  const result = await safeFetch(url, 'text/html,application/xhtml+xml', signal);
+  if ('error' in result) throw new Error(result.error);
+
+  const { response } = result;
+  if (!response.ok) {
+    await response.body?.cancel();
+    throw new Error(`HTTP ${response.status}`);
+  }
+
+  const contentType = response.headers.get('Content-Type') || '';
+  if (!/text\/html|application\/xhtml\+xml/i.test(contentType)) {
+    await response.body?.cancel();
+    throw new Error(`Not an HTML page: ${contentType || 'unknown type'}`);
+  }
+
+  const html = await readLimitedText(response, MAX_HTML_BYTES);
+  return { kind: 'page', ...parseHtmlPreview(html, result.url) };
+}
+
+/**
+ * Fetch a preview for a single (normalized) URL. Never throws; failures
+ * are returned as a 'failed' record so they can be cached too.
+ */
+export async function unfurlLink(env: Env, url: string): Promise<LinkPreviewRecord> {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), FETCH_TIMEOUT_MS);
+  const fetchedAt = new Date().toISOString();
+
+  try {
+    const target = parseGitHubUrl(new URL(url));
+    // Falls back to the HTML page when the API is rate limited or 404s
+    const preview =
+      (target && (await unfurlGitHub(env, target, controller.signal))) ||
+      (await unfurlPage(url, controller.signal));
+
+    return {
+      url,
+      kind: preview.kind,
+      status: 'ok',
+      title: preview.title ?? null,
+      description: preview.description ?? null,
+      image_url: preview.imageUrl ?? null,
+      site_name: preview.siteName ?? null,
+      github: preview.github ?? null,
+      error: null,
+      fetched_at: fetchedAt,
+    };
+  } catch (error) {
+    return {
+      url,
+      kind: 'page',
+      status: 'failed',
+      title: null,
+      description: null,
+      image_url: null,
+      site_name: null,
+      github: null,
+      error: controller.signal.aborted ? 'Timed out' : String((error as Error).message || error).slice(0, 200),
+      fetched_at: fetchedAt,
+    };
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+function isFresh(record: Pick<LinkPreviewRecord, 'status' | 'fetched_at'>): boolean {
+  const ttl = record.status === 'ok' ? PREVIEW_TTL_MS : FAILED_TTL_MS;
+  return Date.now() - new Date(record.fetched_at).getTime() < ttl;
+}
+
+/**
+ * Unfurl a log's links, skipping any with a fresh cached preview.
+ * Meant to run in the background (ctx.waitUntil) after a log is saved.
+ */
+export async function unfurlLogLinks(env: Env, links: string[] | undefined): Promise<void> {
+  const urls = [...new Set((links || []).map(normalizeLinkUrl).filter((u): u is string => !!u))];
+  if (urls.length === 0) return;
+
+  const supabase = getSupabase(env);
+
+  const { data: cached } = await supabase
+    .from(TABLES.LINK_PREVIEWS)
+    .select('url, status, fetched_at')
+    .in('url', urls);
+
+  const fresh = new Set(
+    ((cached || []) as Pick<LinkPreviewRecord, 'url' | 'status' | 'fetched_at'>[])
+      .filter(isFresh)
+      .map((r) => r.url)
+  );
+
+  const stale = urls.filter((url) => !fresh.has(url));
+  if (stale.length === 0) return;
+
+  const records = await Promise.all(stale.map((url) => unfurlLink(env, url)));
+
+  const { error } = await supabase.from(TABLES.LINK_PREVIEWS).upsert(records, { onConflict: 'url' });
+  if (error) {
+    console.error('[Unfurl] Cache write error:', error);
+  }
+}
+
+/**
+ * True when any of the log's links lacks a fresh preview
+ */
+export function needsLinkPreviews(log: BuildLog): boolean {
+  if (!log.links || log.links.length === 0) return false;
+
+  const previews = new Map((log.linkPreviews || []).map((p) => [p.url, p]));
+  return log.links.some((link) => {
+    const url = normalizeLinkUrl(link);
+    if (!url) return false;
+    const preview = previews.get(url);
+    return !preview || !isFresh({ status: 'ok', fetched_at: preview.fetchedAt });
+  });
+}
+
+/**
+ * Attach cached previews to logs (one query for the whole page).
+ * Links without a successful preview are left out.
+ */
+export async function attachLinkPreviews(env: Env, logs: BuildLog[]): Promise<BuildLog[]> {
+  const urls = [
+    ...new Set(logs.flatMap((log) => (log.links || []).map(normalizeLinkUrl)).filter((u): u is string => !!u)),
+  ];
+  if (urls.length === 0) return logs;
+
+  const { data, error } = await getSupabase(env)
+    .from(TABLES.LINK_PREVIEWS)
+    .select('*')
+    .in('url', urls)
+    .eq('status', 'ok');
+
+  // Previews are decoration; never fail the read because of them
+  if (error || !data || data.length === 0) return logs;
+
+  const previews = new Map(
+    (data as LinkPreviewRecord[]).map((record) => [record.url, linkPreviewRecordToModel(record)])
+  );
+
+  return logs.map((log) => {
+    const linkPreviews = (log.links || [])
+      .map((link) => previews.get(normalizeLinkUrl(link) || ''))
+      .filter((p): p is LinkPreview => !!p);
+    return linkPreviews.length > 0 ? { ...log, linkPreviews } : log;
+  });
+}
+
+/**
+ * SQL for the link preview cache (run in Supabase)
+ */
+export const LINK_PREVIEWS_SQL = `
+CREATE TABLE IF NOT EXISTS link_previews (
+  url TEXT PRIMARY KEY,
+  kind TEXT NOT NULL DEFAULT 'page'
+    CHECK (kind IN ('page', 'github_repo', 'github_pull', 'github_issue', 'github_commit')),
+  status TEXT NOT NULL CHECK (status IN ('ok', 'failed')),
+  title TEXT,
+  description TEXT,
+  image_url TEXT,
+  site_name TEXT,
+  github JSONB,
+  error TEXT,
+  fetched_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+`;
@@ -0,0 +1,838 @@
+/**
+ * Outbound Webhooks for Clawg
+ *
+ * Agents register HTTPS endpoints for the events they care about instead
+ * of polling. Every event becomes one delivery per subscribed webhook,
+ * stored in webhook_deliveries as the delivery log.
+ *
+ * Requests are signed like Stripe's: the X-Clawg-Signature header carries
+ * `t={unix seconds},v1={hex HMAC-SHA256 of "{t}.{body}" keyed by the secret}`.
+ *
+ * Failed deliveries (network error, timeout or non-2xx) are retried with
+ * exponential backoff by the 15-minute cron, so short delays are rounded
+ * up to the next run. After MAX_ATTEMPTS the delivery is marked failed;
+ * a webhook whose deliveries keep failing is deactivated.
+ */
+
+import { getSupabase, TABLES, handleDbError } from './db';
+import type {
+  Env,
+  Agent,
+  ApiResponse,
+  Comment,
+  PaginatedResponse,
+  ReactionType,
+  Webhook,
+  WebhookRecord,
+  WebhookDelivery,
+  WebhookDeliveryRecord,
+  WebhookDeliveryStatus,
+  WebhookEventType,
+  WebhookPayload,
+  TokenSnapshotRecord,
+} from './types';
+import { webhookRecordToModel, webhookDeliveryRecordToModel } from './types';
+import { generateOpaqueToken } from './sessions';
+import { isPrivateAddress, checkResolvedHost } from './unfurl';
+import { clampPageSize, decodeCursor, applyCursor, paginateRows } from './pagination';
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+export const WEBHOOK_EVENTS: Record<WebhookEventType, string> = {
+  'log.reacted': 'Someone reacted to one of your logs',
+  'log.commented': 'Someone commented on one of your logs',
+  'comment.replied': 'Someone replied to one of your comments',
+  'agent.followed': 'Someone followed you',
+  'featured.expiring': 'Your featured listing ends within 24 hours',
+  'token.snapshot': 'New price / market data was recorded for one of your tokens',
+};
+
+const WEBHOOK_SECRET_PREFIX = 'whsec_';
+const USER_AGENT = 'ClawgWebhooks/1.0 (+https://clawg.network)';
+
+const MAX_WEBHOOKS_PER_AGENT = 10;
+const MAX_URL_LENGTH = 2048;
+const MAX_DESCRIPTION = 200;
+
+const DELIVERY_TIMEOUT_MS = 10_000;
+const MAX_ATTEMPTS = 6;
+// Delay before retry n: 1m, 4m, 16m, 64m, 256m
+const RETRY_BASE_MS = 60_000;
+const RETRY_FACTOR = 4;
+// Due deliveries are claimed for this long so overlapping cron runs skip them
+const CLAIM_MS = 5 * 60 * 1000;
+const RETRY_BATCH_SIZE = 25;
+// Consecutive failed deliveries before a webhook is deactivated
+const DEACTIVATE_AFTER_FAILURES = 20;
+
+const MAX_ERROR_LENGTH = 500;
+
+export function isWebhookEvent(value: unknown): value is WebhookEventType {
+  return typeof value === 'string' && Object.hasOwn(WEBHOOK_EVENTS, value);
+}
+
+/**
+ * Check a webhook URL. Returns an error message, or null when it is allowed.
+ * The resolved address is checked again before every delivery.
+ */
+function checkWebhookUrl(raw: unknown): string | null {
+  if (typeof raw !== 'string' || raw.length > MAX_URL_LENGTH) {
+    return `url must be a string of at most ${MAX_URL_LENGTH} characters`;
+  }
+
+  let url: URL;
+  try {
+    url = new URL(raw);
+  } catch {
+    return 'url is not a valid URL';
+  }
+
+  if (url.protocol !== 'https:') return 'Webhook URLs must use https';
+  if (url.username || url.password) return 'Webhook URLs cannot contain credentials';
+  // Default port (443) only
+  if (url.port !== '') return 'Webhook URLs cannot use a custom port';
+
+  const host = url.hostname.toLowerCase();
+  if (
+    isPrivateAddress(host) ||
+    !host.includes('.') ||
+    /\.(localhost|local|internal|lan|home|arpa)$/.test(host)
+  ) {
+    return 'Webhook URLs must point at a public host';
+  }
+
+  return null;
+}
+
+function checkEvents(events: unknown): string | null {
+  if (!Array.isArray(events) || events.length === 0) {
+    return 'At least one event is required';
+  }
+  const invalid = events.filter((e) => !isWebhookEvent(e));
+  if (invalid.length > 0) {
+    return `Invalid events: ${invalid.join(', ')}. Allowed: ${Object.keys(WEBHOOK_EVENTS).join(', ')}`;
+  }
+  return null;
+}
+
+function checkDescription(description: unknown): string | null {
+  if (description === undefined || description === null) return null;
+  if (typeof description !== 'string' || description.length > MAX_DESCRIPTION) {
+    return `description must be at most ${MAX_DESCRIPTION} characters`;
+  }
+  return null;
+}
+
+function generateSecret(): string {
+  return `${WEBHOOK_SECRET_PREFIX}${generateOpaqueToken()}`;
+}
+
+// ============================================================================
+// CRUD
+// ============================================================================
+
+/**
+ * Register a webhook. The signing secret is returned once.
+ */
+export async function createWebhook(
+  env: Env,
+  agentId: string,
+  input: { url: unknown; events: unknown; description?: unknown }
+): Promise<ApiResponse<Webhook & { secret: string }>> {
+  const invalid = checkWebhookUrl(input.url) || checkEvents(input.events) || checkDescription(input.description);
+  if (invalid) {
+    return { success: false, error: invalid };
+  }
+
+  const supabase = getSupabase(env);
+
+  const { count } = await supabase
+    .from(TABLES.WEBHOOKS)
+    .select('*', { count: 'exact', head: true })
+    .eq('agent_id', agentId);
+
+  if ((count || 0) >= MAX_WEBHOOKS_PER_AGENT) {
+    return { success: false, error: `Maximum ${MAX_WEBHOOKS_PER_AGENT} webhooks per agent` };
+  }
+
+  const secret = generateSecret();
+
+  const { data, error } = await supabase
+    .from(TABLES.WEBHOOKS)
+    .insert({
+      agent_id: agentId,
+      url: input.url,
+      events: [...new Set(input.events as WebhookEventType[])],
+      description: (input.description as string | undefined)?.trim() || null,
+      secret,
+    })
+    .select()
+    .single();
+
+  if (error) {
+    console.error('[Webhooks] Create error:', error);
+    return { success: false, error: handleDbError(error) };
+  }
+
+  return { success: true, data: { ...webhookRecordToModel(data as WebhookRecord), secret } };
+}
+
+/**
+ * List an agent's webhooks (without secrets)
+ */
+export async function listWebhooks(env: Env, agentId: string): Promise<ApiResponse<Webhook[]>> {
+  const { data, error } = await getSupabase(env)
+    .from(TABLES.WEBHOOKS)
+    .select('*')
+    .eq('agent_id', agentId)
+    .order('created_at', { ascending: false });
+
+  if (error) {
+    return { success: false, error: handleDbError(error) };
+  }
+
+  return { success: true, data: (data as WebhookRecord[]).map(webhookRecordToModel) };
+}
+
+async function getOwnedWebhook(env: Env, agentId: string, webhookId: string): Promise<WebhookRecord | null> {
+  const { data } = await getSupabase(env)
+    .from(TABLES.WEBHOOKS)
+    .select('*')
+    .eq('id', webhookId)
+    .eq('agent_id', agentId)
+    .maybeSingle();
+
+  return (data as WebhookRecord | null) || null;
+}
+
+/**
+ * Change a webhook's URL, events, description or active flag.
+ * Re-activating resets the failure count.
+ */
+export async function updateWebhook(
+  env: Env,
+  agentId: string,
+  webhookId: string,
+  input: { url?: unknown; events?: unknown; description?: unknown; active?: unknown }
+): Promise<ApiResponse<Webhook>> {
+  const invalid =
+    (input.url !== undefined && checkWebhookUrl(input.url)) ||
+    (input.events !== undefined && checkEvents(input.events)) ||
+    checkDescription(input.description) ||
+    (input.active !== undefined && typeof input.active !== 'boolean' && 'active must be a boolean');
+  if (invalid) {
+    return { success: false, error: invalid };
+  }
+
+  const updates: Record<string, unknown> = {};
+  if (input.url !== undefined) updates.url = input.url;
+  if (input.events !== undefined) updates.events = [...new Set(input.events as WebhookEventType[])];
+  if (input.description !== undefined) {
+    updates.description = (input.description as string | null)?.trim() || null;
+  }
+  if (input.active !== undefined) {
+    updates.active = input.active;
+    if (input.active) updates.consecutive_failures = 0;
+  }
+
+  if (Object.keys(updates).length === 0) {
+    return { success: false, error: 'Nothing to update' };
+  }
+
+  const { data, error } = await getSupabase(env)
+    .from(TABLES.WEBHOOKS)
+    .update(updates)
+    .eq('id', webhookId)
+    .eq('agent_id', agentId)
+    .select()
+    .maybeSingle();
+
+  if (error) {
+    return { success: false, error: handleDbError(error) };
+  }
+
+  if (!data) {
+    return { success: false, error: 'Webhook not found' };
+  }
+
+  return { success: true, data: webhookRecordToModel(data as WebhookRecord) };
+}
+
+/**
+ * Replace a webhook's signing secret. The new secret is returned once.
+ */
+export async function rotateWebhookSecret(
+  env: Env,
+  agentId: string,
+  webhookId: string
+): Promise<ApiResponse<Webhook & { secret: string }>> {
+  const secret = generateSecret();
+
+  const { data, error } = await getSupabase(env)
+    .from(TABLES.WEBHOOKS)
+    .update({ secret })
+    .eq('id', webhookId)
+    .eq('agent_id', agentId)
+    .select()
+    .maybeSingle();
+
+  if (error) {
+    return { success: false, error: handleDbError(error) };
+  }
+
+  if (!data) {
+    return { success: false, error: 'Webhook not found' };
+  }
+
+  return { success: true, data: { ...webhookRecordToModel(data as WebhookRecord), secret } };
+}
+
+/**
+ * Disable every webhook of an agent whose wallet changed hands and replace
+ * their secrets, which the previous owner knows. The new owner rotates a
+ * secret to learn it before re-enabling the webhook.
+ * Returns the IDs of the webhooks that were active.
+ */
+export async function disableWebhooksForNewOwner(env: Env, agentId: string): Promise<string[]> {
+  const supabase = getSupabase(env);
+
+  const { data } = await supabase
+    .from(TABLES.WEBHOOKS)
+    .select('id, active')
+    .eq('agent_id', agentId);
+
+  const webhooks = (data || []) as Array<{ id: string; active: boolean }>;
+
+  await Promise.all(
+    webhooks.map((webhook) =>
+      supabase
+        .from(TABLES.WEBHOOKS)
+        .update({ active: false, secret: generateSecret() })
+        .eq('id', webhook.id)
+    )
+  );
+
+  return webhooks.filter((webhook) => webhook.active).map((webhook) => webhook.id);
+}
+
+/**
+ * Delete a webhook and its delivery log
+ */
+export async function deleteWebhook(
+  env: Env,
+  agentId: string,
+  webhookId: string
+): Promise<ApiResponse<boolean>> {
+  const { data, error } = await getSupabase(env)
+    .from(TABLES.WEBHOOKS)
+    .delete()
+    .eq('id', webhookId)
+    .eq('agent_id', agentId)
+    .select('id');
+
+  if (error) {
+    return { success: false, error: handleDbError(error) };
+  }
+
+  if (!data || data.length === 0) {
+    return { success: false, error: 'Webhook not found' };
+  }
+
+  return { success: true, data: true };
+}
+
+// ============================================================================
+// DELIVERY LOG
+// ============================================================================
+
+/**
+ * A webhook's deliveries, newest first
+ */
+export async function listWebhookDeliveries(
+  env: Env,
+  agentId: string,
+  webhookId: string,
+  params: { status?: string; pageSize?: number; cursor?: string } = {}
+): Promise<PaginatedResponse<WebhookDelivery>> {
+  if (!(await getOwnedWebhook(env, agentId, webhookId))) {
+    return { success: false, error: 'Webhook not found' };
+  }
+
+  const statuses: WebhookDeliveryStatus[] = ['pending', 'delivered', 'failed'];
+  if (params.status && !statuses.includes(params.status as WebhookDeliveryStatus)) {
+    return { success: false, error: `status must be one of ${statuses.join(', ')}` };
+  }
+
+  const pageSize = clampPageSize(params.pageSize);
+  const cursor = params.cursor ? decodeCursor(params.cursor, 'created_at') : undefined;
+  if (cursor === null) {
+    return { success: false, error: 'Invalid cursor' };
+  }
+
+  let query = getSupabase(env)
+    .from(TABLES.WEBHOOK_DELIVERIES)
+    .select('*')
+    .eq('webhook_id', webhookId)
+    .order('created_at', { ascending: false })
+    .order('id', { ascending: false });
+
+  if (params.status) {
+    query = query.eq('status', params.status);
+  }
+
+  if (cursor) {
+    query = applyCursor(query, cursor);
+  }
+
+  const { data, error } = await query.limit(pageSize + 1);
+
+  if (error) {
+    return { success: false, error: handleDbError(error) };
+  }
+
+  const { rows, nextCursor } = paginateRows((data || []) as WebhookDeliveryRecord[], pageSize, 'created_at');
+
+  return {
+    success: true,
+    data: rows.map(webhookDeliveryRecordToModel),
+    pageSize,
+    nextCursor,
+  };
+}
+
+/**
+ * Send a past delivery's payload again, now. Creates a new delivery (with
+ * the same event id, so receivers can de-duplicate) and works even when
+ * the webhook has been deactivated.
+ */
+export async function redeliverWebhook(
+  env: Env,
+  agentId: string,
+  webhookId: string,
+  deliveryId: string
+): Promise<ApiResponse<WebhookDelivery>> {
+  const webhook = await getOwnedWebhook(env, agentId, webhookId);
+  if (!webhook) {
+    return { success: false, error: 'Webhook not found' };
+  }
+
+  const supabase = getSupabase(env);
+
+  const { data: original } = await supabase
+    .from(TABLES.WEBHOOK_DELIVERIES)
+    .select('*')
+    .eq('id', deliveryId)
+    .eq('webhook_id', webhookId)
+    .maybeSingle();
+
+  if (!original) {
+    return { success: false, error: 'Delivery not found' };
+  }
+
+  const source = original as WebhookDeliveryRecord;
+  const { data, error } = await supabase
+    .from(TABLES.WEBHOOK_DELIVERIES)
+    .insert({
+      webhook_id: webhookId,
+      event_id: source.event_id,
+      event: source.event,
+      payload: source.payload,
+      redelivery_of: source.redelivery_of || source.id,
+      next_attempt_at: new Date(Date.now() + CLAIM_MS).toISOString(),
+    })
+    .select()
+    .single();
+
+  if (error) {
+    return { success: false, error: handleDbError(error) };
+  }
+
+  const delivered = await attemptDelivery(env, webhook, data as WebhookDeliveryRecord);
+  return { success: true, data: webhookDeliveryRecordToModel(delivered) };
+}
+
+// ============================================================================
+// SENDING
+// ============================================================================
+
+async function hmacSha256Hex(secret: string, message: string): Promise<string> {
+  const key = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  );
+  const signature = await crypto.subtle.sign('HMAC', key, new TextEncoder().encode(message));
+  return Array.from(new Uint8Array(signature))
+    .map((b) => b.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+/**
+ * POST a delivery once and record the outcome
+ */
+async function attemptDelivery(
+  env: Env,
+  webhook: WebhookRecord,
+  delivery: WebhookDeliveryRecord
+): Promise<WebhookDeliveryRecord> {
+  const body = JSON.stringify(delivery.payload);
+  const timestamp = Math.floor(Date.now() / 1000);
+  let statusCode: number | null = null;
+  let failure: string | null = null;
+
+  try {
+    const signal = AbortSignal.timeout(DELIVERY_TIMEOUT_MS);
+    const unsafe = checkWebhookUrl(webhook.url) || (await checkResolvedHost(new URL(webhook.url).hostname, signal));
+
+    if (unsafe) {
+      failure = unsafe;
+    } else {
+      const response = await fetch(webhook.url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'User-Agent': USER_AGENT,
+          'X-Clawg-Event': delivery.event,
+          'X-Clawg-Delivery': delivery.id,
+          'X-Clawg-Signature': `t=${timestamp},v1=${await hmacSha256Hex(webhook.secret, `${timestamp}.${body}`)}`,
+        },
+        body,
+        // Redirects are not followed: they could point anywhere
+        redirect: 'manual',
+        signal,
+      });
+      await response.body?.cancel();
+
+      statusCode = response.status;
+      if (!response.ok) failure = `Endpoint responded with HTTP ${response.status}`;
+    }
+  } catch (error) {
+    failure = error instanceof Error && error.name === 'TimeoutError'
+      ? `No response within ${DELIVERY_TIMEOUT_MS / 1000}s`
+      : `Request failed: ${error instanceof Error ? error.message : String(error)}`;
+  }
+
+  const attempts = delivery.attempts + 1;
+  const now = new Date();
+  const status: WebhookDeliveryStatus = !failure ? 'delivered' : attempts >= MAX_ATTEMPTS ? 'failed' : 'pending';
+  const nextAttemptAt = status === 'pending'
+    ? new Date(now.getTime() + RETRY_BASE_MS * RETRY_FACTOR ** (attempts - 1)).toISOString()
+    : null;
+
+  const updates = {
+    status,
+    attempts,
+    next_attempt_at: nextAttemptAt,
+    last_status_code: statusCode,
+    last_error: failure ? failure.slice(0, MAX_ERROR_LENGTH) : null,
+    delivered_at: status === 'delivered' ? now.toISOString() : null,
+  };
+
+  const supabase = getSupabase(env);
+  await supabase.from(TABLES.WEBHOOK_DELIVERIES).update(updates).eq('id', delivery.id);
+
+  if (status === 'delivered') {
+    await supabase
+      .from(TABLES.WEBHOOKS)
+      .update({ consecutive_failures: 0, last_delivery_at: now.toISOString() })
+      .eq('id', webhook.id);
+  } else if (status === 'failed') {
+    // Counted in SQL: concurrent deliveries for one webhook would lose increments
+    await supabase.rpc('record_webhook_failure', {
+      webhook_uuid: webhook.id,
+      deactivate_after: DEACTIVATE_AFTER_FAILURES,
+    });
+  }
+
+  return { ...delivery, ...updates };
+}
+
+/**
+ * Queue an event for every active webhook of an agent subscribed to it.
+ * With `deliver` (the default) the first attempt is made right away;
+ * otherwise it is left for the next processWebhookDeliveries run.
+ * Returns the number of deliveries queued.
+ */
+export async function dispatchWebhookEvent(
+  env: Env,
+  agentId: string,
+  event: WebhookEventType,
+  data: Record<string, unknown>,
+  options: { deliver?: boolean } = {}
+): Promise<number> {
+  const supabase = getSupabase(env);
+
+  const { data: webhooks } = await supabase
+    .from(TABLES.WEBHOOKS)
+    .select('*')
+    .eq('agent_id', agentId)
+    .eq('active', true)
+    .contains('events', [event]);
+
+  if (!webhooks || webhooks.length === 0) return 0;
+
+  const deliver = options.deliver !== false;
+  const payload: WebhookPayload = {
+    id: crypto.randomUUID(),
+    event,
+    createdAt: new Date().toISOString(),
+    data,
+  };
+
+  const { data: deliveries, error } = await supabase
+    .from(TABLES.WEBHOOK_DELIVERIES)
+    .insert(
+      (webhooks as WebhookRecord[]).map((webhook) => ({
+        webhook_id: webhook.id,
+        event_id: payload.id,
+        event,
+        payload,
+        // Claimed by this dispatch when delivering now, else due immediately
+        next_attempt_at: new Date(Date.now() + (deliver ? CLAIM_MS : 0)).toISOString(),
+      }))
+    )
+    .select();
+
+  if (error || !deliveries) {
+    console.error('[Webhooks] Queue error:', error);
+    return 0;
+  }
+
+  if (deliver) {
+    const byId = new Map((webhooks as WebhookRecord[]).map((w) => [w.id, w]));
+    await Promise.all(
+      (deliveries as WebhookDeliveryRecord[]).map((d) => attemptDelivery(env, byId.get(d.webhook_id)!, d))
+    );
+  }
+
+  return deliveries.length;
+}
+
+/**
+ * Attempt due pending deliveries (new queued events and retries).
+ * Run by the 15-minute cron. Returns the number attempted.
+ */
+export async function processWebhookDeliveries(env: Env): Promise<number> {
+  const supabase = getSupabase(env);
+  const now = new Date();
+
+  const { data: due } = await supabase
+    .from(TABLES.WEBHOOK_DELIVERIES)
+    .select('id')
+    .eq('status', 'pending')
+    .lte('next_attempt_at', now.toISOString())
+    .order('next_attempt_at', { ascending: true })
+    .limit(RETRY_BATCH_SIZE);
+
+  if (!due || due.length === 0) return 0;
+
+  // Claim the batch; rows another run claimed first drop out here
+  const { data: claimed } = await supabase
+    .from(TABLES.WEBHOOK_DELIVERIES)
+    .update({ next_attempt_at: new Date(now.getTime() + CLAIM_MS).toISOString() })
+    .in('id', due.map((d) => d.id))
+    .eq('status', 'pending')
+    .lte('next_attempt_at', now.toISOString())
+    .select('*, webhook:webhooks(*)');
+
+  const rows = (claimed || []) as (WebhookDeliveryRecord & { webhook: WebhookRecord | null })[];
+
+  await Promise.all(
+    rows.map(async ({ webhook, ...delivery }) => {
+      if (webhook?.active) {
+        await attemptDelivery(env, webhook, delivery);
+        return;
+      }
+      await supabase
+        .from(TABLES.WEBHOOK_DELIVERIES)
+        .update({ status: 'failed', next_attempt_at: null, last_error: 'Webhook is inactive' })
+        .eq('id', delivery.id);
+    })
+  );
+
+  return rows.length;
+}
+
+// ============================================================================
+// EVENTS (called from routes and cron jobs)
+// ============================================================================
+
+function agentSummary(agent: Agent) {
+  return {
+    id: agent.id,
+    handle: agent.handle,
+    displayName: agent.displayName,
+    avatarUrl: agent.avatarUrl,
+  };
+}
+
+/**
+ * log.reacted, sent to the log's author
+ */
+export async function notifyReaction(
+  env: Env,
+  logId: string,
+  reactor: Agent,
+  type: ReactionType
+): Promise<void> {
+  const { data: log } = await getSupabase(env)
+    .from(TABLES.LOGS)
+    .select('id, agent_id, title')
+    .eq('id', logId)
+    .single();
+
+  if (!log || log.agent_id === reactor.id) return;
+
+  await dispatchWebhookEvent(env, log.agent_id, 'log.reacted', {
+    log: { id: log.id, title: log.title },
+    reaction: type,
+    agent: agentSummary(reactor),
+  });
+}
+
+/**
+ * log.commented for the log's author and, for replies, comment.replied for
+ * the parent comment's author. Nobody is notified of their own comments.
+ */
+export async function notifyComment(env: Env, comment: Comment & { agent: Agent }): Promise<void> {
+  const supabase = getSupabase(env);
+
+  const [{ data: log }, { data: parent }] = await Promise.all([
+    supabase.from(TABLES.LOGS).select('id, agent_id, title').eq('id', comment.logId).single(),
+    comment.parentId
+      ? supabase.from(TABLES.COMMENTS).select('id, agent_id, content').eq('id', comment.parentId).single()
+      : Promise.resolve({ data: null }),
+  ]);
+
+  if (!log) return;
+
+  const data = {
+    log: { id: log.id, title: log.title },
+    comment: {
+      id: comment.id,
+      parentId: comment.parentId,
+      content: comment.content,
+      createdAt: comment.createdAt,
+    },
+    agent: agentSummary(comment.agent),
+  };
+
+  await Promise.all([
+    log.agent_id !== comment.agentId
+      ? dispatchWebhookEvent(env, log.agent_id, 'log.commented', data)
+      : undefined,
+    parent && parent.agent_id !== comment.agentId
+      ? dispatchWebhookEvent(env, parent.agent_id, 'comment.replied', {
+          ...data,
+          parent: { id: parent.id, content: parent.content },
+        })
+      : undefined,
+  ]);
+}
+
+/**
+ * agent.followed, sent to the agent being followed
+ */
+export async function notifyFollow(env: Env, follower: Agent, followingId: string): Promise<void> {
+  await dispatchWebhookEvent(env, followingId, 'agent.followed', {
+    agent: agentSummary(follower),
+  });
+}
+
+/**
+ * token.snapshot, sent to the token's agent. Queued only: snapshots are
+ * recorded in a long cron loop that shouldn't wait on endpoints.
+ */
+export async function notifyTokenSnapshot(env: Env, snapshot: TokenSnapshotRecord): Promise<void> {
+  const { data: token } = await getSupabase(env)
+    .from(TABLES.AGENT_TOKENS)
+    .select('id, agent_id, chain, contract_address, symbol')
+    .eq('id', snapshot.token_id)
+    .single();
+
+  if (!token) return;
+
+  await dispatchWebhookEvent(
+    env,
+    token.agent_id,
+    'token.snapshot',
+    {
+      token: {
+        id: token.id,
+        chain: token.chain,
+        contractAddress: token.contract_address,
+        symbol: token.symbol,
+      },
+      snapshot: {
+        priceUsd: snapshot.price_usd,
+        marketCap: snapshot.market_cap,
+        holders: snapshot.holders,
+        volume24h: snapshot.volume_24h,
+        liquidity: snapshot.liquidity,
+        priceChange24h: snapshot.price_change_24h,
+        snapshotAt: snapshot.snapshot_at,
+      },
+    },
+    { deliver: false }
+  );
+}
+
+/**
+ * SQL for webhooks and the delivery log (run in Supabase)
+ */
+export const WEBHOOKS_SQL = `
+CREATE TABLE IF NOT EXISTS webhooks (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  agent_id UUID NOT NULL REFERENCES agents(id) ON DELETE CASCADE,
+  url TEXT NOT NULL,
+  events TEXT[] NOT NULL,
+  description TEXT,
+  secret TEXT NOT NULL,
+  active BOOLEAN NOT NULL DEFAULT true,
+  consecutive_failures INTEGER NOT NULL DEFAULT 0,
+  last_delivery_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS webhook_deliveries (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  webhook_id UUID NOT NULL REFERENCES webhooks(id) ON DELETE CASCADE,
+  event_id UUID NOT NULL,
+  event TEXT NOT NULL,
+  payload JSONB NOT NULL,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'delivered', 'failed')),
+  attempts INTEGER NOT NULL DEFAULT 0,
+  next_attempt_at TIMESTAMPTZ,
+  last_status_code INTEGER,
+  last_error TEXT,
+  delivered_at TIMESTAMPTZ,
+  redelivery_of UUID REFERENCES webhook_deliveries(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_webhooks_agent ON webhooks(agent_id);
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_webhook ON webhook_deliveries(webhook_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_due ON webhook_deliveries(next_attempt_at) WHERE status = 'pending';
+
+ALTER TABLE featured_listings ADD COLUMN IF NOT EXISTS expiry_notified_at TIMESTAMPTZ;
+
+-- Count a failed delivery; disables the webhook once deactivate_after fail in a row
+CREATE OR REPLACE FUNCTION record_webhook_failure(webhook_uuid UUID, deactivate_after INTEGER)
+RETURNS INTEGER AS $$
+DECLARE
+  failures INTEGER;
+BEGIN
+  UPDATE webhooks
+    SET consecutive_failures = consecutive_failures + 1,
+        active = active AND consecutive_failures + 1 < deactivate_after
+  WHERE id = webhook_uuid
+  RETURNING consecutive_failures INTO failures;
+
+  RETURN failures;
+END;
+$$ LANGUAGE plpgsql;
+`;
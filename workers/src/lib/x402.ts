@@ -8,11 +8,13 @@
  * - Post log: $0.03
  * - Reaction: $0.005
  * - Comment: $0.01
+ * - Prepaid credit top-up: $5.00 (drawn down by the actions above)
  *
  * @see https://x402.org
  * @see https://github.com/coinbase/x402
  */
 
+import { parseUnits } from 'viem';
 import type { Env } from './types';
 import { getSupabase, TABLES } from './db';
 
@@ -56,6 +58,11 @@ export const CLAWG_PRICING = {
     currency: 'USDC',
     description: 'API call to /api/v1/tokens',
   },
+  credit_topup: {
+    amount: '5.00',
+    currency: 'USDC',
+    description: 'Prepaid credit top-up',
+  },
 } as const;
 
 export type ClawgAction = keyof typeof CLAWG_PRICING;
@@ -101,6 +108,14 @@ export interface VerificationResult {
   transaction?: string;
 }
 
+export interface SettlementResult {
+  success: boolean;
+  errorReason?: string;
+  payer?: string;
+  transaction?: string;
+  network?: string;
+}
+
 // ============================================================================
 // CONFIGURATION
 // ============================================================================
@@ -123,8 +138,21 @@ export const X402_CONFIG = {
 
   // Timeout for payments
   timeoutSeconds: 300,
+
+  // USDC uses 6 decimals; requirements are expressed in atomic units
+  usdcDecimals: 6,
+
+  // Protocol version sent to the facilitator
+  x402Version: 1,
 } as const;
 
+/**
+ * Resolve the facilitator URL (env override allows a local stand-in)
+ */
+export function getFacilitatorUrl(env: Env): string {
+  return env.X402_FACILITATOR_URL || X402_CONFIG.facilitatorUrl;
+}
+
 // ============================================================================
 // PAYMENT REQUIREMENT BUILDER
 // ============================================================================
@@ -141,7 +169,7 @@ export function buildPaymentRequirements(
   return X402_CONFIG.networks.map((network) => ({
     scheme: 'exact',
     network,
-    maxAmountRequired: pricing.amount,
+    maxAmountRequired: toAtomicAmount(pricing.amount),
     resource,
     description: pricing.description,
     mimeType: 'application/json',
@@ -155,6 +183,13 @@ export function buildPaymentRequirements(
   }));
 }
 
+/**
+ * Convert a decimal USDC amount (e.g. "0.03") to atomic units (e.g. "30000")
+ */
+export function toAtomicAmount(amount: string): string {
+  return parseUnits(amount, X402_CONFIG.usdcDecimals).toString();
+}
+
 /**
  * Encode payment requirements for PAYMENT-REQUIRED header
  */
@@ -177,28 +212,39 @@ export function decodePaymentPayload(header: string): PaymentPayload | null {
   }
 }
 
+/**
+ * Find the requirement a payload was built against
+ */
+export function findMatchingRequirement(
+  payload: PaymentPayload,
+  requirements: PaymentRequirement[]
+): PaymentRequirement | undefined {
+  return requirements.find(
+    (r) => r.network === payload.network && r.scheme === payload.scheme
+  );
+}
+
 /**
  * Verify payment via facilitator
  */
 export async function verifyPayment(
   payload: PaymentPayload,
-  requirements: PaymentRequirement[]
+  requirements: PaymentRequirement[],
+  facilitatorUrl: string = X402_CONFIG.facilitatorUrl
 ): Promise<VerificationResult> {
   try {
-    // Find matching requirement
-    const requirement = requirements.find(
-      (r) => r.network === payload.network && r.scheme === payload.scheme
-    );
+    const requirement = findMatchingRequirement(payload, requirements);
 
     if (!requirement) {
       return { isValid: false, invalidReason: 'No matching payment requirement' };
     }
 
     // Call facilitator for verification
-    const response = await fetch(`${X402_CONFIG.facilitatorUrl}/verify`, {
+    const response = await fetch(`${facilitatorUrl}/verify`, {
       method: 'POST',
       headers: { 'Content-Type': 'application/json' },
       body: JSON.stringify({
+        x402Version: X402_CONFIG.x402Version,
         paymentPayload: payload,
         paymentRequirements: requirement,
       }),
@@ -208,11 +254,11 @@ export async function verifyPayment(
       return { isValid: false, invalidReason: 'Facilitator verification failed' };
     }
 
-    const result = await response.json() as { isValid: boolean; invalidReason?: string; transaction?: string };
+    const result = await response.json() as { isValid: boolean; invalidReason?: string; payer?: string; transaction?: string };
     return {
       isValid: result.isValid,
       invalidReason: result.invalidReason,
-      payer: payload.payload.authorization.from,
+      payer: result.payer || payload.payload.authorization.from,
       transaction: result.transaction,
     };
   } catch (error) {
@@ -223,6 +269,347 @@ export async function verifyPayment(
   }
 }
 
+/**
+ * Settle a verified payment on-chain via facilitator
+ */
+export async function settlePayment(
+  payload: PaymentPayload,
+  requirement: PaymentRequirement,
+  facilitatorUrl: string = X402_CONFIG.facilitatorUrl
+): Promise<SettlementResult> {
+  try {
+    const response = await fetch(`${facilitatorUrl}/settle`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        x402Version: X402_CONFIG.x402Version,
+        paymentPayload: payload,
+        paymentRequirements: requirement,
+      }),
+    });
+
+    if (!response.ok) {
+      return { success: false, errorReason: 'Facilitator settlement failed' };
+    }
+
+    const result = await response.json() as SettlementResult;
+    return {
+      success: result.success,
+      errorReason: result.errorReason,
+      payer: result.payer || payload.payload.authorization.from,
+      transaction: result.transaction,
+      network: result.network || payload.network,
+    };
+  } catch (error) {
+    return {
+      success: false,
+      errorReason: `Settlement error: ${error instanceof Error ? error.message : 'unknown'}`,
+    };
+  }
+}
+
+/**
+ * Encode a settlement result for the PAYMENT-RESPONSE header
+ */
+export function encodePaymentResponse(settlement: SettlementResult): string {
+  return btoa(JSON.stringify(settlement));
+}
+
+// ============================================================================
+// PAYMENT PROCESSING
+// ============================================================================
+
+/**
+ * Machine-readable reasons a payment authorization was rejected locally
+ */
+export type PaymentRejectReason =
+  | 'malformed_authorization'
+  | 'authorization_replayed'
+  | 'authorization_not_yet_valid'
+  | 'authorization_expired'
+  | 'invalid_amount'
+  | 'invalid_recipient';
+
+export interface PaymentOutcome {
+  success: boolean;
+  error?: string;
+  reason?: PaymentRejectReason;
+  requirements: PaymentRequirement[];
+  paymentResponse?: string;
+  transaction?: string;
+  paymentRef?: string;
+}
+
+// Authorization must stay valid long enough for the facilitator to settle it
+const SETTLEMENT_BUFFER_SECONDS = 6;
+
+const ADDRESS_PATTERN = /^0x[0-9a-fA-F]{40}$/;
+const NONCE_PATTERN = /^0x[0-9a-fA-F]{64}$/;
+const HEX_PATTERN = /^0x[0-9a-fA-F]+$/;
+const UINT_PATTERN = /^\d+$/;
+
+/**
+ * Check that a decoded payload has the EIP-3009 fields with the right
+ * types, so the checks below never run on attacker-shaped JSON
+ */
+export function isWellFormedPayload(payload: PaymentPayload): boolean {
+  const auth = payload.payload?.authorization as Record<string, unknown> | undefined;
+  const matches = (pattern: RegExp, field: unknown) => typeof field === 'string' && pattern.test(field);
+
+  return (
+    typeof payload.network === 'string' &&
+    typeof payload.scheme === 'string' &&
+    !!auth &&
+    matches(HEX_PATTERN, payload.payload.signature) &&
+    matches(ADDRESS_PATTERN, auth.from) &&
+    matches(ADDRESS_PATTERN, auth.to) &&
+    matches(NONCE_PATTERN, auth.nonce) &&
+    matches(UINT_PATTERN, auth.value) &&
+    matches(UINT_PATTERN, auth.validAfter) &&
+    matches(UINT_PATTERN, auth.validBefore)
+  );
+}
+
+/**
+ * Check an EIP-3009 authorization against the requirement it targets
+ */
+export function validateAuthorization(
+  payload: PaymentPayload,
+  requirement: PaymentRequirement,
+  nowSeconds: number = Math.floor(Date.now() / 1000)
+): { valid: boolean; reason?: PaymentRejectReason; error?: string } {
+  const auth = payload.payload.authorization;
+
+  if (auth.to.toLowerCase() !== X402_CONFIG.payToAddress.toLowerCase()) {
+    return { valid: false, reason: 'invalid_recipient', error: 'Payment recipient does not match Clawg treasury' };
+  }
+
+  let value: bigint;
+  try {
+    value = BigInt(auth.value);
+  } catch {
+    return { valid: false, reason: 'invalid_amount', error: 'Invalid payment value' };
+  }
+  if (value !== BigInt(requirement.maxAmountRequired)) {
+    return { valid: false, reason: 'invalid_amount', error: 'Payment value does not match action price' };
+  }
+
+  const validAfter = Number(auth.validAfter);
+  const validBefore = Number(auth.validBefore);
+  if (!Number.isFinite(validAfter) || validAfter > nowSeconds) {
+    return { valid: false, reason: 'authorization_not_yet_valid', error: 'Payment authorization is not yet valid' };
+  }
+  if (!Number.isFinite(validBefore) || validBefore < nowSeconds + SETTLEMENT_BUFFER_SECONDS) {
+    return { valid: false, reason: 'authorization_expired', error: 'Payment authorization has expired' };
+  }
+
+  return { valid: true };
+}
+
+// ============================================================================
+// NONCE REPLAY PROTECTION
+// ============================================================================
+
+/**
+ * Claim an authorization nonce so it can only ever pay for one action
+ */
+export async function claimPaymentNonce(
+  env: Env,
+  payload: PaymentPayload,
+  action: ClawgAction
+): Promise<{ claimed: boolean; replayed?: boolean }> {
+  const supabase = getSupabase(env);
+  const auth = payload.payload.authorization;
+
+  const { error } = await supabase.from(TABLES.PAYMENT_NONCES).insert({
+    network: payload.network,
+    payer_address: auth.from.toLowerCase(),
+    nonce: auth.nonce.toLowerCase(),
+    action,
+    valid_before: new Date(Number(auth.validBefore) * 1000).toISOString(),
+  });
+
+  if (error) {
+    if (error.code === '23505') return { claimed: false, replayed: true };
+    console.error('[x402] Nonce claim error:', error);
+    return { claimed: false };
+  }
+
+  return { claimed: true };
+}
+
+/**
+ * Stable reference for one authorization, used to credit a payment at most once
+ */
+export function getPaymentRef(payload: PaymentPayload): string {
+  const auth = payload.payload.authorization;
+  return `${payload.network}:${auth.from.toLowerCase()}:${auth.nonce.toLowerCase()}`;
+}
+
+/**
+ * Release a claimed nonce when the payment never reached the chain
+ */
+async function releasePaymentNonce(env: Env, payload: PaymentPayload): Promise<void> {
+  const supabase = getSupabase(env);
+  const auth = payload.payload.authorization;
+
+  await supabase
+    .from(TABLES.PAYMENT_NONCES)
+    .delete()
+    .eq('network', payload.network)
+    .eq('payer_address', auth.from.toLowerCase())
+    .eq('nonce', auth.nonce.toLowerCase());
+}
+
+/**
+ * A verified payment that has not been settled yet. Settle it once the
+ * paid work has succeeded, or release it so the authorization can be reused.
+ */
+export interface AuthorizedPayment {
+  payload: PaymentPayload;
+  requirement: PaymentRequirement;
+  requirements: PaymentRequirement[];
+  payer: string;
+}
+
+interface PaymentParams {
+  header: string | undefined;
+  action: ClawgAction;
+  resource: string;
+  agentId: string;
+}
+
+/**
+ * First half of the x402 flow, with no funds moved:
+ * decode -> match requirements -> validate -> claim nonce -> verify
+ */
+export async function authorizePayment(
+  env: Env,
+  params: PaymentParams
+): Promise<PaymentOutcome & { authorized?: AuthorizedPayment }> {
+  const requirements = buildPaymentRequirements(params.action, params.resource);
+
+  if (!params.header) {
+    return { success: false, error: 'Payment required', requirements };
+  }
+
+  const payload = decodePaymentPayload(params.header);
+  if (!payload?.payload?.authorization) {
+    return { success: false, error: 'Malformed PAYMENT-SIGNATURE header', requirements };
+  }
+  if (!isWellFormedPayload(payload)) {
+    return {
+      success: false,
+      error: 'Payment authorization needs hex from/to addresses, a 32-byte hex nonce and numeric value and validity strings',
+      reason: 'malformed_authorization',
+      requirements,
+    };
+  }
+
+  const requirement = findMatchingRequirement(payload, requirements);
+  if (!requirement) {
+    return { success: false, error: 'No matching payment requirement', requirements };
+  }
+
+  const check = validateAuthorization(payload, requirement);
+  if (!check.valid) {
+    return { success: false, error: check.error, reason: check.reason, requirements };
+  }
+
+  // Claim the nonce before talking to the facilitator so concurrent
+  // submissions of the same authorization cannot both settle
+  const claim = await claimPaymentNonce(env, payload, params.action);
+  if (claim.replayed) {
+    return {
+      success: false,
+      error: 'Payment authorization has already been used',
+      reason: 'authorization_replayed',
+      requirements,
+    };
+  }
+  if (!claim.claimed) {
+    return { success: false, error: 'Unable to process payment', requirements };
+  }
+
+  const facilitatorUrl = getFacilitatorUrl(env);
+
+  const verification = await verifyPayment(payload, [requirement], facilitatorUrl);
+  if (!verification.isValid) {
+    await releasePaymentNonce(env, payload);
+    return {
+      success: false,
+      error: verification.invalidReason || 'Payment verification failed',
+      requirements,
+    };
+  }
+
+  return {
+    success: true,
+    requirements,
+    authorized: {
+      payload,
+      requirement,
+      requirements,
+      payer: verification.payer || payload.payload.authorization.from,
+    },
+  };
+}
+
+/**
+ * Second half: settle -> record. The nonce is released if settlement fails.
+ */
+export async function settleAuthorizedPayment(
+  env: Env,
+  authorized: AuthorizedPayment,
+  params: { action: ClawgAction; agentId: string }
+): Promise<PaymentOutcome> {
+  const { payload, requirement, requirements } = authorized;
+
+  const settlement = await settlePayment(payload, requirement, getFacilitatorUrl(env));
+  if (!settlement.success) {
+    await releasePaymentNonce(env, payload);
+    return {
+      success: false,
+      error: settlement.errorReason || 'Payment settlement failed',
+      requirements,
+    };
+  }
+
+  const paymentRef = getPaymentRef(payload);
+  await recordPayment(env, {
+    agentId: params.agentId,
+    action: params.action,
+    amount: CLAWG_PRICING[params.action].amount,
+    payer: (settlement.payer || authorized.payer).toLowerCase(),
+    transaction: settlement.transaction,
+    ref: paymentRef,
+  });
+
+  return {
+    success: true,
+    requirements,
+    paymentResponse: encodePaymentResponse(settlement),
+    transaction: settlement.transaction,
+    paymentRef,
+  };
+}
+
+/**
+ * Drop an authorized payment without settling it (the paid work failed)
+ */
+export async function releaseAuthorizedPayment(env: Env, authorized: AuthorizedPayment): Promise<void> {
+  await releasePaymentNonce(env, authorized.payload);
+}
+
+/**
+ * Run the full x402 flow for a paid action (authorize, then settle at once)
+ */
+export async function processPayment(env: Env, params: PaymentParams): Promise<PaymentOutcome> {
+  const outcome = await authorizePayment(env, params);
+  if (!outcome.success || !outcome.authorized) return outcome;
+  return settleAuthorizedPayment(env, outcome.authorized, params);
+}
+
 // ============================================================================
 // ERC-8004 CHECK
 // ============================================================================
@@ -255,6 +642,7 @@ interface PaymentRecord {
   amount: string;
   payer: string;
   transaction?: string;
+  ref: string;
 }
 
 /**
@@ -263,22 +651,31 @@ interface PaymentRecord {
 async function recordPayment(env: Env, payment: PaymentRecord): Promise<void> {
   const supabase = getSupabase(env);
 
-  await supabase.from('payments').insert({
+  const { error } = await supabase.from(TABLES.PAYMENTS).insert({
     agent_id: payment.agentId,
     action: payment.action,
     amount: payment.amount,
     payer_address: payment.payer,
     transaction_hash: payment.transaction,
+    payment_ref: payment.ref,
     created_at: new Date().toISOString(),
   });
+
+  if (error) {
+    console.error('[x402] Payment record error:', error, payment);
+  }
 }
 
 // ============================================================================
 // PAYMENT STATS
 // ============================================================================
 
+// Ledger reason of a credit that gives back a debit, e.g. refund_comment
+export const CREDIT_REFUND_PREFIX = 'refund_';
+
 /**
- * Get payment statistics for an agent
+ * Get payment statistics for an agent (x402 payments plus credit ledger).
+ * Public, so the prepaid balance is left out.
  */
 export async function getAgentPaymentStats(
   env: Env,
@@ -288,31 +685,61 @@ export async function getAgentPaymentStats(
   postCount: number;
   reactionCount: number;
   commentCount: number;
+  credits: {
+    totalCredited: number;
+    totalDebited: number;
+  };
 }> {
   const supabase = getSupabase(env);
 
-  const { data } = await supabase
-    .from('payments')
-    .select('action, amount')
-    .eq('agent_id', agentId);
-
-  if (!data) {
-    return { totalSpent: 0, postCount: 0, reactionCount: 0, commentCount: 0 };
-  }
+  const [paymentsRes, ledgerRes] = await Promise.all([
+    supabase.from(TABLES.PAYMENTS).select('action, amount').eq('agent_id', agentId),
+    supabase.from(TABLES.CREDIT_LEDGER).select('entry_type, action, amount').eq('agent_id', agentId),
+  ]);
 
   let totalSpent = 0;
   let postCount = 0;
   let reactionCount = 0;
   let commentCount = 0;
+  let totalCredited = 0;
+  let totalDebited = 0;
+
+  const countAction = (action: string, delta = 1) => {
+    if (action === 'post_log') postCount += delta;
+    if (action === 'react') reactionCount += delta;
+    if (action === 'comment') commentCount += delta;
+  };
 
-  for (const payment of data) {
+  for (const payment of paymentsRes.data || []) {
     totalSpent += parseFloat(payment.amount);
-    if (payment.action === 'post_log') postCount++;
-    if (payment.action === 'react') reactionCount++;
-    if (payment.action === 'comment') commentCount++;
+    countAction(payment.action);
+  }
+
+  // Ledger amounts are atomic USDC units
+  const unit = Math.pow(10, X402_CONFIG.usdcDecimals);
+  for (const entry of ledgerRes.data || []) {
+    if (entry.entry_type === 'credit' && entry.action?.startsWith(CREDIT_REFUND_PREFIX)) {
+      // A refunded debit was for a write that never happened: net it out
+      totalDebited -= Number(entry.amount) / unit;
+      countAction(entry.action.slice(CREDIT_REFUND_PREFIX.length), -1);
+    } else if (entry.entry_type === 'credit') {
+      totalCredited += Number(entry.amount) / unit;
+    } else {
+      totalDebited += Number(entry.amount) / unit;
+      countAction(entry.action);
+    }
   }
 
-  return { totalSpent, postCount, reactionCount, commentCount };
+  return {
+    totalSpent,
+    postCount,
+    reactionCount,
+    commentCount,
+    credits: {
+      totalCredited,
+      totalDebited,
+    },
+  };
 }
 
 // ============================================================================
@@ -324,13 +751,28 @@ export const PAYMENTS_TABLE_SQL = `
 CREATE TABLE IF NOT EXISTS payments (
   id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
   agent_id UUID REFERENCES agents(id) ON DELETE CASCADE,
-  action TEXT NOT NULL CHECK (action IN ('post_log', 'react', 'comment')),
+  action TEXT NOT NULL CHECK (action IN ('post_log', 'react', 'comment', 'credit_topup')),
   amount TEXT NOT NULL,
   payer_address TEXT NOT NULL,
   transaction_hash TEXT,
+  payment_ref TEXT UNIQUE,
   created_at TIMESTAMPTZ DEFAULT NOW()
 );
 
+ALTER TABLE payments ADD COLUMN IF NOT EXISTS payment_ref TEXT UNIQUE;
+
 CREATE INDEX idx_payments_agent ON payments(agent_id);
 CREATE INDEX idx_payments_created ON payments(created_at DESC);
+
+-- Consumed EIP-3009 authorization nonces (replay protection)
+CREATE TABLE IF NOT EXISTS payment_nonces (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  network TEXT NOT NULL,
+  payer_address TEXT NOT NULL,
+  nonce TEXT NOT NULL,
+  action TEXT NOT NULL,
+  valid_before TIMESTAMPTZ NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE(network, payer_address, nonce)
+);
 `;
@@ -0,0 +1,147 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import type { Env } from '../src/lib/types';
+
+const getCode = vi.fn();
+const verifyMessage = vi.fn();
+
+vi.mock('../src/lib/erc8004', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../src/lib/erc8004')>()),
+  getPublicClient: () => ({ getCode, verifyMessage }),
+}));
+
+// Nonce store: every insert succeeds and every issued nonce can be redeemed
+vi.mock('../src/lib/db', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../src/lib/db')>()),
+  getSupabase: () => ({
+    from: () => {
+      const query: Record<string, unknown> = {
+        insert: async () => ({ error: null }),
+        select: async () => ({ data: [{ nonce: 'n' }], error: null }),
+      };
+      for (const method of ['update', 'eq', 'is', 'gt']) query[method] = () => query;
+      return query;
+    },
+  }),
+}));
+
+const { generateAuthMessage, verifyAuth } = await import('../src/lib/auth');
+const { RATE_LIMITS } = await import('../src/lib/ratelimit');
+
+const env = { RATE_LIMIT_BACKEND: 'memory' } as Env;
+const SAFE = '0x1111111111111111111111111111111111111111';
+const EOA = '0x2222222222222222222222222222222222222222';
+const forged = `0x${'ab'.repeat(65)}`;
+const wrapped = `0x${'cd'.repeat(96)}${'6492'.repeat(16)}`;
+
+async function signedPayload(wallet: string, signature: string) {
+  return { wallet, signature, message: await generateAuthMessage(env, 'login', wallet) };
+}
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  getCode.mockImplementation(async ({ address }) => (address === SAFE ? '0x6080' : undefined));
+  verifyMessage.mockResolvedValue(true);
+});
+
+describe('verifyAuth with smart wallets', () => {
+  it('asks the chain when the address has code', async () => {
+    const result = await verifyAuth(env, await signedPayload(SAFE, forged), 'login', '10.0.0.1');
+
+    expect(result).toMatchObject({ valid: true, wallet: SAFE });
+    expect(verifyMessage).toHaveBeenCalledTimes(1);
+  });
+
+  it('does not ask the chain for an address without code', async () => {
+    const result = await verifyAuth(env, await signedPayload(EOA, forged), 'login', '10.0.0.2');
+
+    expect(result).toEqual({ valid: false, error: 'Invalid signature' });
+    expect(verifyMessage).not.toHaveBeenCalled();
+  });
+
+  it('skips the code lookup for ERC-6492 wrapped signatures', async () => {
+    const result = await verifyAuth(env, await signedPayload(EOA, wrapped), 'login', '10.0.0.3');
+
+    expect(result.valid).toBe(true);
+    expect(getCode).not.toHaveBeenCalled();
+  });
+
+  it('limits on-chain checks per client IP, not per wallet', async () => {
+    const { limit } = RATE_LIMITS.smart_wallet_auth;
+    verifyMessage.mockResolvedValue(false);
+
+    for (let i = 0; i < limit; i++) {
+      await verifyAuth(env, await signedPayload(SAFE, forged), 'login', '10.0.0.4');
+    }
+    const attacker = await verifyAuth(env, await signedPayload(SAFE, forged), 'login', '10.0.0.4');
+
+    verifyMessage.mockResolvedValue(true);
+    const owner = await verifyAuth(env, await signedPayload(SAFE, forged), 'login', '10.0.0.5');
+
+    expect(attacker.error).toMatch(/Too many smart wallet signature checks/);
+    expect(owner.valid).toBe(true);
+  });
+
+  it('does not count forged EOA signatures against the limit', async () => {
+    const { limit } = RATE_LIMITS.smart_wallet_auth;
+
+    for (let i = 0; i <= limit; i++) {
+      await verifyAuth(env, await signedPayload(EOA, forged), 'login', '10.0.0.6');
+    }
+    const result = await verifyAuth(env, await signedPayload(SAFE, forged), 'login', '10.0.0.6');
+
+    expect(result.valid).toBe(true);
+  });
+});
+
+describe('verifyAuth with legacy messages', () => {
+  const legacyEnv = { ...env, LEGACY_AUTH_UNTIL: '2026-12-31T23:59:59Z' } as Env;
+
+  async function legacyPayload(message?: string) {
+    return {
+      wallet: SAFE,
+      signature: forged,
+      message: message ?? (await generateAuthMessage(legacyEnv, 'login', SAFE, 'legacy')),
+    };
+  }
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('accepts a legacy message bound to this domain before the sunset', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date('2026-10-01T00:00:00Z'));
+
+    const payload = await legacyPayload();
+    const result = await verifyAuth(legacyEnv, payload, 'login', '10.0.1.1');
+
+    expect(payload.message).toContain('Domain: clawg.network');
+    expect(result.valid).toBe(true);
+  });
+
+  it('rejects a legacy message signed for another domain', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date('2026-10-01T00:00:00Z'));
+
+    const { message } = await legacyPayload();
+    const result = await verifyAuth(
+      legacyEnv,
+      await legacyPayload(message.replace('Domain: clawg.network', 'Domain: evil.example')),
+      'login',
+      '10.0.1.2'
+    );
+
+    expect(result).toEqual({ valid: false, error: 'Invalid message format' });
+  });
+
+  it('stops issuing and accepting legacy messages after the sunset', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date('2026-10-01T00:00:00Z'));
+    const payload = await legacyPayload();
+
+    vi.setSystemTime(new Date('2027-01-01T00:00:00Z'));
+
+    await expect(generateAuthMessage(legacyEnv, 'login', SAFE, 'legacy')).rejects.toThrow();
+    expect((await verifyAuth(legacyEnv, payload, 'login', '10.0.1.3')).error).toMatch(/no longer accepted/);
+  });
+});
@@ -0,0 +1,156 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { Env } from '../src/lib/types';
+
+const rpc = vi.fn();
+
+vi.mock('../src/lib/db', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../src/lib/db')>()),
+  getSupabase: () => ({ rpc }),
+}));
+
+vi.mock('../src/lib/x402', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../src/lib/x402')>()),
+  authorizePayment: vi.fn(),
+  settleAuthorizedPayment: vi.fn(),
+  releaseAuthorizedPayment: vi.fn(),
+}));
+
+const { chargeAction } = await import('../src/lib/credits');
+const x402 = await import('../src/lib/x402');
+
+const env = {} as Env;
+const params = { action: 'comment' as const, resource: 'https://api.clawg.network/x', agentId: 'agent-1' };
+const authorized = { payload: {}, requirement: {}, requirements: [], payer: '0xabc' } as unknown as x402.AuthorizedPayment;
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  vi.mocked(x402.authorizePayment).mockResolvedValue({ success: true, requirements: [], authorized });
+  vi.mocked(x402.settleAuthorizedPayment).mockResolvedValue({ success: true, requirements: [], paymentResponse: 'ok' });
+});
+
+describe('chargeAction with an x402 payment', () => {
+  it('settles only after the write succeeds', async () => {
+    const order: string[] = [];
+    vi.mocked(x402.settleAuthorizedPayment).mockImplementation(async () => {
+      order.push('settle');
+      return { success: true, requirements: [] };
+    });
+
+    const paid = await chargeAction(
+      env,
+      { ...params, header: 'sig' },
+      async () => {
+        order.push('write');
+        return { success: true, data: { id: 'c1' } };
+      },
+      vi.fn()
+    );
+
+    expect(paid.success).toBe(true);
+    expect(order).toEqual(['write', 'settle']);
+  });
+
+  it('releases the nonce and never settles when the write fails', async () => {
+    const paid = await chargeAction(
+      env,
+      { ...params, header: 'sig' },
+      async () => ({ success: false, error: 'Comment cannot be empty' }),
+      vi.fn()
+    );
+
+    expect(paid).toEqual({ success: true, result: { success: false, error: 'Comment cannot be empty' } });
+    expect(x402.settleAuthorizedPayment).not.toHaveBeenCalled();
+    expect(x402.releaseAuthorizedPayment).toHaveBeenCalledWith(env, authorized);
+  });
+
+  it('undoes the write when settlement fails', async () => {
+    vi.mocked(x402.settleAuthorizedPayment).mockResolvedValue({
+      success: false,
+      error: 'Settlement failed',
+      requirements: [],
+    });
+    const undo = vi.fn();
+
+    const paid = await chargeAction(
+      env,
+      { ...params, header: 'sig' },
+      async () => ({ success: true, data: { id: 'c1' } }),
+      undo
+    );
+
+    expect(paid.success).toBe(false);
+    expect(undo).toHaveBeenCalledWith({ id: 'c1' });
+  });
+
+  it('does not write when the payment is rejected', async () => {
+    vi.mocked(x402.authorizePayment).mockResolvedValue({ success: false, error: 'Invalid', requirements: [] });
+    const write = vi.fn();
+
+    const paid = await chargeAction(env, { ...params, header: 'sig' }, write, vi.fn());
+
+    expect(paid.success).toBe(false);
+    expect(write).not.toHaveBeenCalled();
+  });
+});
+
+describe('chargeAction with prepaid credits', () => {
+  it('refunds the debit when the write fails', async () => {
+    rpc.mockResolvedValue({ data: 90000, error: null });
+
+    const paid = await chargeAction(
+      env,
+      { ...params, header: undefined },
+      async () => ({ success: false, error: 'Parent comment not found' }),
+      vi.fn()
+    );
+
+    expect(paid.success).toBe(true);
+    expect(rpc.mock.calls.map(([name]) => name)).toEqual(['debit_agent_balance', 'credit_agent_balance']);
+    expect(rpc.mock.calls[1][1]).toMatchObject({ agent_uuid: 'agent-1', credit_reason: 'refund_comment' });
+  });
+
+  it('refunds the debit when the write throws', async () => {
+    rpc.mockResolvedValue({ data: 90000, error: null });
+
+    await expect(
+      chargeAction(
+        env,
+        { ...params, header: undefined },
+        async () => {
+          throw new Error('boom');
+        },
+        vi.fn()
+      )
+    ).rejects.toThrow('boom');
+    expect(rpc).toHaveBeenLastCalledWith('credit_agent_balance', expect.objectContaining({ credit_reason: 'refund_comment' }));
+  });
+
+  it('keeps the debit when the write succeeds', async () => {
+    rpc.mockResolvedValue({ data: 90000, error: null });
+
+    const paid = await chargeAction(
+      env,
+      { ...params, header: undefined },
+      async () => ({ success: true, data: { id: 'c1' } }),
+      vi.fn()
+    );
+
+    expect(paid.success && paid.payment?.paidWith).toBe('credits');
+    expect(rpc).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('chargeAction for free-tier agents', () => {
+  it('writes without charging', async () => {
+    const paid = await chargeAction(
+      env,
+      { ...params, header: 'sig', free: true },
+      async () => ({ success: true, data: true }),
+      vi.fn()
+    );
+
+    expect(paid).toEqual({ success: true, result: { success: true, data: true } });
+    expect(x402.authorizePayment).not.toHaveBeenCalled();
+    expect(rpc).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,238 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, rm } from 'node:fs/promises';
+import * as fs from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import type { Env } from '../src/lib/types';
+
+const inserted: Array<Record<string, unknown>> = [];
+
+vi.mock('../src/lib/db', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../src/lib/db')>()),
+  getSupabase: () => ({
+    from: () => ({
+      insert: (row: Record<string, unknown>) => {
+        inserted.push(row);
+        return {
+          select: () => ({
+            single: async () => ({ data: { ...row, created_at: '2026-01-01T00:00:00Z' }, error: null }),
+          }),
+        };
+      },
+    }),
+  }),
+}));
+
+const {
+  sniffContentType,
+  stripMediaMetadata,
+  readImageDimensions,
+  uploadMedia,
+  getMediaObject,
+  setMediaStore,
+  createFsMediaStore,
+} = await import('../src/lib/media');
+
+// ============================================================================
+// FIXTURES
+// ============================================================================
+
+const text = (s: string) => new TextEncoder().encode(s);
+
+function bytes(...parts: Array<number[] | Uint8Array>): Uint8Array {
+  return Uint8Array.from(parts.flatMap((p) => [...p]));
+}
+
+function u16(n: number) {
+  return [n >> 8, n & 0xff];
+}
+
+function u32(n: number) {
+  return [n >>> 24, (n >> 16) & 0xff, (n >> 8) & 0xff, n & 0xff];
+}
+
+function contains(haystack: Uint8Array, needle: Uint8Array): boolean {
+  outer: for (let i = 0; i + needle.length <= haystack.length; i++) {
+    for (let j = 0; j < needle.length; j++) if (haystack[i + j] !== needle[j]) continue outer;
+    return true;
+  }
+  return false;
+}
+
+function jpegSegment(marker: number, payload: Uint8Array | number[]) {
+  return bytes([0xff, marker], u16(payload.length + 2), payload);
+}
+
+// Little-endian EXIF with the camera make and orientation 6 (rotate 90°)
+const exif = bytes(
+  text('Exif\0\0II'),
+  [0x2a, 0x00, 0x08, 0x00, 0x00, 0x00],
+  [0x02, 0x00],
+  [0x0f, 0x01, 0x02, 0x00, 0x04, 0x00, 0x00, 0x00], text('Cano'),
+  [0x12, 0x01, 0x03, 0x00, 0x01, 0x00, 0x00, 0x00, 0x06, 0x00, 0x00, 0x00],
+  [0x00, 0x00, 0x00, 0x00]
+);
+
+function jpeg(app1: Uint8Array = exif) {
+  return bytes(
+    [0xff, 0xd8],
+    jpegSegment(0xe0, text('JFIF\0\x01\x01\0\0\x01\0\x01\0\0')),
+    jpegSegment(0xe1, app1),
+    jpegSegment(0xfe, text('secret comment')),
+    jpegSegment(0xc0, [8, ...u16(300), ...u16(400), 1, 1, 0x11, 0]),
+    [0xff, 0xda, 0x00, 0x02, 0x12, 0x34, 0xff, 0xd9]
+  );
+}
+
+function pngChunk(type: string, data: Uint8Array) {
+  return bytes(u32(data.length), text(type), data, [0, 0, 0, 0]);
+}
+
+const png = bytes(
+  [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a],
+  pngChunk('IHDR', bytes(u32(64), u32(32), [8, 6, 0, 0, 0])),
+  pngChunk('tEXt', text('Author\0someone')),
+  pngChunk('IEND', new Uint8Array())
+);
+
+function box(type: string, ...children: Uint8Array[]) {
+  const body = bytes(...children);
+  return bytes(u32(body.length + 8), text(type), body);
+}
+
+const mp4 = bytes(
+  box('ftyp', text('isom\0\0\0\0isom')),
+  box('moov', box('mvhd', new Uint8Array(8)), box('udta', text('title: my house')), box('trak', box('udta', text('gps')))),
+  box('mdat', text('frames'))
+);
+
+// EBML header, then a Segment holding Info, Tags and a Cluster
+const webm = bytes(
+  [0x1a, 0x45, 0xdf, 0xa3, 0x84], text('webm'),
+  [0x18, 0x53, 0x80, 0x67, 0x01, 0xff, 0xff, 0xff, 0xff, 0xff, 0xff, 0xff],
+  [0x15, 0x49, 0xa9, 0x66, 0x83, 0x2a, 0xd7, 0xb1],
+  [0x12, 0x54, 0xc3, 0x67, 0x8c], text('title: house'),
+  [0x1f, 0x43, 0xb6, 0x75, 0x83, 0xe7, 0x81, 0x00]
+);
+
+// ============================================================================
+// TESTS
+// ============================================================================
+
+describe('sniffContentType', () => {
+  it.each([
+    ['image/jpeg', jpeg()],
+    ['image/png', png],
+    ['image/gif', text('GIF89a')],
+    ['image/webp', text('RIFF\0\0\0\0WEBPVP8 ')],
+    ['video/mp4', mp4],
+    ['video/webm', webm],
+  ])('detects %s', (type, file) => {
+    expect(sniffContentType(file)).toBe(type);
+  });
+
+  it('rejects unknown bytes', () => {
+    expect(sniffContentType(text('<svg xmlns="http://www.w3.org/2000/svg">'))).toBeNull();
+  });
+});
+
+describe('stripMediaMetadata', () => {
+  it('drops JPEG EXIF and comments but keeps the orientation', () => {
+    const stripped = stripMediaMetadata(jpeg(), 'image/jpeg');
+
+    expect(contains(stripped, text('Cano'))).toBe(false);
+    expect(contains(stripped, text('secret comment'))).toBe(false);
+    expect(contains(stripped, text('JFIF'))).toBe(true);
+    // Rewritten as a big-endian EXIF holding only tag 0x0112 = 6
+    expect(contains(stripped, bytes(text('Exif\0\0MM'), [0x00, 0x2a]))).toBe(true);
+    expect(contains(stripped, bytes([0x01, 0x12, 0x00, 0x03, 0x00, 0x00, 0x00, 0x01, 0x00, 0x06]))).toBe(true);
+    expect(readImageDimensions(stripped, 'image/jpeg')).toEqual({ width: 400, height: 300 });
+  });
+
+  it('drops EXIF entirely when the photo is upright', () => {
+    const upright = exif.slice();
+    upright[36] = 1;
+
+    const stripped = stripMediaMetadata(jpeg(upright), 'image/jpeg');
+
+    expect(contains(stripped, text('Exif'))).toBe(false);
+  });
+
+  it('drops PNG text chunks', () => {
+    const stripped = stripMediaMetadata(png, 'image/png');
+
+    expect(contains(stripped, text('someone'))).toBe(false);
+    expect(readImageDimensions(stripped, 'image/png')).toEqual({ width: 64, height: 32 });
+  });
+
+  it('zeroes MP4 user data without moving other boxes', () => {
+    const stripped = stripMediaMetadata(mp4, 'video/mp4');
+
+    expect(stripped.length).toBe(mp4.length);
+    expect(contains(stripped, text('udta'))).toBe(false);
+    expect(contains(stripped, text('my house'))).toBe(false);
+    expect(contains(stripped, text('gps'))).toBe(false);
+    expect(contains(stripped, text('frames'))).toBe(true);
+    expect(contains(mp4, text('my house'))).toBe(true);
+  });
+
+  it('turns WebM Tags into a Void element of the same length', () => {
+    const stripped = stripMediaMetadata(webm, 'video/webm');
+    const tagsAt = webm.indexOf(0x12, 20);
+
+    expect(stripped.length).toBe(webm.length);
+    expect(contains(stripped, text('house'))).toBe(false);
+    expect(stripped[tagsAt]).toBe(0xec);
+    // 8-byte size: 17 byte element - 1 byte ID - 8 byte size = 8 bytes of data
+    expect([...stripped.subarray(tagsAt + 1, tagsAt + 9)]).toEqual([1, 0, 0, 0, 0, 0, 0, 8]);
+    expect([...stripped.subarray(tagsAt + 17)]).toEqual([...webm.subarray(tagsAt + 17)]);
+  });
+});
+
+describe('uploadMedia through the filesystem store', () => {
+  const env = { MEDIA_PUBLIC_URL: 'https://media.test' } as Env;
+  let root: string;
+
+  beforeEach(async () => {
+    inserted.length = 0;
+    root = await mkdtemp(join(tmpdir(), 'clawg-media-'));
+    setMediaStore(createFsMediaStore(fs, root));
+  });
+
+  afterEach(async () => {
+    setMediaStore(null);
+    await rm(root, { recursive: true, force: true });
+  });
+
+  it('stores the stripped file and serves it back', async () => {
+    const result = await uploadMedia(env, 'agent-1', new File([jpeg()], 'photo.jpg', { type: 'image/jpeg' }));
+
+    expect(result.success).toBe(true);
+    expect(result.data).toMatchObject({ agentId: 'agent-1', contentType: 'image/jpeg', width: 400, height: 300 });
+    expect(result.data!.url).toBe(`https://media.test/${inserted[0].object_key}`);
+
+    const served = await getMediaObject(env, inserted[0].object_key as string);
+    expect(served?.contentType).toBe('image/jpeg');
+    expect(served?.size).toBe(inserted[0].size_bytes);
+    expect(contains(served!.body as Uint8Array, text('Cano'))).toBe(false);
+  });
+
+  it('rejects content that does not match the declared type', async () => {
+    const result = await uploadMedia(env, 'agent-1', new File([png], 'photo.jpg', { type: 'image/jpeg' }));
+
+    expect(result).toEqual({ success: false, error: 'File content does not match its content type' });
+    expect(inserted).toHaveLength(0);
+  });
+
+  it('returns null for missing objects', async () => {
+    expect(await getMediaObject(env, 'missing.jpg')).toBeNull();
+  });
+});
+
+describe('uploadMedia without a store', () => {
+  it('reports uploads as not configured', async () => {
+    const result = await uploadMedia({} as Env, 'agent-1', new File([png], 'a.png', { type: 'image/png' }));
+
+    expect(result).toEqual({ success: false, error: 'Media uploads are not configured' });
+  });
+});
@@ -0,0 +1,101 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { Hono } from 'hono';
+import {
+  RATE_LIMITS,
+  checkRateLimit,
+  createMemoryRateLimitStore,
+  enforceRateLimit,
+  type RateLimitStore,
+} from '../src/lib/ratelimit';
+import type { Env } from '../src/lib/types';
+
+const env = { RATE_LIMIT_BACKEND: 'memory' } as Env;
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('memory rate limit store', () => {
+  it('counts within a window and starts over when it rolls over', async () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(0);
+    const store = createMemoryRateLimitStore();
+
+    expect(await store.increment('k', 60)).toEqual({ count: 1, resetAt: 60_000 });
+    expect(await store.increment('k', 60)).toEqual({ count: 2, resetAt: 60_000 });
+
+    vi.setSystemTime(60_000);
+    expect(await store.increment('k', 60)).toEqual({ count: 1, resetAt: 120_000 });
+  });
+
+  it('keeps separate counts per key', async () => {
+    const store = createMemoryRateLimitStore();
+    await store.increment('a', 60);
+
+    expect((await store.increment('b', 60)).count).toBe(1);
+  });
+});
+
+describe('checkRateLimit', () => {
+  it('blocks once the agent limit is exceeded', async () => {
+    const store = createMemoryRateLimitStore();
+    const { limit } = RATE_LIMITS.post_log;
+
+    for (let i = 0; i < limit; i++) {
+      expect((await checkRateLimit(env, 'post_log', { agentId: 'a1' }, store)).allowed).toBe(true);
+    }
+    const result = await checkRateLimit(env, 'post_log', { agentId: 'a1' }, store);
+
+    expect(result).toMatchObject({ allowed: false, limit, remaining: 0 });
+  });
+
+  it('reports the most restrictive identity', async () => {
+    const store = createMemoryRateLimitStore();
+    await checkRateLimit(env, 'comment', { agentId: 'a1' }, store);
+    await checkRateLimit(env, 'comment', { agentId: 'a1' }, store);
+
+    const result = await checkRateLimit(env, 'comment', { agentId: 'a1', ip: '1.2.3.4' }, store);
+
+    expect(result.limit).toBe(RATE_LIMITS.comment.limit);
+    expect(result.remaining).toBe(RATE_LIMITS.comment.limit - 3);
+  });
+
+  it('fails open when the store throws', async () => {
+    const broken: RateLimitStore = {
+      increment: () => Promise.reject(new Error('counter unavailable')),
+    };
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    const result = await checkRateLimit(env, 'post_log', { agentId: 'a1' }, broken);
+
+    expect(result.allowed).toBe(true);
+  });
+});
+
+describe('enforceRateLimit', () => {
+  it('sets RateLimit headers and answers 429 with Retry-After', async () => {
+    const app = new Hono<{ Bindings: Env }>();
+    app.post('/follow', async (c) => {
+      const limited = await enforceRateLimit(c, 'follow', { agentId: 'headers-agent' });
+      return limited ?? c.json({ success: true });
+    });
+    const request = () =>
+      app.request('/follow', { method: 'POST', headers: { 'CF-Connecting-IP': '9.9.9.9' } }, env);
+    const { limit, windowSeconds } = RATE_LIMITS.follow;
+
+    const first = await request();
+    expect(first.status).toBe(200);
+    expect(first.headers.get('RateLimit-Limit')).toBe(String(limit));
+    expect(first.headers.get('RateLimit-Remaining')).toBe(String(limit - 1));
+    expect(first.headers.get('RateLimit-Policy')).toBe(`${limit};w=${windowSeconds}`);
+    expect(first.headers.get('Retry-After')).toBeNull();
+
+    for (let i = 1; i < limit; i++) await request();
+    const limited = await request();
+
+    expect(limited.status).toBe(429);
+    expect(limited.headers.get('RateLimit-Remaining')).toBe('0');
+    expect(Number(limited.headers.get('Retry-After'))).toBeGreaterThan(0);
+    expect(await limited.json()).toMatchObject({ success: false, error: 'Rate limit exceeded' });
+  });
+});
@@ -0,0 +1,130 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import type { Env, BuildLog, Agent } from '../src/lib/types';
+
+const selectedIds: string[][] = [];
+let rows: Array<Record<string, unknown>> = [];
+
+vi.mock('../src/lib/db', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../src/lib/db')>()),
+  getSupabase: () => ({
+    from: () => {
+      const query = {
+        select: () => query,
+        in: (_column: string, ids: string[]) => {
+          selectedIds.push(ids);
+          return query;
+        },
+        order: async () => ({ data: rows.filter((row) => selectedIds.at(-1)!.includes(row.id as string)) }),
+      };
+      return query;
+    },
+  }),
+}));
+
+const { openStream, announceLog, announcePublishedLogs } = await import('../src/lib/realtime');
+
+const env = {} as Env;
+const LOG_ID = '11111111-2222-4333-8444-555555555555';
+
+const agent = { id: 'agent-1', handle: 'alice' } as Agent;
+const log = { id: LOG_ID, agentId: agent.id, status: 'published', title: 'Shipped', agent } as BuildLog;
+
+/**
+ * Subscribe over SSE and collect every frame the hub writes
+ */
+async function subscribe(channels: string) {
+  const res = await openStream(env, new Request(`https://api.clawg.network/api/stream?channels=${channels}`));
+  const frames: string[] = [];
+  const reader = res.body!.pipeThrough(new TextDecoderStream()).getReader();
+  (async () => {
+    for (;;) {
+      const { value, done } = await reader.read();
+      if (done) return;
+      frames.push(...value.split('\n\n').filter(Boolean));
+    }
+  })();
+  return { res, frames, close: () => reader.cancel() };
+}
+
+const flush = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+beforeEach(() => {
+  vi.useFakeTimers({ toFake: ['setInterval', 'clearInterval'] });
+  selectedIds.length = 0;
+  rows = [];
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('local stream hub', () => {
+  it('opens an SSE stream and confirms the channels', async () => {
+    const feed = await subscribe('feed');
+    await flush();
+
+    expect(feed.res.headers.get('Content-Type')).toBe('text/event-stream');
+    expect(feed.frames[0]).toBe('event: subscribed\ndata: {"channels":["feed"]}');
+    await feed.close();
+  });
+
+  it('rejects malformed channels', async () => {
+    const res = await openStream(env, new Request('https://api.clawg.network/api/stream?channels=log:nope'));
+
+    expect(res.status).toBe(400);
+  });
+
+  it('fans an event out to every matching channel and no others', async () => {
+    const feed = await subscribe('feed');
+    const author = await subscribe('agent:alice');
+    const both = await subscribe('feed,agent:alice');
+    const other = await subscribe('agent:bob');
+    await flush();
+
+    await announceLog(env, log);
+    await flush();
+
+    for (const client of [feed, author, both]) {
+      const created = client.frames.filter((f) => f.startsWith('event: log.created'));
+      expect(created).toHaveLength(1);
+      expect(JSON.parse(created[0].split('data: ')[1])).toMatchObject({ id: LOG_ID, title: 'Shipped' });
+    }
+    expect(other.frames.some((f) => f.startsWith('event: log.created'))).toBe(false);
+
+    await Promise.all([feed, author, both, other].map((client) => client.close()));
+  });
+
+  it('does not announce unpublished logs', async () => {
+    const feed = await subscribe('feed');
+    await flush();
+
+    await announceLog(env, { ...log, status: 'draft' });
+    await flush();
+
+    expect(feed.frames).toHaveLength(1);
+    await feed.close();
+  });
+});
+
+describe('announcePublishedLogs', () => {
+  it('announces exactly the logs it is given', async () => {
+    rows = [
+      { id: LOG_ID, agent_id: agent.id, status: 'published', title: 'Went live', agent: { id: agent.id, handle: 'alice' } },
+    ];
+    const feed = await subscribe('feed');
+    await flush();
+
+    await announcePublishedLogs(env, [LOG_ID]);
+    await flush();
+
+    expect(selectedIds).toEqual([[LOG_ID]]);
+    expect(feed.frames.filter((f) => f.startsWith('event: log.created'))).toHaveLength(1);
+    await feed.close();
+  });
+
+  it('does nothing when no logs were published', async () => {
+    await announcePublishedLogs(env, []);
+
+    expect(selectedIds).toEqual([]);
+  });
+});